@@ -0,0 +1,47 @@
+import { ICategory } from '../models/Category';
+
+export type CategoryDefinition = Pick<ICategory, 'name' | 'description' | 'color' | 'icon' | 'labels' | 'order'>;
+
+// The original five categories, seeded on a fresh database and editable afterwards
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+	{
+		name: 'Interested',
+		description: 'Customer wants to buy, learn more, or shows positive interest',
+		color: '#2e7d32',
+		icon: '🎯',
+		labels: ['interested'],
+		order: 1
+	},
+	{
+		name: 'Meeting Booked',
+		description: 'Someone scheduled or confirmed a meeting/call',
+		color: '#1565c0',
+		icon: '📅',
+		labels: [],
+		order: 2
+	},
+	{
+		name: 'Not Interested',
+		description: 'Customer declined or shows no interest',
+		color: '#d84315',
+		icon: '❌',
+		labels: [],
+		order: 3
+	},
+	{
+		name: 'Spam',
+		description: 'Junk, promotional, or irrelevant emails',
+		color: '#512da8',
+		icon: '🗑️',
+		labels: ['spam', 'junk'],
+		order: 4
+	},
+	{
+		name: 'Out of Office',
+		description: 'Automatic away/vacation replies',
+		color: '#e65100',
+		icon: '🏖️',
+		labels: [],
+		order: 5
+	}
+];
@@ -0,0 +1,21 @@
+import { IKnowledgeDocument } from '../models/KnowledgeDocument';
+
+export type KnowledgeDefinition = Pick<IKnowledgeDocument, 'title' | 'type' | 'content'> & { source?: string };
+
+// What suggested replies used to hard-code, seeded on a fresh database so replies still have something to
+// cite; replace it with real product docs, pricing and past replies via /api/knowledge
+export const DEFAULT_KNOWLEDGE: KnowledgeDefinition[] = [
+	{
+		title: 'ReachInbox overview',
+		type: 'product',
+		content: 'ReachInbox is an AI email platform. We help businesses automate cold outreach and lead generation: ' +
+			'campaigns are sent from many mailboxes, replies land in one unified inbox, and AI sorts them by intent ' +
+			'(interested, meeting booked, not interested, out of office) so reps only work the leads that matter.'
+	},
+	{
+		title: 'Booking a meeting',
+		type: 'faq',
+		content: 'Prospects who want a demo or a call can pick a time on our calendar: https://cal.com/reachinbox/meeting. ' +
+			'Meetings are 30 minutes and include a walkthrough of the platform and time for questions.'
+	}
+];
@@ -0,0 +1,11 @@
+import { IReplyProfile } from '../models/Account';
+
+// Used for any field an account's reply profile leaves empty; what suggested replies used to hard-code
+export const DEFAULT_REPLY_PROFILE: IReplyProfile = {
+	productName: 'ReachInbox',
+	productDescription: 'An AI email platform that helps businesses automate cold outreach and lead generation',
+	tone: 'professional, friendly and concise',
+	signature: 'Best regards,\nThe ReachInbox Team',
+	meetingLink: 'https://cal.com/reachinbox/meeting',
+	forbiddenPhrases: []
+};
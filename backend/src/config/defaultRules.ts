@@ -0,0 +1,69 @@
+import { IRule } from '../models/Rule';
+
+export type RuleDefinition = Pick<IRule, 'name' | 'field' | 'matchType' | 'header' | 'value' | 'category' | 'priority' | 'stage' | 'enabled'>;
+
+// The keyword heuristics the app has always used, seeded as editable fallback rules.
+// "Not Interested" sits above "Interested" because its phrases contain the word "interested".
+export const DEFAULT_RULES: RuleDefinition[] = [
+	{
+		name: 'Auto-reply header',
+		field: 'any',
+		matchType: 'header',
+		header: 'auto-submitted',
+		value: '^auto-replied',
+		category: 'Out of Office',
+		priority: 60,
+		stage: 'before',
+		enabled: true
+	},
+	{
+		name: 'Out of office wording',
+		field: 'any',
+		matchType: 'regex',
+		value: '\\b(out of (the )?office|ooo|auto-reply|automatic reply)\\b',
+		category: 'Out of Office',
+		priority: 50,
+		stage: 'fallback',
+		enabled: true
+	},
+	{
+		name: 'Declined',
+		field: 'any',
+		matchType: 'regex',
+		value: "\\b(not interested|no longer interested|decline[ds]?|no thanks|remove me)\\b",
+		category: 'Not Interested',
+		priority: 40,
+		stage: 'fallback',
+		enabled: true
+	},
+	{
+		name: 'Meeting wording',
+		field: 'any',
+		matchType: 'regex',
+		value: '\\b(meeting|schedule[ds]?|calendar|appointment)\\b',
+		category: 'Meeting Booked',
+		priority: 30,
+		stage: 'fallback',
+		enabled: true
+	},
+	{
+		name: 'Buying signals',
+		field: 'any',
+		matchType: 'regex',
+		value: '\\b(interested|learn more|pricing|quote|demo)\\b',
+		category: 'Interested',
+		priority: 20,
+		stage: 'fallback',
+		enabled: true
+	},
+	{
+		name: 'Promotional wording',
+		field: 'any',
+		matchType: 'regex',
+		value: '\\b(unsubscribe|promotion|promo|discount|limited (time|offer)|click here|act now|free (money|cash|prize)|offer|deal|sale)\\b',
+		category: 'Spam',
+		priority: 10,
+		stage: 'fallback',
+		enabled: true
+	}
+];
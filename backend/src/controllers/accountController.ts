@@ -0,0 +1,343 @@
+import { Request, Response } from 'express';
+import Account, { IReplyProfile } from '../models/Account';
+import { isDummyMode } from '../config/runtime';
+import { dummyAccounts, dummyEmails } from '../mock/dummyData';
+import { startAccountSync, stopAccountSync, listAccountMailboxes } from '../services/imapService';
+import { startBackfill, cancelBackfill } from '../services/backfillService';
+import { parseReplyProfile, resolveReplyProfile } from '../services/replyProfileService';
+import { clearCachedSuggestions } from '../services/draftService';
+import { DEFAULT_REPLY_PROFILE } from '../config/defaultReplyProfile';
+
+// Fields that change how we talk to the IMAP server; editing any of them restarts the connection
+const CONNECTION_FIELDS = ['password', 'host', 'port', 'tls', 'folders'] as const;
+
+function normalizeFolders(folders: unknown): string[] {
+  const list = Array.isArray(folders) ? folders : String(folders || '').split(',');
+  const cleaned = [...new Set(list.map(f => String(f).trim()).filter(Boolean))];
+  return cleaned.length ? cleaned : ['INBOX'];
+}
+
+export const getAccounts = async (_req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.json(dummyAccounts);
+    }
+
+    const accounts = await Account.find().sort({ createdAt: 1 });
+    res.json(accounts);
+  } catch (error) {
+    console.error('❌ Error fetching accounts:', error);
+    res.status(500).json({ error: 'Failed to fetch accounts' });
+  }
+};
+
+export const getAccountById = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      const found = dummyAccounts.find(a => a.email === req.params.id);
+      if (!found) return res.status(404).json({ error: 'Account not found' });
+      return res.json(found);
+    }
+
+    const account = await Account.findById(req.params.id);
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    res.json(account);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch account' });
+  }
+};
+
+export const getAccountFolders = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      const found = dummyAccounts.find(a => a.email === req.params.id);
+      if (!found) return res.status(404).json({ error: 'Account not found' });
+      const paths = [...new Set(dummyEmails.filter(e => e.account === found.email).map(e => e.folder as string))];
+      return res.json(paths.map(path => ({ path, name: path, selectable: true, synced: true })));
+    }
+
+    const account = await Account.findById(req.params.id).select('+password');
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    const folders = await listAccountMailboxes(account);
+    res.json(folders);
+  } catch (error) {
+    console.error('❌ Error listing folders:', error);
+    res.status(502).json({
+      error: 'Failed to list folders from the IMAP server',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+function isPort(value: unknown): boolean {
+  const port = Number(value);
+  return Number.isInteger(port) && port > 0 && port <= 65535;
+}
+
+// Check the numeric fields of a request body; returns an error message for invalid values
+function validateAccountNumbers(body: any): string | undefined {
+  if (body?.port !== undefined && !isPort(body.port)) return 'port must be a port number (1-65535)';
+  if (body?.smtpPort && !isPort(body.smtpPort)) return 'smtpPort must be a port number (1-65535)';
+  if (body?.backfillDays !== undefined && body.backfillDays !== null && body.backfillDays !== '') {
+    const days = Number(body.backfillDays);
+    if (!Number.isInteger(days) || days < 1) return 'backfillDays must be a whole number of days (at least 1)';
+  }
+  return undefined;
+}
+
+export const createAccount = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.status(400).json({ error: 'Account management not available in dummy mode' });
+    }
+
+    const { email, password, host, port, tls, folders, backfillDays, smtpHost, smtpPort, smtpSecure } = req.body || {};
+
+    if (!email || !password || !host || !port) {
+      return res.status(400).json({ error: 'email, password, host and port are required' });
+    }
+    const invalid = validateAccountNumbers(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const account = await Account.create({
+      email: String(email).trim(),
+      password,
+      host: String(host).trim(),
+      port: Number(port),
+      tls: tls !== undefined ? Boolean(tls) : true,
+      folders: normalizeFolders(folders),
+      ...(smtpHost ? { smtpHost: String(smtpHost).trim() } : {}),
+      ...(smtpPort ? { smtpPort: Number(smtpPort) } : {}),
+      ...(smtpSecure !== undefined ? { smtpSecure: Boolean(smtpSecure) } : {}),
+      ...(backfillDays ? { backfillDays: Number(backfillDays) } : {})
+    });
+
+    console.log(`➕ Account added: ${account.email}`);
+    startAccountSync(account);
+
+    res.status(201).json(account);
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return res.status(409).json({ error: 'An account with this email already exists' });
+    }
+    console.error('❌ Error creating account:', error);
+    res.status(500).json({ error: 'Failed to create account' });
+  }
+};
+
+export const updateAccount = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.status(400).json({ error: 'Account management not available in dummy mode' });
+    }
+
+    const invalid = validateAccountNumbers(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const account = await Account.findById(req.params.id).select('+password');
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    const { email, password, host, port, tls, folders, backfillDays, smtpHost, smtpPort, smtpSecure } = req.body || {};
+    // Emails, jobs and drafts refer to the account by address; add a new account instead
+    if (email !== undefined && String(email).trim() !== account.email) {
+      return res.status(400).json({ error: 'The email address of an account cannot be changed' });
+    }
+    if (password) account.password = password;
+    if (host !== undefined) account.host = String(host).trim();
+    if (port !== undefined) account.port = Number(port);
+    if (tls !== undefined) account.tls = Boolean(tls);
+    if (folders !== undefined) account.folders = normalizeFolders(folders);
+    if (backfillDays) account.backfillDays = Number(backfillDays);
+    if (smtpHost !== undefined) account.smtpHost = smtpHost ? String(smtpHost).trim() : undefined;
+    if (smtpPort !== undefined) account.smtpPort = smtpPort ? Number(smtpPort) : undefined;
+    if (smtpSecure !== undefined) account.smtpSecure = Boolean(smtpSecure);
+
+    const needsRestart = CONNECTION_FIELDS.some(field => account.isModified(field));
+    await account.save();
+
+    if (needsRestart) {
+      console.log(`🔁 Account updated, restarting sync: ${account.email}`);
+      startAccountSync(account);
+    }
+
+    res.json(account);
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return res.status(409).json({ error: 'An account with this email already exists' });
+    }
+    console.error('❌ Error updating account:', error);
+    res.status(500).json({ error: 'Failed to update account' });
+  }
+};
+
+export const deleteAccount = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.status(400).json({ error: 'Account management not available in dummy mode' });
+    }
+
+    const account = await Account.findByIdAndDelete(req.params.id);
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    stopAccountSync(account.id);
+    await cancelBackfill(account.id);
+    console.log(`➖ Account removed: ${account.email}`);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('❌ Error deleting account:', error);
+    res.status(500).json({ error: 'Failed to delete account' });
+  }
+};
+
+export const getAccountBackfill = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.json(null);
+    }
+
+    const account = await Account.findById(req.params.id);
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    res.json(account.backfill?.status ? account.backfill : null);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch backfill status' });
+  }
+};
+
+export const startAccountBackfill = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.status(400).json({ error: 'Backfill not available in dummy mode' });
+    }
+
+    const account = await Account.findById(req.params.id).select('+password');
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    const { since, days = 365, batchSize = 50 } = req.body || {};
+
+    let sinceDate: Date;
+    if (since) {
+      sinceDate = new Date(since);
+    } else {
+      sinceDate = new Date();
+      sinceDate.setDate(sinceDate.getDate() - Number(days));
+    }
+
+    if (isNaN(sinceDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid since date or days value' });
+    }
+
+    const size = Math.min(Math.max(Number(batchSize) || 50, 1), 500);
+    const state = await startBackfill(account, sinceDate, size);
+    if (!state) {
+      return res.status(409).json({ error: 'A backfill is already running for this account' });
+    }
+
+    console.log(`📚 Backfill started for ${account.email} since ${sinceDate.toISOString()}`);
+    res.status(202).json(state);
+  } catch (error) {
+    console.error('❌ Error starting backfill:', error);
+    res.status(500).json({ error: 'Failed to start backfill' });
+  }
+};
+
+export const cancelAccountBackfill = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.status(400).json({ error: 'Backfill not available in dummy mode' });
+    }
+
+    const cancelled = await cancelBackfill(req.params.id);
+
+    if (!cancelled) {
+      return res.status(404).json({ error: 'No running backfill for this account' });
+    }
+
+    res.json({ message: 'Backfill cancellation requested' });
+  } catch (error) {
+    console.error('❌ Error cancelling backfill:', error);
+    res.status(500).json({ error: 'Failed to cancel backfill' });
+  }
+};
+
+// The account's own profile fields, plus the defaults that fill the empty ones
+function replyProfileResponse(profile: Partial<IReplyProfile> = {}) {
+  return { profile, effective: resolveReplyProfile(profile), defaults: DEFAULT_REPLY_PROFILE };
+}
+
+export const getAccountReplyProfile = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      const found = dummyAccounts.find(a => a.email === req.params.id);
+      if (!found) return res.status(404).json({ error: 'Account not found' });
+      return res.json(replyProfileResponse(found.replyProfile));
+    }
+
+    const account = await Account.findById(req.params.id);
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    res.json(replyProfileResponse(account.replyProfile));
+  } catch (error) {
+    console.error('❌ Error fetching reply profile:', error);
+    res.status(500).json({ error: 'Failed to fetch reply profile' });
+  }
+};
+
+// Replaces the whole profile; omitted or empty fields use the defaults
+export const updateAccountReplyProfile = async (req: Request, res: Response) => {
+  try {
+    const profile = parseReplyProfile(req.body);
+    if (typeof profile === 'string') {
+      return res.status(400).json({ error: profile });
+    }
+
+    if (isDummyMode) {
+      const found = dummyAccounts.find(a => a.email === req.params.id);
+      if (!found) return res.status(404).json({ error: 'Account not found' });
+      found.replyProfile = profile;
+      await clearCachedSuggestions();
+      return res.json(replyProfileResponse(profile));
+    }
+
+    const account = await Account.findByIdAndUpdate(req.params.id, { $set: { replyProfile: profile } }, { new: true });
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    await clearCachedSuggestions();
+    console.log(`✍️ Reply profile updated for ${account.email}`);
+    res.json(replyProfileResponse(account.replyProfile));
+  } catch (error) {
+    console.error('❌ Error updating reply profile:', error);
+    res.status(500).json({ error: 'Failed to update reply profile' });
+  }
+};
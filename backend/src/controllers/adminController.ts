@@ -0,0 +1,58 @@
+import { Request, Response } from 'express';
+import { isDummyMode } from '../config/runtime';
+import {
+  getIndexStatus,
+  startReindex,
+  isReindexRunning,
+  reconcileIndex,
+  isReconcileRunning
+} from '../services/indexMaintenanceService';
+
+// Where the alias points, document counts, and the latest reindex / reconciliation
+export const getSearchIndexStatus = async (_req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.status(400).json({ error: 'Search index is not available in dummy mode' });
+    }
+
+    res.json(await getIndexStatus());
+  } catch (error) {
+    console.error('❌ Error fetching search index status:', error);
+    res.status(500).json({ error: 'Failed to fetch search index status' });
+  }
+};
+
+// Rebuild the index from MongoDB in the background; poll GET /search-index for progress
+export const reindexSearchIndex = async (_req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.status(400).json({ error: 'Search index is not available in dummy mode' });
+    }
+    if (isReindexRunning()) {
+      return res.status(409).json({ error: 'A reindex is already running' });
+    }
+
+    res.status(202).json(startReindex('manual'));
+  } catch (error) {
+    console.error('❌ Error starting reindex:', error);
+    res.status(500).json({ error: 'Failed to start reindex' });
+  }
+};
+
+export const reconcileSearchIndex = async (_req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.status(400).json({ error: 'Search index is not available in dummy mode' });
+    }
+    if (isReconcileRunning() || isReindexRunning()) {
+      return res.status(409).json({ error: 'A reindex or reconciliation is already running' });
+    }
+
+    // Can take a while on a large mailbox; the result shows up in GET /search-index
+    reconcileIndex();
+    res.status(202).json({ status: 'running' });
+  } catch (error) {
+    console.error('❌ Error starting reconciliation:', error);
+    res.status(500).json({ error: 'Failed to start reconciliation' });
+  }
+};
@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import Category from '../models/Category';
+import Rule from '../models/Rule';
+import { isDummyMode } from '../config/runtime';
+import { dummyCategories, dummyRules } from '../mock/dummyData';
+import { CategoryDefinition } from '../config/defaultCategories';
+import { getCategories, findCategoryName, invalidateCategoryCache } from '../services/categoryService';
+
+// Everything except the name is editable; emails and rules refer to categories by name
+const EDITABLE_FIELDS = ['description', 'color', 'icon', 'labels', 'order'] as const;
+
+function parseCategory(body: any): Partial<CategoryDefinition> {
+  const category: any = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body?.[field] !== undefined) category[field] = body[field];
+  }
+  if (category.labels !== undefined) {
+    const list = Array.isArray(category.labels) ? category.labels : String(category.labels).split(',');
+    category.labels = list.map((l: unknown) => String(l).trim()).filter(Boolean);
+  }
+  if (category.order !== undefined) category.order = Number(category.order) || 0;
+  return category;
+}
+
+export const getCategoryList = async (_req: Request, res: Response) => {
+  try {
+    res.json(await getCategories());
+  } catch (error) {
+    console.error('❌ Error fetching categories:', error);
+    res.status(500).json({ error: 'Failed to fetch categories' });
+  }
+};
+
+export const createCategory = async (req: Request, res: Response) => {
+  try {
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+    if (await findCategoryName(name)) {
+      return res.status(409).json({ error: `Category "${name}" already exists` });
+    }
+
+    const data = { name, ...parseCategory(req.body) };
+    // New categories go to the end unless an order is given
+    if (data.order === undefined) {
+      data.order = Math.max(0, ...(await getCategories()).map(c => c.order)) + 1;
+    }
+
+    if (isDummyMode) {
+      const category = {
+        _id: `dummy-category-${Date.now()}`,
+        description: '',
+        color: '#8a90ad',
+        icon: '🏷️',
+        labels: [],
+        ...data
+      } as CategoryDefinition & { _id: string };
+      dummyCategories.push(category);
+      return res.status(201).json(category);
+    }
+
+    const category = await Category.create(data);
+    invalidateCategoryCache();
+    res.status(201).json(category);
+  } catch (error: any) {
+    if (error?.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('❌ Error creating category:', error);
+    res.status(500).json({ error: 'Failed to create category' });
+  }
+};
+
+export const updateCategory = async (req: Request, res: Response) => {
+  try {
+    if (req.body?.name !== undefined) {
+      return res.status(400).json({ error: 'Categories cannot be renamed; create a new one instead' });
+    }
+    const changes = parseCategory(req.body);
+
+    if (isDummyMode) {
+      const category = dummyCategories.find(c => c._id === req.params.id);
+      if (!category) return res.status(404).json({ error: 'Category not found' });
+      Object.assign(category, changes);
+      return res.json(category);
+    }
+
+    const category = await Category.findByIdAndUpdate(req.params.id, changes, { new: true, runValidators: true });
+
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    invalidateCategoryCache();
+    res.json(category);
+  } catch (error) {
+    console.error('❌ Error updating category:', error);
+    res.status(500).json({ error: 'Failed to update category' });
+  }
+};
+
+// Emails keep the name of a deleted category; rules pointing at it must be changed first
+export const deleteCategory = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      const index = dummyCategories.findIndex(c => c._id === req.params.id);
+      if (index === -1) return res.status(404).json({ error: 'Category not found' });
+      const inUse = dummyRules.filter(r => r.category === dummyCategories[index].name).length;
+      if (inUse) return res.status(409).json({ error: `Category is used by ${inUse} rule(s)` });
+      dummyCategories.splice(index, 1);
+      return res.json({ message: 'Category deleted' });
+    }
+
+    const category = await Category.findById(req.params.id);
+
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    const inUse = await Rule.countDocuments({ category: category.name });
+    if (inUse) {
+      return res.status(409).json({ error: `Category is used by ${inUse} rule(s)` });
+    }
+
+    await category.deleteOne();
+    invalidateCategoryCache();
+    res.json({ message: 'Category deleted' });
+  } catch (error) {
+    console.error('❌ Error deleting category:', error);
+    res.status(500).json({ error: 'Failed to delete category' });
+  }
+};
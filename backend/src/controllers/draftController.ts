@@ -0,0 +1,108 @@
+import { Request, Response } from 'express';
+import Email from '../models/Email';
+import Draft, { DraftStatus, DRAFT_STATUSES } from '../models/Draft';
+import { isDummyMode } from '../config/runtime';
+import { dummyDrafts, dummyEmails } from '../mock/dummyData';
+import { parseDraft } from '../services/draftService';
+
+// Drafts and sent replies for an email, most recently changed first; `?status=draft` narrows the list
+export const getEmailDrafts = async (req: Request, res: Response) => {
+  try {
+    const { status } = req.query;
+    if (status !== undefined && (typeof status !== 'string' || !DRAFT_STATUSES.includes(status as DraftStatus))) {
+      return res.status(400).json({ error: `status must be one of: ${DRAFT_STATUSES.join(', ')}` });
+    }
+
+    if (isDummyMode) {
+      return res.json(dummyDrafts
+        .filter(d => d.email === req.params.id && (!status || d.status === status))
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()));
+    }
+
+    const drafts = await Draft.find({ email: req.params.id, ...(status ? { status } : {}) }).sort({ updatedAt: -1 });
+    res.json(drafts);
+  } catch (error) {
+    console.error('❌ Error fetching drafts:', error);
+    res.status(500).json({ error: 'Failed to fetch drafts' });
+  }
+};
+
+// { body, generated?, author?, options? }; the author defaults to the account the email was received on
+export const createEmailDraft = async (req: Request, res: Response) => {
+  try {
+    const data = parseDraft(req.body);
+    if (typeof data === 'string') {
+      return res.status(400).json({ error: data });
+    }
+    if (!data.body) {
+      return res.status(400).json({ error: 'body is required' });
+    }
+
+    if (isDummyMode) {
+      const email = dummyEmails.find(e => e._id === req.params.id);
+      if (!email) return res.status(404).json({ error: 'Email not found' });
+      const draft = {
+        _id: `dummy-draft-${dummyDrafts.length + 1}`,
+        email: req.params.id,
+        account: email.account,
+        generated: '',
+        author: email.account || 'unknown',
+        status: 'draft' as const,
+        ...data,
+        body: data.body,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      dummyDrafts.push(draft);
+      return res.status(201).json(draft);
+    }
+
+    const email = await Email.findById(req.params.id).select('account');
+    if (!email) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+
+    const draft = await Draft.create({
+      email: email._id,
+      account: email.account,
+      author: email.account || 'unknown',
+      ...data
+    });
+    console.log(`💾 Saved draft ${draft.id} for email ${email.id}`);
+    res.status(201).json(draft);
+  } catch (error) {
+    console.error('❌ Error saving draft:', error);
+    res.status(500).json({ error: 'Failed to save draft' });
+  }
+};
+
+// Edit the text or change the status, e.g. { status: 'discarded' }
+export const updateEmailDraft = async (req: Request, res: Response) => {
+  try {
+    const changes = parseDraft(req.body);
+    if (typeof changes === 'string') {
+      return res.status(400).json({ error: changes });
+    }
+    const update = { ...changes, ...(changes.status === 'sent' ? { sentAt: new Date() } : {}) };
+
+    if (isDummyMode) {
+      const draft = dummyDrafts.find(d => d._id === req.params.draftId && d.email === req.params.id);
+      if (!draft) return res.status(404).json({ error: 'Draft not found' });
+      Object.assign(draft, update, { updatedAt: new Date() });
+      return res.json(draft);
+    }
+
+    const draft = await Draft.findOneAndUpdate(
+      { _id: req.params.draftId, email: req.params.id },
+      { $set: update },
+      { new: true, runValidators: true }
+    );
+    if (!draft) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+    res.json(draft);
+  } catch (error) {
+    console.error('❌ Error updating draft:', error);
+    res.status(500).json({ error: 'Failed to update draft' });
+  }
+};
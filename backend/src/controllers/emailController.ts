@@ -1,23 +1,59 @@
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import Email from '../models/Email';
 import { isDummyMode } from '../config/runtime';
 import { dummyEmails } from '../mock/dummyData';
 import { searchEmails } from '../services/elasticsearchService';
-import { generateSuggestedReply } from '../services/ragService';
-import { categorizeEmail } from '../services/aiCategorizationService';
-import { indexEmail } from '../services/elasticsearchService';
+import { parseSearchQuery, matchesQuery, highlightTerms, QueryNode, SearchQueryError } from '../services/searchQueryService';
+import { highlightEmail } from '../services/highlightService';
+import { FacetFilters, parseFacetInterval, mongoFacets, inMemoryFacets } from '../services/facetService';
+import { parsePageSize, decodeCursor, mongoAfterCursor, nextCursorFor, paginateInMemory } from '../services/paginationService';
+import { semanticMatches, reciprocalRankFusion, parseSemanticSearchMode } from '../services/semanticSearchService';
+import { generateSuggestedReply, rewriteReply, parseReplyOptions } from '../services/ragService';
+import { getCachedSuggestion, cacheSuggestion, suggestionGeneration, recordSentReply } from '../services/draftService';
+import { describeLLMError } from '../services/llmProvider';
+import Recategorization, { IRecategorizationScope } from '../models/Recategorization';
+import { sendReply } from '../services/smtpService';
+import {
+  applyEmailChanges,
+  deleteEmail,
+  parseEmailChanges,
+  setManualCategory,
+  FolderNotFoundError
+} from '../services/emailActionService';
+import { findCategoryName } from '../services/categoryService';
+import {
+  startRecategorization,
+  cancelRecategorization,
+  isRecategorizationRunning
+} from '../services/recategorizationService';
 
+function wantsFacets(req: Request): boolean {
+  return req.query.facets === 'true' || req.query.facets === '1';
+}
+
+// Newest first, paged by an opaque cursor over (date, _id): { items, nextCursor, total }.
+// `facets=true` adds per-category/account/folder/sender-domain/date counts (`facetInterval=day|month`).
 export const getEmails = async (req: Request, res: Response) => {
   try {
-    const { account, folder, category, limit = 50 } = req.query;
+    const { account, folder, category } = req.query;
+    const size = parsePageSize(req.query.limit);
+    const cursor = decodeCursor(req.query.cursor);
+    if (cursor === null || (cursor && !isDummyMode && !mongoose.isValidObjectId(cursor[1]))) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    const filters = { account, folder, category } as FacetFilters;
+    const interval = wantsFacets(req) ? parseFacetInterval(req.query.facetInterval) : undefined;
 
     if (isDummyMode) {
       let items = [...dummyEmails];
       if (account) items = items.filter(e => e.account === account);
       if (folder) items = items.filter(e => e.folder === folder);
       if (category) items = items.filter(e => e.category === category);
-      items.sort((a, b) => (+new Date(b.date as any)) - (+new Date(a.date as any)));
-      return res.json(items.slice(0, Number(limit)));
+      return res.json({
+        ...paginateInMemory(items, cursor, size),
+        ...(interval ? { facets: inMemoryFacets(dummyEmails, filters, interval) } : {})
+      });
     }
 
     const filter: any = {};
@@ -25,72 +61,193 @@ export const getEmails = async (req: Request, res: Response) => {
     if (folder) filter.folder = folder;
     if (category) filter.category = category;
 
-    const emails = await Email.find(filter)
-      .sort({ date: -1 })
-      .limit(Number(limit));
+    const pageFilter = cursor
+      ? { ...filter, ...mongoAfterCursor(cursor, '_id', id => new mongoose.Types.ObjectId(id)) }
+      : filter;
 
-    res.json(emails);
+    const [items, total, facets] = await Promise.all([
+      Email.find(pageFilter)
+        .sort({ date: -1, _id: -1 })
+        .limit(size),
+      Email.countDocuments(filter),
+      interval ? mongoFacets({}, filters, interval) : undefined
+    ]);
+
+    res.json({
+      items,
+      nextCursor: nextCursorFor(items, size, email => [email.date.getTime(), email.id]),
+      total,
+      ...(facets ? { facets } : {})
+    });
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch emails' });
   }
 };
 
+// Emails below this confidence (or with no category at all) are queued for a human to confirm or correct
+const REVIEW_CONFIDENCE_THRESHOLD = Number(process.env.REVIEW_CONFIDENCE_THRESHOLD) || 0.7;
+
+export const getReviewQueue = async (req: Request, res: Response) => {
+  try {
+    const { account } = req.query;
+    const limit = parsePageSize(req.query.limit);
+    const threshold = req.query.threshold !== undefined ? Number(req.query.threshold) : REVIEW_CONFIDENCE_THRESHOLD;
+    if (req.query.threshold === '' || !Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+      return res.status(400).json({ error: 'threshold must be a number between 0 and 1' });
+    }
+
+    if (isDummyMode) {
+      let items = dummyEmails.filter(e =>
+        e.categorization?.source !== 'manual' &&
+        (!e.category || (e.categorization?.confidence ?? 0) < threshold)
+      );
+      if (account) items = items.filter(e => e.account === account);
+      items.sort((a, b) => (a.categorization?.confidence ?? 0) - (b.categorization?.confidence ?? 0));
+      return res.json({ threshold, items: items.slice(0, limit) });
+    }
+
+    const filter: any = {
+      'categorization.source': { $ne: 'manual' },
+      $or: [
+        { category: { $exists: false } },
+        { category: null },
+        { category: '' },
+        // A missing confidence (model did not give one) also needs a look
+        { categorization: { $exists: true }, 'categorization.confidence': { $not: { $gte: threshold } } }
+      ]
+    };
+    if (account) filter.account = account;
+
+    // Least confident first
+    const items = await Email.find(filter)
+      .sort({ 'categorization.confidence': 1, date: -1 })
+      .limit(limit);
+
+    res.json({ threshold, items });
+  } catch (error) {
+    console.error('❌ Error fetching review queue:', error);
+    res.status(500).json({ error: 'Failed to fetch review queue' });
+  }
+};
+
+// `q` uses the Gmail-style syntax of searchQueryService; a malformed query is a 400 with the parser's message.
+// Same { items, nextCursor, total } shape as the listing; the cursor is only valid for the same query
 export const searchEmailsController = async (req: Request, res: Response) => {
   try {
     const { q, account, folder, category } = req.query;
+    const size = parsePageSize(req.query.limit);
+    const cursor = decodeCursor(req.query.cursor);
+    if (cursor === null) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    let query: QueryNode | undefined;
+    try {
+      query = parseSearchQuery(q as string);
+    } catch (error) {
+      if (error instanceof SearchQueryError) {
+        return res.status(400).json({ error: 'Invalid search query', details: error.message });
+      }
+      throw error;
+    }
+
+    const interval = wantsFacets(req) ? parseFacetInterval(req.query.facetInterval) : undefined;
 
     if (isDummyMode) {
-      const query = (q as string) || '';
-      let items = [...dummyEmails];
+      const matching = query ? dummyEmails.filter(e => matchesQuery(query!, e)) : [...dummyEmails];
+      let items = matching;
       if (account) items = items.filter(e => e.account === account);
       if (folder) items = items.filter(e => e.folder === folder);
       if (category) items = items.filter(e => e.category === category);
-      const lower = query.toLowerCase();
-      const results = items.filter(e =>
-        (e.subject || '').toLowerCase().includes(lower) ||
-        (e.body || '').toLowerCase().includes(lower) ||
-        (e.from || '').toLowerCase().includes(lower)
-      );
-      return res.json(results);
+      const page = paginateInMemory(items, cursor, size);
+      const terms = highlightTerms(query);
+      return res.json({
+        ...page,
+        items: page.items.map(e => ({ ...e, highlights: highlightEmail(e, terms) })),
+        ...(interval ? { facets: inMemoryFacets(matching, { account, folder, category } as FacetFilters, interval) } : {})
+      });
     }
 
-    const results = await searchEmails(q as string, {
+    const results = await searchEmails(query, {
       account: account as string,
       folder: folder as string,
       category: category as string
-    });
+    }, { cursor, size }, interval ? { interval } : undefined);
 
     res.json(results);
   } catch (error) {
     console.error('❌ Search controller error:', error);
-    // Try MongoDB fallback if Elasticsearch fails
-    try {
-      const { q: queryParam, account: accountParam, folder: folderParam, category: categoryParam } = req.query;
-      const searchFilter: any = {};
-      
-      if (accountParam) searchFilter.account = accountParam;
-      if (folderParam) searchFilter.folder = folderParam;
-      if (categoryParam) searchFilter.category = categoryParam;
-      
-      if (queryParam) {
-        const queryLower = (queryParam as string).toLowerCase();
-        searchFilter.$or = [
-          { subject: { $regex: queryLower, $options: 'i' } },
-          { body: { $regex: queryLower, $options: 'i' } },
-          { from: { $regex: queryLower, $options: 'i' } }
-        ];
+    res.status(500).json({ error: 'Search failed', details: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
+
+// Candidates taken from each side before fusing in hybrid mode
+const HYBRID_CANDIDATES = 50;
+
+// Natural-language search ("who asked about pricing for 50 seats?") over email embeddings. `mode=hybrid` fuses the
+// vector matches with keyword search results by reciprocal rank. Results are a single page ranked by relevance.
+export const semanticSearchController = async (req: Request, res: Response) => {
+  try {
+    const q = String(req.query.q || '').trim();
+    const account = req.query.account ? String(req.query.account) : undefined;
+    const size = parsePageSize(req.query.limit ?? 20);
+    const mode = parseSemanticSearchMode(req.query.mode);
+    if (!q) {
+      return res.status(400).json({ error: 'q is required' });
+    }
+    if (!mode) {
+      return res.status(400).json({ error: 'mode must be semantic or hybrid' });
+    }
+
+    const matches = await semanticMatches(q, { topK: mode === 'hybrid' ? Math.max(size, HYBRID_CANDIDATES) : size, account });
+    let ranked = matches.map(match => ({ id: match.id, score: match.score }));
+    const highlights = new Map<string, any>();
+
+    if (mode === 'hybrid') {
+      // A question is rarely valid search syntax; fall back to matching it as plain text
+      let query: QueryNode;
+      try {
+        query = parseSearchQuery(q) || { type: 'text', value: q, phrase: false };
+      } catch (error) {
+        if (!(error instanceof SearchQueryError)) throw error;
+        query = { type: 'text', value: q, phrase: false };
       }
-      
-      const results = await Email.find(searchFilter)
-        .sort({ date: -1 })
-        .limit(100)
-        .lean();
-      
-      return res.json(results);
-    } catch (fallbackError) {
-      console.error('❌ MongoDB fallback search also failed:', fallbackError);
-      res.status(500).json({ error: 'Search failed', details: error instanceof Error ? error.message : 'Unknown error' });
+
+      let keyword: any[];
+      if (isDummyMode) {
+        keyword = paginateInMemory(
+          dummyEmails.filter(e => (!account || e.account === account) && matchesQuery(query, e)),
+          undefined,
+          HYBRID_CANDIDATES
+        ).items.map(e => ({ ...e, highlights: highlightEmail(e, highlightTerms(query)) }));
+      } else {
+        keyword = (await searchEmails(query, { account }, { size: HYBRID_CANDIDATES })).items;
+      }
+      keyword.forEach(e => highlights.set(String(e._id), e.highlights));
+      ranked = reciprocalRankFusion([matches.map(m => m.id), keyword.map(e => String(e._id))]);
+    }
+
+    ranked = ranked.slice(0, size);
+
+    let emails: any[];
+    if (isDummyMode) {
+      emails = ranked.map(r => dummyEmails.find(e => e._id === r.id));
+    } else {
+      const found = await Email.find({ _id: { $in: ranked.map(r => r.id) } });
+      const byId = new Map(found.map(e => [e.id, e.toObject()]));
+      emails = ranked.map(r => byId.get(r.id));
     }
+
+    // Vectors can outlive their email briefly; skip those
+    const items = ranked
+      .map((r, i) => emails[i] && { ...emails[i], score: r.score, highlights: highlights.get(r.id) })
+      .filter(Boolean);
+
+    res.json({ items, nextCursor: null, total: items.length, mode });
+  } catch (error) {
+    console.error('❌ Semantic search error:', error);
+    const { status, message } = describeLLMError(error);
+    res.status(status).json({ error: 'Semantic search failed', details: message });
   }
 };
 
@@ -102,6 +259,10 @@ export const getEmailById = async (req: Request, res: Response) => {
       return res.json(found);
     }
 
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid email id' });
+    }
+
     const email = await Email.findById(req.params.id);
 
     if (!email) {
@@ -114,118 +275,486 @@ export const getEmailById = async (req: Request, res: Response) => {
   }
 };
 
+const MAX_REWRITE_INSTRUCTION = 500;
+
+// ?tone=formal|casual|short&intent=book_meeting|answer_question|decline&language=German&variants=1-3.
+// The last suggestion for the same options is served from the cache (with `cachedAt`); ?refresh=true regenerates.
 export const getSuggestedReply = async (req: Request, res: Response) => {
   try {
     const emailId = req.params.id;
     console.log(`📧 Requested suggested reply for email ID: ${emailId}`);
 
-    if (isDummyMode) {
-      const found = dummyEmails.find(e => e._id === emailId);
-      if (!found) {
-        console.warn(`⚠️ Email not found in dummy mode: ${emailId}`);
-        return res.status(404).json({ error: 'Email not found' });
-      }
-      // Simple canned response in dummy mode
-      const reply = `Hi there,\n\nThanks for reaching out! We'd be happy to share more about ReachInbox and how it can help your team automate outreach. You can pick a convenient time here: https://cal.com/reachinbox/meeting\n\nBest regards,\nThe ReachInbox Team`;
-      return res.json({ reply });
+    const options = parseReplyOptions(req.query);
+    if (typeof options === 'string') {
+      return res.status(400).json({ error: options });
+    }
+
+    if (!isDummyMode && !mongoose.isValidObjectId(emailId)) {
+      return res.status(400).json({ error: 'Invalid email id' });
     }
 
-    const email = await Email.findById(emailId);
+    // Dummy mode goes through the configured provider too (the offline stub by default), so a local model can be tried without MongoDB
+    const email = isDummyMode
+      ? dummyEmails.find(e => e._id === emailId) as any
+      : await Email.findById(emailId);
 
     if (!email) {
-      console.warn(`⚠️ Email not found in database: ${emailId}`);
+      console.warn(`⚠️ Email not found: ${emailId}`);
       return res.status(404).json({ error: 'Email not found' });
     }
 
-    console.log(`✅ Found email: ${email.subject?.substring(0, 50)}`);
-    const reply = await generateSuggestedReply(email);
+    if (!isRefresh(req.query.refresh)) {
+      const cached = await getCachedSuggestion(emailId, options);
+      if (cached) return res.json(cached);
+    }
 
-    res.json({ reply });
+    console.log(`✅ Found email: ${email.subject?.substring(0, 50)}`);
+    // { variants, sources, ... }: the drafts, and the knowledge base chunks given to the model, numbered as cited
+    const result = await generateSuggestedReply(email, options, undefined, await suggestionGeneration(emailId));
+    await cacheSuggestion(emailId, options, result);
+    res.json(result);
   } catch (error) {
     console.error('❌ Error in getSuggestedReply:', error);
-    if (error instanceof Error) {
-      console.error('Error details:', error.message);
-      console.error('Error stack:', error.stack);
-      
-      // Provide specific error messages and status codes
-      let errorMessage = 'Failed to generate AI reply';
-      let statusCode = 500;
-      
-      if (error.message.includes('quota exceeded') || error.message.includes('insufficient_quota')) {
-        errorMessage = 'OpenAI API quota exceeded. Please check your billing and plan details at https://platform.openai.com/account/billing';
-        statusCode = 429; // Too Many Requests
-      } else if (error.message.includes('Invalid OpenAI API key') || error.message.includes('invalid_api_key')) {
-        errorMessage = 'Invalid OpenAI API key. Please check your OPENAI_API_KEY environment variable.';
-        statusCode = 401; // Unauthorized
-      } else if (error.message.includes('Invalid model') || error.message.includes('does not exist')) {
-        errorMessage = error.message; // Use the specific error message from validation
-        statusCode = 400; // Bad Request
-      } else if (error.message.includes('Model not found')) {
-        errorMessage = error.message;
-        statusCode = 404; // Not Found
-      } else {
-        errorMessage = `AI reply generation failed: ${error.message}`;
-      }
-      
-      return res.status(statusCode).json({ 
-        error: errorMessage,
-        details: error.message 
-      });
+    const { status, message } = describeLLMError(error);
+    res.status(status).json({
+      error: status === 500 ? `AI reply generation failed: ${message}` : message,
+      details: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+function isRefresh(value: unknown): boolean {
+  return value === 'true' || value === '1';
+}
+
+// Server-sent events version of getSuggestedReply, same query options and cache. Events: `sources` (the numbered knowledge
+// chunks), `token` ({ variant, text }), `variant` (a finished draft, which replaces the streamed text), `done`
+// (the full response) or `error`. Closing the connection cancels generation.
+export const streamSuggestedReply = async (req: Request, res: Response) => {
+  const options = parseReplyOptions(req.query);
+  if (typeof options === 'string') {
+    return res.status(400).json({ error: options });
+  }
+
+  const abort = new AbortController();
+
+  try {
+    if (!isDummyMode && !mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid email id' });
+    }
+
+    const email = isDummyMode
+      ? dummyEmails.find(e => e._id === req.params.id) as any
+      : await Email.findById(req.params.id);
+
+    if (!email) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop proxies such as nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    // Also after an error ends the stream early: the other variants' LLM calls would otherwise keep running
+    res.on('close', () => abort.abort());
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // A cached suggestion is replayed as finished variants, without tokens
+    const cached = isRefresh(req.query.refresh) ? null : await getCachedSuggestion(req.params.id, options);
+    if (cached) {
+      send('sources', cached.sources);
+      cached.variants.forEach((draft, variant) => send('variant', { variant, ...draft }));
+      send('done', cached);
+      return res.end();
+    }
+
+    console.log(`📡 Streaming suggested reply for email ID: ${req.params.id}`);
+    const generation = await suggestionGeneration(req.params.id);
+    const result = await generateSuggestedReply(email, options, {
+      signal: abort.signal,
+      onSources: sources => send('sources', sources),
+      onToken: (variant, text) => send('token', { variant, text }),
+      onVariant: (variant, draft) => send('variant', { variant, ...draft })
+    }, generation);
+    await cacheSuggestion(req.params.id, options, result);
+    send('done', result);
+    res.end();
+  } catch (error) {
+    if (abort.signal.aborted) {
+      console.log(`🛑 Suggested reply stream cancelled for email ID: ${req.params.id}`);
+      return;
+    }
+    console.error('❌ Error streaming suggested reply:', error);
+    const { status, message } = describeLLMError(error);
+    if (!res.headersSent) {
+      return res.status(status).json({ error: message });
+    }
+    res.write(`event: error\ndata: ${JSON.stringify({ status, error: status === 500 ? `AI reply generation failed: ${message}` : message })}\n\n`);
+    res.end();
+  }
+};
+
+// { draft, instruction, tone?, intent?, language? }: rewrite a draft following the instruction
+export const rewriteSuggestedReply = async (req: Request, res: Response) => {
+  try {
+    const { draft, instruction } = req.body || {};
+
+    if (typeof draft !== 'string' || !draft.trim()) {
+      return res.status(400).json({ error: 'draft is required' });
+    }
+    if (typeof instruction !== 'string' || !instruction.trim() || instruction.length > MAX_REWRITE_INSTRUCTION) {
+      return res.status(400).json({ error: `instruction must be 1-${MAX_REWRITE_INSTRUCTION} characters` });
+    }
+
+    const options = parseReplyOptions({ ...req.body, variants: undefined });
+    if (typeof options === 'string') {
+      return res.status(400).json({ error: options });
+    }
+
+    if (!isDummyMode && !mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid email id' });
+    }
+
+    const email = isDummyMode
+      ? dummyEmails.find(e => e._id === req.params.id) as any
+      : await Email.findById(req.params.id);
+
+    if (!email) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+
+    res.json(await rewriteReply(email, draft, instruction.trim(), options));
+  } catch (error) {
+    console.error('❌ Error rewriting reply:', error);
+    const { status, message } = describeLLMError(error);
+    res.status(status).json({
+      error: status === 500 ? `AI reply rewrite failed: ${message}` : message,
+      details: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+};
+
+// { body, subject?, draftId? }; the sent text is kept in the email's drafts, on `draftId` when given
+export const replyToEmail = async (req: Request, res: Response) => {
+  try {
+    const { body, subject, draftId } = req.body || {};
+
+    if (typeof body !== 'string' || !body.trim()) {
+      return res.status(400).json({ error: 'Reply body is required' });
+    }
+    if (draftId !== undefined && (typeof draftId !== 'string' || (!isDummyMode && !mongoose.isValidObjectId(draftId)))) {
+      return res.status(400).json({ error: 'draftId must be a draft id' });
+    }
+
+    if (isDummyMode) {
+      const found = dummyEmails.find(e => e._id === req.params.id);
+      if (!found) return res.status(404).json({ error: 'Email not found' });
+      const draft = await recordSentReply(found as any, body, draftId);
+      return res.json({ messageId: `<dummy-reply-${Date.now()}@onebox.local>`, to: found.from, draftId: draft._id });
+    }
+
+    const email = await Email.findById(req.params.id);
+
+    if (!email) {
+      return res.status(404).json({ error: 'Email not found' });
     }
-    
-    res.status(500).json({ 
-      error: 'Failed to generate reply', 
-      details: 'Unknown error occurred' 
+
+    const result = await sendReply(email, body, subject);
+
+    // The mail is gone either way; a failure here only loses the history entry
+    const draft = await recordSentReply(email, body, draftId).catch(error => {
+      console.warn('⚠️ Could not record sent reply:', error instanceof Error ? error.message : error);
+      return null;
+    });
+    res.json({ ...result, draftId: draft?._id });
+  } catch (error) {
+    console.error('❌ Error sending reply:', error);
+    res.status(502).json({
+      error: 'Failed to send reply',
+      details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 };
 
+// Turn the request body into a run scope; `scope: "all"` (or no scope) covers every email
+async function parseRecategorizationScope(body: any): Promise<{ scope?: IRecategorizationScope; error?: string }> {
+  const raw = body?.scope ?? 'all';
+  if (raw === 'all') return { scope: {} };
+  if (typeof raw !== 'object') {
+    return { error: 'scope must be "all" or an object with account, folder, since, until or category' };
+  }
+
+  const scope: IRecategorizationScope = {};
+  if (raw.account) scope.account = String(raw.account);
+  if (raw.folder) scope.folder = String(raw.folder);
+
+  for (const field of ['since', 'until'] as const) {
+    if (!raw[field]) continue;
+    const date = new Date(raw[field]);
+    if (isNaN(date.getTime())) return { error: `${field} must be a valid date` };
+    scope[field] = date;
+  }
+
+  if (raw.category !== undefined && raw.category !== null) {
+    if (raw.category === '') {
+      scope.category = '';
+    } else {
+      const category = await findCategoryName(String(raw.category));
+      if (!category) return { error: `Unknown category "${raw.category}"` };
+      scope.category = category;
+    }
+  }
+
+  if (Object.keys(scope).length === 0) {
+    return { error: 'scope is empty; pass "all" to cover every email' };
+  }
+  return { scope };
+}
+
+// Start a background run; progress arrives as 'recategorize-progress' events and from GET /recategorize/:id
 export const recategorizeEmails = async (req: Request, res: Response) => {
   try {
     if (isDummyMode) {
-      return res.json({ message: 'Recategorization not available in dummy mode', categorized: 0 });
+      return res.status(400).json({ error: 'Recategorization not available in dummy mode' });
     }
 
-    // Find all emails without categories
-    const uncategorizedEmails = await Email.find({ 
-      $or: [
-        { category: { $exists: false } },
-        { category: null },
-        { category: '' }
-      ]
-    }).limit(100); // Process in batches
+    const force = Boolean(req.body?.force);
+    if (force && req.body?.scope === undefined) {
+      return res.status(400).json({ error: 'force requires an explicit scope; pass "all" to re-label every email' });
+    }
+
+    const { scope, error } = await parseRecategorizationScope(req.body);
+    if (!scope) {
+      return res.status(400).json({ error });
+    }
+    if (!force && scope.category) {
+      return res.status(400).json({ error: 'Re-examining a category requires force; without it only uncategorized emails are processed' });
+    }
+
+    if (isRecategorizationRunning()) {
+      return res.status(409).json({ error: 'A recategorization is already running' });
+    }
+
+    const run = await startRecategorization(scope, force);
+    res.status(202).json(run);
+  } catch (error) {
+    console.error('❌ Recategorization error:', error);
+    res.status(500).json({ error: 'Failed to start recategorization' });
+  }
+};
+
+export const getRecategorizations = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.json([]);
+    }
+
+    const runs = await Recategorization.find()
+      .sort({ startedAt: -1 })
+      .limit(Math.min(Number(req.query.limit) || 20, 100));
+    res.json(runs);
+  } catch (error) {
+    console.error('❌ Error fetching recategorizations:', error);
+    res.status(500).json({ error: 'Failed to fetch recategorizations' });
+  }
+};
 
-    let categorized = 0;
-    let failed = 0;
+export const getRecategorization = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.status(404).json({ error: 'Recategorization not found' });
+    }
+
+    const run = await Recategorization.findById(req.params.id);
+    if (!run) {
+      return res.status(404).json({ error: 'Recategorization not found' });
+    }
+    res.json(run);
+  } catch (error) {
+    console.error('❌ Error fetching recategorization:', error);
+    res.status(500).json({ error: 'Failed to fetch recategorization' });
+  }
+};
+
+export const cancelRecategorizationById = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.status(400).json({ error: 'Recategorization not available in dummy mode' });
+    }
+
+    const cancelled = await cancelRecategorization(req.params.id);
+    if (!cancelled) {
+      return res.status(404).json({ error: 'No running recategorization with this id' });
+    }
+    res.json({ message: 'Recategorization cancellation requested' });
+  } catch (error) {
+    console.error('❌ Error cancelling recategorization:', error);
+    res.status(500).json({ error: 'Failed to cancel recategorization' });
+  }
+};
+
+export const updateEmail = async (req: Request, res: Response) => {
+  try {
+    const changes = parseEmailChanges(req.body);
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: 'Provide at least one of isRead, isFlagged or folder' });
+    }
+
+    if (isDummyMode) {
+      const found = dummyEmails.find(e => e._id === req.params.id);
+      if (!found) return res.status(404).json({ error: 'Email not found' });
+      Object.assign(found, changes);
+      return res.json(found);
+    }
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid email id' });
+    }
+
+    const email = await Email.findById(req.params.id);
 
-    for (const email of uncategorizedEmails) {
+    if (!email) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+
+    const updated = await applyEmailChanges(email, changes);
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof FolderNotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('❌ Error updating email:', error);
+    res.status(502).json({
+      error: 'Failed to update email on the mail server',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+export const setEmailCategory = async (req: Request, res: Response) => {
+  try {
+    if (typeof req.body?.category !== 'string') {
+      return res.status(400).json({ error: 'category must be a string' });
+    }
+    const category = await findCategoryName(req.body.category);
+    if (!category) {
+      return res.status(400).json({ error: `Unknown category "${req.body?.category ?? ''}"` });
+    }
+
+    if (isDummyMode) {
+      const found = dummyEmails.find(e => e._id === req.params.id);
+      if (!found) return res.status(404).json({ error: 'Email not found' });
+      found.category = category;
+      found.categorization = { source: 'manual', confidence: 1, categorizedAt: new Date() };
+      return res.json(found);
+    }
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid email id' });
+    }
+
+    const email = await Email.findById(req.params.id);
+
+    if (!email) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+
+    const updated = await setManualCategory(email, category);
+    res.json(updated);
+  } catch (error) {
+    console.error('❌ Error setting category:', error);
+    res.status(500).json({ error: 'Failed to set category' });
+  }
+};
+
+export const deleteEmailById = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      const index = dummyEmails.findIndex(e => e._id === req.params.id);
+      if (index === -1) return res.status(404).json({ error: 'Email not found' });
+      dummyEmails.splice(index, 1);
+      return res.status(204).send();
+    }
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ error: 'Invalid email id' });
+    }
+
+    const email = await Email.findById(req.params.id);
+
+    if (!email) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+
+    await deleteEmail(email);
+    res.status(204).send();
+  } catch (error) {
+    console.error('❌ Error deleting email:', error);
+    res.status(502).json({
+      error: 'Failed to delete email on the mail server',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+export const bulkUpdateEmails = async (req: Request, res: Response) => {
+  try {
+    const { ids, delete: shouldDelete } = req.body || {};
+    const changes = parseEmailChanges(req.body);
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: 'ids must be a non-empty array' });
+    }
+    if (!shouldDelete && Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: 'Provide delete: true or at least one of isRead, isFlagged or folder' });
+    }
+
+    if (isDummyMode) {
+      let updated = 0;
+      for (const id of ids) {
+        const index = dummyEmails.findIndex(e => e._id === id);
+        if (index === -1) continue;
+        if (shouldDelete) dummyEmails.splice(index, 1);
+        else Object.assign(dummyEmails[index], changes);
+        updated++;
+      }
+      return res.json({ total: ids.length, updated, failed: ids.length - updated, errors: [] });
+    }
+
+    const invalid = ids.filter(id => !mongoose.isValidObjectId(id));
+    if (invalid.length) {
+      return res.status(400).json({ error: 'Invalid email ids', ids: invalid });
+    }
+
+    const emails = await Email.find({ _id: { $in: ids } });
+    const errors: Array<{ id: string; error: string }> = [];
+    let updated = 0;
+
+    // Sequential on purpose: emails in the same folder share one IMAP session
+    for (const email of emails) {
       try {
-        console.log(`🤖 Re-categorizing email: ${email.subject?.substring(0, 50)}`);
-        const category = await categorizeEmail(email);
-        if (category) {
-          email.category = category;
-          await email.save();
-          await indexEmail(email); // Re-index with category
-          categorized++;
-          console.log(`✅ Re-categorized as: ${category}`);
-        } else {
-          failed++;
-          console.warn(`⚠️ Could not categorize: ${email.subject?.substring(0, 50)}`);
-        }
+        if (shouldDelete) await deleteEmail(email);
+        else await applyEmailChanges(email, changes);
+        updated++;
       } catch (error) {
-        failed++;
-        console.error(`❌ Error categorizing email ${email._id}:`, error);
+        errors.push({ id: email.id, error: error instanceof Error ? error.message : 'Unknown error' });
       }
     }
 
-    res.json({
-      message: `Recategorization complete`,
-      total: uncategorizedEmails.length,
-      categorized,
-      failed
-    });
+    const found = new Set(emails.map(e => e.id));
+    for (const id of ids) {
+      if (!found.has(id)) errors.push({ id, error: 'Email not found' });
+    }
+
+    res.json({ total: ids.length, updated, failed: errors.length, errors });
   } catch (error) {
-    console.error('Recategorization error:', error);
-    res.status(500).json({ error: 'Failed to recategorize emails' });
+    console.error('❌ Bulk update error:', error);
+    res.status(500).json({ error: 'Failed to update emails' });
   }
 };
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { Request, Response } from 'express';
+import Job, { JobStage, JobStatus } from '../models/Job';
+import { isDummyMode } from '../config/runtime';
+import { getJobStats, retryJob, retryDeadJobs } from '../services/jobQueue';
+
+const STAGES: JobStage[] = ['ingest', 'categorize', 'index', 'notify', 'embed'];
+const STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'dead'];
+
+export const getJobs = async (req: Request, res: Response) => {
+  try {
+    const { stage, status, limit = 50 } = req.query;
+
+    if (isDummyMode) {
+      return res.json({ stats: {}, jobs: [] });
+    }
+
+    const query: any = {};
+    if (stage && STAGES.includes(stage as JobStage)) query.stage = stage;
+    if (status && STATUSES.includes(status as JobStatus)) query.status = status;
+
+    const [jobs, stats] = await Promise.all([
+      Job.find(query)
+        .sort({ updatedAt: -1 })
+        .limit(Math.min(Number(limit) || 50, 500)),
+      getJobStats()
+    ]);
+
+    res.json({ stats, jobs });
+  } catch (error) {
+    console.error('❌ Error fetching jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch jobs' });
+  }
+};
+
+export const getJobStatsController = async (_req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.json({});
+    }
+
+    res.json(await getJobStats());
+  } catch (error) {
+    console.error('❌ Error fetching job stats:', error);
+    res.status(500).json({ error: 'Failed to fetch job stats' });
+  }
+};
+
+export const retryJobById = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const job = await retryJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found or not retryable' });
+    }
+    res.json(job);
+  } catch (error) {
+    console.error('❌ Error retrying job:', error);
+    res.status(500).json({ error: 'Failed to retry job' });
+  }
+};
+
+// Requeue every dead-lettered job, or only those of one stage
+export const retryDeadJobsController = async (req: Request, res: Response) => {
+  try {
+    const { stage } = req.body || {};
+    if (stage && !STAGES.includes(stage)) {
+      return res.status(400).json({ error: `stage must be one of: ${STAGES.join(', ')}` });
+    }
+
+    if (isDummyMode) {
+      return res.json({ retried: 0 });
+    }
+
+    const retried = await retryDeadJobs(stage);
+    res.json({ retried });
+  } catch (error) {
+    console.error('❌ Error retrying dead jobs:', error);
+    res.status(500).json({ error: 'Failed to retry jobs' });
+  }
+};
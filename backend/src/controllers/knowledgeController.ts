@@ -0,0 +1,180 @@
+import { Request, Response } from 'express';
+import KnowledgeDocument, { KNOWLEDGE_TYPES, KnowledgeType } from '../models/KnowledgeDocument';
+import { isDummyMode } from '../config/runtime';
+import { dummyKnowledge } from '../mock/dummyData';
+import { KnowledgeDefinition } from '../config/defaultKnowledge';
+import {
+  chunkText,
+  rechunkDocument,
+  removeDocumentChunks,
+  retrieveKnowledge,
+  invalidateKnowledgeCache
+} from '../services/knowledgeService';
+import { describeLLMError } from '../services/llmProvider';
+import { clearCachedSuggestions } from '../services/draftService';
+
+const KNOWLEDGE_FIELDS = ['title', 'type', 'content', 'source'] as const;
+
+// Pick the editable fields out of a request body; returns an error message for invalid values
+function parseKnowledge(body: any): Partial<KnowledgeDefinition> | string {
+  const doc: any = {};
+  for (const field of KNOWLEDGE_FIELDS) {
+    if (body?.[field] !== undefined) doc[field] = typeof body[field] === 'string' ? body[field].trim() : body[field];
+  }
+  if (doc.type !== undefined && !KNOWLEDGE_TYPES.includes(doc.type)) {
+    return `type must be one of: ${KNOWLEDGE_TYPES.join(', ')}`;
+  }
+  if (doc.title !== undefined && (typeof doc.title !== 'string' || !doc.title)) return 'title must be a non-empty string';
+  if (doc.content !== undefined && (typeof doc.content !== 'string' || !doc.content)) return 'content must be a non-empty string';
+  return doc;
+}
+
+function parseTypes(value: unknown): KnowledgeType[] | undefined {
+  if (!value) return undefined;
+  return String(value).split(',').map(t => t.trim()).filter((t): t is KnowledgeType => KNOWLEDGE_TYPES.includes(t as KnowledgeType));
+}
+
+// Listing leaves out the content, which can be long
+export const getKnowledgeDocuments = async (req: Request, res: Response) => {
+  try {
+    const { type } = req.query;
+
+    if (isDummyMode) {
+      return res.json(dummyKnowledge
+        .filter(doc => !type || doc.type === type)
+        .map(({ content, ...doc }) => ({ ...doc, chunkCount: chunkText(content).length })));
+    }
+
+    const documents = await KnowledgeDocument.find(type ? { type } : {})
+      .select('-content')
+      .sort({ type: 1, title: 1 });
+    res.json(documents);
+  } catch (error) {
+    console.error('❌ Error fetching knowledge documents:', error);
+    res.status(500).json({ error: 'Failed to fetch knowledge documents' });
+  }
+};
+
+export const getKnowledgeDocument = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      const doc = dummyKnowledge.find(d => d._id === req.params.id);
+      if (!doc) return res.status(404).json({ error: 'Knowledge document not found' });
+      return res.json({ ...doc, chunkCount: chunkText(doc.content).length });
+    }
+
+    const doc = await KnowledgeDocument.findById(req.params.id);
+    if (!doc) {
+      return res.status(404).json({ error: 'Knowledge document not found' });
+    }
+    res.json(doc);
+  } catch (error) {
+    console.error('❌ Error fetching knowledge document:', error);
+    res.status(500).json({ error: 'Failed to fetch knowledge document' });
+  }
+};
+
+// Upload a document: { title, type, content, source? }. It is chunked right away and embedded on first use.
+export const createKnowledgeDocument = async (req: Request, res: Response) => {
+  try {
+    const data = parseKnowledge(req.body);
+    if (typeof data === 'string') {
+      return res.status(400).json({ error: data });
+    }
+    if (!data.title || !data.content) {
+      return res.status(400).json({ error: 'title and content are required' });
+    }
+
+    if (isDummyMode) {
+      const doc = { _id: `dummy-knowledge-${Date.now()}`, type: 'other' as KnowledgeType, ...data } as KnowledgeDefinition & { _id: string };
+      dummyKnowledge.push(doc);
+      invalidateKnowledgeCache();
+      await clearCachedSuggestions();
+      return res.status(201).json({ ...doc, chunkCount: chunkText(doc.content).length });
+    }
+
+    const doc = await KnowledgeDocument.create(data);
+    await rechunkDocument(doc);
+    await clearCachedSuggestions();
+    res.status(201).json(doc);
+  } catch (error) {
+    console.error('❌ Error creating knowledge document:', error);
+    res.status(500).json({ error: 'Failed to create knowledge document' });
+  }
+};
+
+export const updateKnowledgeDocument = async (req: Request, res: Response) => {
+  try {
+    const changes = parseKnowledge(req.body);
+    if (typeof changes === 'string') {
+      return res.status(400).json({ error: changes });
+    }
+
+    if (isDummyMode) {
+      const doc = dummyKnowledge.find(d => d._id === req.params.id);
+      if (!doc) return res.status(404).json({ error: 'Knowledge document not found' });
+      Object.assign(doc, changes);
+      invalidateKnowledgeCache();
+      await clearCachedSuggestions();
+      return res.json({ ...doc, chunkCount: chunkText(doc.content).length });
+    }
+
+    const doc = await KnowledgeDocument.findByIdAndUpdate(req.params.id, changes, { new: true, runValidators: true });
+    if (!doc) {
+      return res.status(404).json({ error: 'Knowledge document not found' });
+    }
+
+    if (changes.content !== undefined) {
+      await rechunkDocument(doc);
+    } else {
+      // Titles and types are shown with citations
+      invalidateKnowledgeCache();
+    }
+    await clearCachedSuggestions();
+    res.json(doc);
+  } catch (error) {
+    console.error('❌ Error updating knowledge document:', error);
+    res.status(500).json({ error: 'Failed to update knowledge document' });
+  }
+};
+
+export const deleteKnowledgeDocument = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      const index = dummyKnowledge.findIndex(d => d._id === req.params.id);
+      if (index === -1) return res.status(404).json({ error: 'Knowledge document not found' });
+      dummyKnowledge.splice(index, 1);
+      invalidateKnowledgeCache();
+      await clearCachedSuggestions();
+      return res.json({ message: 'Knowledge document deleted' });
+    }
+
+    const doc = await KnowledgeDocument.findByIdAndDelete(req.params.id);
+    if (!doc) {
+      return res.status(404).json({ error: 'Knowledge document not found' });
+    }
+    await removeDocumentChunks(doc);
+    await clearCachedSuggestions();
+    res.json({ message: 'Knowledge document deleted' });
+  } catch (error) {
+    console.error('❌ Error deleting knowledge document:', error);
+    res.status(500).json({ error: 'Failed to delete knowledge document' });
+  }
+};
+
+// Preview what retrieval would hand the model for a piece of text: ?q=...&limit=&type=pricing,faq
+export const searchKnowledge = async (req: Request, res: Response) => {
+  try {
+    const q = String(req.query.q || '').trim();
+    if (!q) {
+      return res.status(400).json({ error: 'q is required' });
+    }
+
+    const topK = Math.min(Math.max(1, Number(req.query.limit) || 4), 20);
+    res.json(await retrieveKnowledge(q, { topK, types: parseTypes(req.query.type) }));
+  } catch (error) {
+    console.error('❌ Error searching knowledge base:', error);
+    const { status, message } = describeLLMError(error);
+    res.status(status).json({ error: 'Knowledge search failed', details: message });
+  }
+};
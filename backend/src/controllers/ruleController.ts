@@ -0,0 +1,190 @@
+import { Request, Response } from 'express';
+import Rule from '../models/Rule';
+import Email from '../models/Email';
+import { isDummyMode } from '../config/runtime';
+import { dummyRules, dummyEmails } from '../mock/dummyData';
+import { RuleDefinition } from '../config/defaultRules';
+import { validateRule, invalidateRuleCache, ruleMatches, evaluateRules, RuleTarget } from '../services/ruleService';
+import { findCategoryName } from '../services/categoryService';
+
+const RULE_FIELDS = ['name', 'field', 'matchType', 'header', 'value', 'category', 'priority', 'stage', 'enabled'] as const;
+
+// Pick the editable fields out of a request body
+function parseRule(body: any): Partial<RuleDefinition> {
+  const rule: any = {};
+  for (const field of RULE_FIELDS) {
+    if (body?.[field] !== undefined) rule[field] = body[field];
+  }
+  if (rule.priority !== undefined) rule.priority = Number(rule.priority) || 0;
+  if (rule.enabled !== undefined) rule.enabled = Boolean(rule.enabled);
+  if (typeof rule.header === 'string') rule.header = rule.header.trim().toLowerCase();
+  return rule;
+}
+
+export const getRules = async (_req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      return res.json([...dummyRules].sort((a, b) => b.priority - a.priority));
+    }
+
+    const rules = await Rule.find().sort({ priority: -1, createdAt: 1 });
+    res.json(rules);
+  } catch (error) {
+    console.error('❌ Error fetching rules:', error);
+    res.status(500).json({ error: 'Failed to fetch rules' });
+  }
+};
+
+export const createRule = async (req: Request, res: Response) => {
+  try {
+    const data = parseRule(req.body);
+    if (!data.matchType || !data.category) {
+      return res.status(400).json({ error: 'matchType, value and category are required' });
+    }
+    const invalid = validateRule(data);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    const category = await findCategoryName(data.category);
+    if (!category) {
+      return res.status(400).json({ error: `Unknown category "${data.category}"` });
+    }
+    data.category = category;
+    data.name = data.name || `${data.matchType}: ${data.value}`;
+
+    if (isDummyMode) {
+      const rule = {
+        _id: `dummy-rule-${Date.now()}`,
+        field: 'any',
+        priority: 0,
+        stage: 'before',
+        enabled: true,
+        ...data
+      } as RuleDefinition & { _id: string };
+      dummyRules.push(rule);
+      return res.status(201).json(rule);
+    }
+
+    const rule = await Rule.create(data);
+    invalidateRuleCache();
+    res.status(201).json(rule);
+  } catch (error: any) {
+    if (error?.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('❌ Error creating rule:', error);
+    res.status(500).json({ error: 'Failed to create rule' });
+  }
+};
+
+export const updateRule = async (req: Request, res: Response) => {
+  try {
+    const changes = parseRule(req.body);
+    if (changes.category !== undefined) {
+      const category = await findCategoryName(changes.category);
+      if (!category) {
+        return res.status(400).json({ error: `Unknown category "${changes.category}"` });
+      }
+      changes.category = category;
+    }
+
+    if (isDummyMode) {
+      const rule = dummyRules.find(r => r._id === req.params.id);
+      if (!rule) return res.status(404).json({ error: 'Rule not found' });
+      const invalid = validateRule({ ...rule, ...changes });
+      if (invalid) return res.status(400).json({ error: invalid });
+      Object.assign(rule, changes);
+      return res.json(rule);
+    }
+
+    const rule = await Rule.findById(req.params.id);
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    const invalid = validateRule({ ...rule.toObject(), ...changes });
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    Object.assign(rule, changes);
+    await rule.save();
+    invalidateRuleCache();
+
+    res.json(rule);
+  } catch (error: any) {
+    if (error?.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('❌ Error updating rule:', error);
+    res.status(500).json({ error: 'Failed to update rule' });
+  }
+};
+
+export const deleteRule = async (req: Request, res: Response) => {
+  try {
+    if (isDummyMode) {
+      const index = dummyRules.findIndex(r => r._id === req.params.id);
+      if (index === -1) return res.status(404).json({ error: 'Rule not found' });
+      dummyRules.splice(index, 1);
+      return res.json({ message: 'Rule deleted' });
+    }
+
+    const rule = await Rule.findByIdAndDelete(req.params.id);
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    invalidateRuleCache();
+    res.json({ message: 'Rule deleted' });
+  } catch (error) {
+    console.error('❌ Error deleting rule:', error);
+    res.status(500).json({ error: 'Failed to delete rule' });
+  }
+};
+
+// Try rules against a stored email ({ emailId }) or a sample ({ subject, body, from, to, headers }).
+// With { rule } only that (possibly unsaved) definition is checked; otherwise the saved rules are run in order.
+export const testRules = async (req: Request, res: Response) => {
+  try {
+    const { emailId, rule } = req.body || {};
+    let target: RuleTarget;
+
+    if (emailId) {
+      const email = isDummyMode
+        ? dummyEmails.find(e => e._id === emailId)
+        : await Email.findById(emailId);
+      if (!email) return res.status(404).json({ error: 'Email not found' });
+      target = email;
+    } else {
+      const { subject, body, from, to, headers } = req.body || {};
+      target = {
+        subject,
+        body,
+        from,
+        to: Array.isArray(to) ? to : to ? [to] : [],
+        // Header rules look names up in lower case, as they are stored on synced emails
+        headers: Object.fromEntries(Object.entries(headers || {}).map(([k, v]) => [k.toLowerCase(), String(v)]))
+      };
+    }
+
+    if (rule) {
+      const definition = { field: 'any', ...parseRule(rule) } as RuleDefinition;
+      const invalid = validateRule(definition);
+      if (invalid) return res.status(400).json({ error: invalid });
+      return res.json({ matched: ruleMatches(definition, target) });
+    }
+
+    const match = await evaluateRules(target, 'before') || await evaluateRules(target, 'fallback');
+    res.json({
+      matched: Boolean(match),
+      category: match?.category,
+      rule: match?.rule
+    });
+  } catch (error) {
+    console.error('❌ Error testing rules:', error);
+    res.status(500).json({ error: 'Failed to test rules' });
+  }
+};
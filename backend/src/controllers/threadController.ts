@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import Email from '../models/Email';
+import { isDummyMode } from '../config/runtime';
+import { dummyEmails } from '../mock/dummyData';
+import { parsePageSize } from '../services/paginationService';
+
+interface ThreadSummary {
+  threadId: string;
+  subject: string;
+  account: string;
+  messageCount: number;
+  unreadCount: number;
+  participants: string[];
+  lastDate: Date;
+  latestEmailId: string;
+  category?: string;
+}
+
+export const getThreads = async (req: Request, res: Response) => {
+  try {
+    const { account, category } = req.query;
+    const limit = parsePageSize(req.query.limit);
+
+    if (isDummyMode) {
+      let items = dummyEmails.filter(e => e.threadId);
+      if (account) items = items.filter(e => e.account === account);
+
+      const threads = new Map<string, ThreadSummary>();
+      for (const email of items) {
+        const date = new Date(email.date as any);
+        const thread = threads.get(email.threadId!);
+        if (!thread) {
+          threads.set(email.threadId!, {
+            threadId: email.threadId!,
+            subject: email.subject || '(No Subject)',
+            account: email.account!,
+            messageCount: 1,
+            unreadCount: email.isRead ? 0 : 1,
+            participants: [email.from!],
+            lastDate: date,
+            latestEmailId: email._id!,
+            category: email.category
+          });
+          continue;
+        }
+        thread.messageCount++;
+        if (!email.isRead) thread.unreadCount++;
+        if (!thread.participants.includes(email.from!)) thread.participants.push(email.from!);
+        if (date > thread.lastDate) {
+          Object.assign(thread, { lastDate: date, latestEmailId: email._id, subject: email.subject, category: email.category });
+        }
+      }
+
+      let result = [...threads.values()];
+      if (category) result = result.filter(t => t.category === category);
+      result.sort((a, b) => +b.lastDate - +a.lastDate);
+      return res.json(result.slice(0, limit));
+    }
+
+    const match: any = { threadId: { $exists: true } };
+    if (account) match.account = account;
+
+    const threads = await Email.aggregate([
+      { $match: match },
+      { $sort: { date: -1 } },
+      {
+        $group: {
+          _id: '$threadId',
+          subject: { $first: '$subject' },
+          account: { $first: '$account' },
+          category: { $first: '$category' },
+          latestEmailId: { $first: '$_id' },
+          lastDate: { $first: '$date' },
+          messageCount: { $sum: 1 },
+          unreadCount: { $sum: { $cond: ['$isRead', 0, 1] } },
+          participants: { $addToSet: '$from' }
+        }
+      },
+      // The latest message's category describes where the conversation stands
+      ...(category ? [{ $match: { category } }] : []),
+      { $sort: { lastDate: -1 } },
+      { $limit: limit },
+      { $project: { _id: 0, threadId: '$_id', subject: 1, account: 1, category: 1, latestEmailId: 1, lastDate: 1, messageCount: 1, unreadCount: 1, participants: 1 } }
+    ]);
+
+    res.json(threads);
+  } catch (error) {
+    console.error('❌ Error fetching threads:', error);
+    res.status(500).json({ error: 'Failed to fetch threads' });
+  }
+};
+
+export const getThreadById = async (req: Request, res: Response) => {
+  try {
+    const threadId = req.params.id;
+
+    if (isDummyMode) {
+      const items = dummyEmails
+        .filter(e => e.threadId === threadId)
+        .sort((a, b) => (+new Date(a.date as any)) - (+new Date(b.date as any)));
+      if (items.length === 0) return res.status(404).json({ error: 'Thread not found' });
+      return res.json({ threadId, emails: items });
+    }
+
+    // Oldest first so the conversation reads top to bottom
+    const emails = await Email.find({ threadId }).sort({ date: 1 });
+
+    if (emails.length === 0) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
+
+    res.json({ threadId, emails });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch thread' });
+  }
+};
@@ -1,6 +1,20 @@
 import { IEmail } from '../models/Email';
+import { IReplyProfile } from '../models/Account';
+import { DraftStatus } from '../models/Draft';
+import { DEFAULT_RULES, RuleDefinition } from '../config/defaultRules';
+import { DEFAULT_CATEGORIES, CategoryDefinition } from '../config/defaultCategories';
+import { DEFAULT_KNOWLEDGE, KnowledgeDefinition } from '../config/defaultKnowledge';
 
-export const dummyAccounts = [
+export const dummyAccounts: Array<{
+	email: string;
+	provider: string;
+	host: string;
+	port: number;
+	tls: boolean;
+	isConnected: boolean;
+	// Editable from Settings in dummy mode, like categories and rules
+	replyProfile?: Partial<IReplyProfile>;
+}> = [
 	{
 		email: 'demo@acme.com',
 		provider: 'IMAP',
@@ -15,7 +29,14 @@ export const dummyAccounts = [
 		host: 'imap.example.com',
 		port: 993,
 		tls: true,
-		isConnected: false
+		isConnected: false,
+		replyProfile: {
+			productName: 'Acme Sales Cloud',
+			productDescription: 'A CRM for small sales teams with built-in dialer and pipeline reports',
+			tone: 'warm and upbeat',
+			signature: 'Cheers,\nJordan from Acme',
+			forbiddenPhrases: ['guarantee', 'cheapest']
+		}
 	},
 	{
 		email: 'ops@northwind.io',
@@ -112,7 +133,20 @@ function generateDummyEmails(): Partial<IEmail & { _id: string }>[] {
 				body: tmpl.body,
 				html: i % 2 === 0 ? `<p>${tmpl.body}</p>` : '',
 				date: new Date(ts),
+				references: [],
+				// Same template + account behaves like one conversation
+				threadId: `dummy-thread-${(dayOffset + i) % templates.length}-${account}`,
 				category,
+				categorization: category
+					? {
+						source: 'llm',
+						model: 'stub',
+						// Spread confidences so the review queue has something to show
+						confidence: [0.95, 0.82, 0.55, 0.4][(dayOffset + i) % 4],
+						rationale: `Looks like ${category.toLowerCase()} based on the subject and body`,
+						categorizedAt: new Date(ts)
+					}
+					: undefined,
 				isRead: (dayOffset + i) % 3 === 0,
 				isFlagged: (dayOffset + i) % 7 === 0,
 				attachments: (dayOffset + i) % 5 === 0 ? [{ filename: 'invoice.pdf', size: 120 * 1024 }] : []
@@ -126,4 +160,61 @@ function generateDummyEmails(): Partial<IEmail & { _id: string }>[] {
 
 export const dummyEmails: Partial<IEmail & { _id: string }>[] = generateDummyEmails();
 
+// Rules live in memory in dummy mode so the Settings page can still add and edit them
+export const dummyRules: (RuleDefinition & { _id: string })[] = DEFAULT_RULES.map((rule, i) => ({
+	_id: `dummy-rule-${i + 1}`,
+	...rule
+}));
+
+export const dummyCategories: (CategoryDefinition & { _id: string })[] = DEFAULT_CATEGORIES.map((category, i) => ({
+	_id: `dummy-category-${i + 1}`,
+	...category
+}));
+
+// Knowledge base documents for suggested replies; chunked and embedded in memory by knowledgeService
+const DUMMY_KNOWLEDGE: KnowledgeDefinition[] = [
+	...DEFAULT_KNOWLEDGE,
+	{
+		title: 'Pricing 2024',
+		type: 'pricing',
+		content: 'Starter is $39 per seat per month (billed annually) and includes unlimited mailboxes and the unified inbox. ' +
+			'Growth is $79 per seat per month and adds AI categorization, suggested replies and the CRM integrations.\n\n' +
+			'Teams of 25 seats or more get volume pricing: 15% off list price, and 20% off from 50 seats. ' +
+			'Every plan starts with a 14-day free trial, no credit card required.',
+		source: 'pricing-2024.pdf'
+	},
+	{
+		title: 'Security FAQ',
+		type: 'faq',
+		content: 'Mailbox credentials are encrypted at rest with AES-256 and only decrypted to open a connection. ' +
+			'We are SOC 2 Type II certified; the report is available under NDA. Data is hosted in the EU or US, chosen per workspace.'
+	},
+	{
+		title: 'Reply that booked a demo',
+		type: 'reply',
+		content: 'Hi Sam, thanks for the quick reply! Happy to walk you through how teams like yours cut manual triage ' +
+			'by sorting replies automatically. Would a 30-minute call this Thursday or Friday work? You can grab a slot here: ' +
+			'https://cal.com/reachinbox/meeting'
+	}
+];
+
+export const dummyKnowledge: (KnowledgeDefinition & { _id: string })[] = DUMMY_KNOWLEDGE.map((doc, i) => ({
+	_id: `dummy-knowledge-${i + 1}`,
+	...doc
+}));
+
 
+// Saved and sent replies, kept in memory like everything else in dummy mode
+export const dummyDrafts: Array<{
+	_id: string;
+	email: string;
+	account?: string;
+	generated: string;
+	body: string;
+	author: string;
+	status: DraftStatus;
+	options?: { tone?: string; intent?: string; language?: string };
+	sentAt?: Date;
+	createdAt: Date;
+	updatedAt: Date;
+}> = [];
@@ -1,4 +1,38 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { encryptSecret, isEncrypted } from '../services/credentialService';
+
+export interface IFolderSyncState {
+  folder: string;
+  uidValidity: number;
+  lastUid: number;
+  lastSyncDate?: Date;
+}
+
+export interface IBackfillState {
+  status: 'running' | 'completed' | 'cancelled' | 'failed';
+  since: Date;
+  batchSize: number;
+  processed: number;
+  total: number;
+  // Messages that could not be stored; their UIDs are kept so a resumed job moves past them
+  failed: number;
+  skipped: Array<{ folder: string; uidValidity: number; uid: number }>;
+  startedAt: Date;
+  finishedAt?: Date;
+  error?: string;
+}
+
+// How suggested replies sent from this account present the product and the sender
+export interface IReplyProfile {
+  productName: string;
+  productDescription: string;
+  // Free text for the model, e.g. "warm and casual" or "formal"
+  tone: string;
+  signature: string;
+  meetingLink: string;
+  // Case-insensitive; replies containing any of them are rewritten once, then flagged
+  forbiddenPhrases: string[];
+}
 
 export interface IAccount extends Document {
   email: string;
@@ -6,19 +40,87 @@ export interface IAccount extends Document {
   host: string;
   port: number;
   tls: boolean;
+  smtpHost?: string;
+  smtpPort?: number;
+  smtpSecure?: boolean;
+  folders: string[];
   isConnected: boolean;
   lastSyncDate?: Date;
+  syncState: IFolderSyncState[];
+  backfillDays: number;
+  backfill?: IBackfillState;
+  // Empty fields fall back to DEFAULT_REPLY_PROFILE
+  replyProfile?: Partial<IReplyProfile>;
   createdAt: Date;
 }
 
 const AccountSchema = new Schema<IAccount>({
   email: { type: String, required: true, unique: true },
-  password: { type: String, required: true },
+  // Encrypted at rest and excluded from queries unless explicitly selected with '+password'
+  password: { type: String, required: true, select: false },
   host: { type: String, required: true },
   port: { type: Number, required: true },
   tls: { type: Boolean, default: true },
+  // Outgoing server for replies; defaults derive from the IMAP host (see smtpService)
+  smtpHost: String,
+  smtpPort: Number,
+  smtpSecure: Boolean,
+  // Mailbox paths or SPECIAL-USE aliases (Sent, Archive, Drafts, Trash, Junk) to sync
+  folders: { type: [String], default: () => ['INBOX'] },
   isConnected: { type: Boolean, default: false },
-  lastSyncDate: Date
-}, { timestamps: true });
+  lastSyncDate: Date,
+  // Per-folder IMAP checkpoint: only UIDs above lastUid are fetched while UIDVALIDITY is unchanged
+  syncState: [{
+    _id: false,
+    folder: { type: String, required: true },
+    uidValidity: { type: Number, required: true },
+    lastUid: { type: Number, default: 0 },
+    lastSyncDate: Date
+  }],
+  // Lookback window for the first sync of a folder (and after a UIDVALIDITY reset)
+  backfillDays: { type: Number, default: 30, min: 1 },
+  // Latest historical import job; a 'running' job is resumed on startup
+  backfill: {
+    status: { type: String, enum: ['running', 'completed', 'cancelled', 'failed'] },
+    since: Date,
+    batchSize: Number,
+    processed: Number,
+    total: Number,
+    failed: { type: Number, default: 0 },
+    skipped: [{ _id: false, folder: String, uidValidity: Number, uid: Number }],
+    startedAt: Date,
+    finishedAt: Date,
+    error: String
+  },
+  replyProfile: {
+    productName: String,
+    productDescription: String,
+    tone: String,
+    signature: String,
+    meetingLink: String,
+    forbiddenPhrases: { type: [String], default: undefined }
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    // Never expose credentials through the API
+    transform: (_doc, ret) => {
+      delete ret.password;
+      return ret;
+    }
+  }
+});
+
+// Secret fields encrypted with the server master key before they hit MongoDB
+const ENCRYPTED_FIELDS = ['password'] as const;
+
+AccountSchema.pre('save', function () {
+  for (const field of ENCRYPTED_FIELDS) {
+    const value = this.get(field);
+    if (this.isModified(field) && value && !isEncrypted(value)) {
+      this.set(field, encryptSecret(value));
+    }
+  }
+});
 
 export default mongoose.model<IAccount>('Account', AccountSchema);
\ No newline at end of file
@@ -0,0 +1,25 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICategory extends Document {
+  name: string;
+  // Shown to the LLM next to the name, so it should say when the category applies
+  description: string;
+  color: string;
+  icon: string;
+  // Gmail/IMAP label names that map straight to this category without calling the LLM
+  labels: string[];
+  order: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CategorySchema = new Schema<ICategory>({
+  name: { type: String, required: true, unique: true, trim: true },
+  description: { type: String, default: '' },
+  color: { type: String, default: '#8a90ad' },
+  icon: { type: String, default: '🏷️' },
+  labels: { type: [String], default: [] },
+  order: { type: Number, default: 0 }
+}, { timestamps: true });
+
+export default mongoose.model<ICategory>('Category', CategorySchema);
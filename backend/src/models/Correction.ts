@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A human decision about an email's category; recent ones are replayed to the LLM as few-shot examples
+export interface ICorrection extends Document {
+  email: mongoose.Types.ObjectId;
+  account: string;
+  from: string;
+  subject: string;
+  // Start of the body, enough to serve as an example without storing the whole message again
+  snippet: string;
+  previousCategory?: string;
+  previousSource?: string;
+  category: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CorrectionSchema = new Schema<ICorrection>({
+  email: { type: Schema.Types.ObjectId, ref: 'Email', required: true, index: true },
+  account: { type: String, required: true },
+  from: String,
+  subject: String,
+  snippet: String,
+  previousCategory: String,
+  previousSource: String,
+  category: { type: String, required: true }
+}, { timestamps: true });
+
+CorrectionSchema.index({ createdAt: -1 });
+
+export default mongoose.model<ICorrection>('Correction', CorrectionSchema);
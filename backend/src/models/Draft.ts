@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export type DraftStatus = 'draft' | 'sent' | 'discarded';
+export const DRAFT_STATUSES: DraftStatus[] = ['draft', 'sent', 'discarded'];
+
+// A reply to an email while it is being worked on, and once sent, as it went out
+export interface IDraft extends Document {
+  email: Types.ObjectId;
+  account?: string;
+  // Text as the model wrote it; empty for replies written from scratch
+  generated: string;
+  // Current text, including the rep's edits
+  body: string;
+  author: string;
+  status: DraftStatus;
+  // Reply options the text was generated with
+  options?: { tone?: string; intent?: string; language?: string };
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DraftSchema = new Schema<IDraft>({
+  email: { type: Schema.Types.ObjectId, ref: 'Email', required: true },
+  account: String,
+  generated: { type: String, default: '' },
+  body: { type: String, required: true },
+  author: { type: String, required: true },
+  status: { type: String, enum: DRAFT_STATUSES, default: 'draft' },
+  options: {
+    tone: String,
+    intent: String,
+    language: String
+  },
+  sentAt: Date
+}, { timestamps: true });
+
+DraftSchema.index({ email: 1, updatedAt: -1 });
+
+export default mongoose.model<IDraft>('Draft', DraftSchema);
@@ -1,19 +1,45 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// How an email got its category; 'manual' means a person chose or confirmed it
+export interface ICategorization {
+  source: 'label' | 'llm' | 'rule' | 'manual';
+  model?: string;
+  // 0-1; rules and labels report fixed values, the LLM reports its own estimate
+  confidence?: number;
+  rationale?: string;
+  // Name of the rule that fired, for source 'rule'
+  rule?: string;
+  categorizedAt: Date;
+}
+
 export interface IEmail extends Document {
   messageId: string;
   account: string;
   folder: string;
+  uid?: number;
+  uidValidity?: number;
   from: string;
   to: string[];
   subject: string;
   body: string;
   html: string;
   date: Date;
-  category?: 'Interested' | 'Meeting Booked' | 'Not Interested' | 'Spam' | 'Out of Office';
+  inReplyTo?: string;
+  references: string[];
+  threadId?: string;
+  normalizedSubject?: string;
+  // Raw header values keyed by lower-cased name (repeated headers joined with newlines)
+  headers?: Record<string, string>;
+  // Name of a Category document; see categoryService
+  category?: string;
+  categorization?: ICategorization;
   isRead: boolean;
   isFlagged: boolean;
   attachments: Array<{ filename: string; size: number }>;
+  // Embedding model of the vector stored for this email; see vectorStore
+  embeddedWith?: string;
+  // The vector itself when VECTOR_STORE=local
+  embedding?: { model: string; vector: number[] };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -22,27 +48,49 @@ const EmailSchema = new Schema<IEmail>({
   messageId: { type: String, required: true, unique: true },
   account: { type: String, required: true, index: true },
   folder: { type: String, required: true, index: true },
+  // IMAP UID within `folder`; only meaningful together with the folder's current UIDVALIDITY
+  uid: Number,
+  // The folder's UIDVALIDITY when `uid` was recorded
+  uidValidity: Number,
   from: { type: String, required: true },
   to: [String],
   subject: { type: String, required: true },
-  body: { type: String, required: true },
+  body: { type: String, default: '' },
   html: String,
   date: { type: Date, required: true },
-  category: {
-    type: String,
-    enum: ['Interested', 'Meeting Booked', 'Not Interested', 'Spam', 'Out of Office'],
-    index: true
+  // Threading headers; threadId is assigned by threadService
+  inReplyTo: { type: String, index: true },
+  references: { type: [String], index: true },
+  threadId: { type: String, index: true },
+  normalizedSubject: String,
+  headers: Schema.Types.Mixed,
+  category: { type: String, index: true },
+  categorization: {
+    source: { type: String, enum: ['label', 'llm', 'rule', 'manual'] },
+    model: String,
+    confidence: Number,
+    rationale: String,
+    rule: String,
+    categorizedAt: Date
   },
   isRead: { type: Boolean, default: false },
   isFlagged: { type: Boolean, default: false },
   attachments: [{
     filename: String,
     size: Number
-  }]
+  }],
+  embeddedWith: String,
+  embedding: {
+    type: { model: String, vector: [Number] },
+    select: false
+  }
 }, { timestamps: true });
 
 // Indexes for performance
 EmailSchema.index({ account: 1, folder: 1, date: -1 });
 EmailSchema.index({ category: 1, date: -1 });
+EmailSchema.index({ account: 1, folder: 1, uid: 1 });
+EmailSchema.index({ account: 1, normalizedSubject: 1, date: -1 });
+EmailSchema.index({ 'categorization.confidence': 1, date: -1 });
 
 export default mongoose.model<IEmail>('Email', EmailSchema);
\ No newline at end of file
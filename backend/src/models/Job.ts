@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type JobStage = 'ingest' | 'categorize' | 'index' | 'notify' | 'embed';
+// 'dead' is the dead-letter state: retries are exhausted and the job waits for a manual retry
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+export interface IJob extends Document {
+  stage: JobStage;
+  payload: any;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  // Earliest time the job may run; pushed back exponentially after each failure
+  runAt: Date;
+  lockedAt?: Date;
+  // Lease on a running job, renewed by the worker holding it; once it lapses the job is requeued
+  lockedUntil?: Date;
+  lastError?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobSchema = new Schema<IJob>({
+  stage: { type: String, enum: ['ingest', 'categorize', 'index', 'notify', 'embed'], required: true },
+  payload: { type: Schema.Types.Mixed, default: {} },
+  status: { type: String, enum: ['queued', 'running', 'completed', 'dead'], default: 'queued' },
+  attempts: { type: Number, default: 0 },
+  maxAttempts: { type: Number, default: 5 },
+  runAt: { type: Date, default: Date.now },
+  lockedAt: Date,
+  lockedUntil: Date,
+  lastError: String,
+  completedAt: Date
+}, { timestamps: true });
+
+// Claim query: next due job of a stage
+JobSchema.index({ stage: 1, status: 1, runAt: 1 });
+// Completed jobs are kept for three days for inspection, then removed by MongoDB
+JobSchema.index({ completedAt: 1 }, { expireAfterSeconds: 3 * 24 * 60 * 60 });
+
+export default mongoose.model<IJob>('Job', JobSchema);
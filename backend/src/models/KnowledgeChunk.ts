@@ -0,0 +1,22 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IKnowledgeChunk extends Document {
+  document: Types.ObjectId;
+  // Order within the document, from 0
+  position: number;
+  text: string;
+  // Missing or from another model until the chunk is (re-)embedded on the next retrieval
+  embedding?: { model: string; vector: number[] };
+}
+
+const KnowledgeChunkSchema = new Schema<IKnowledgeChunk>({
+  document: { type: Schema.Types.ObjectId, ref: 'KnowledgeDocument', required: true, index: true },
+  position: { type: Number, required: true },
+  text: { type: String, required: true },
+  embedding: {
+    type: { model: String, vector: [Number] },
+    select: false
+  }
+});
+
+export default mongoose.model<IKnowledgeChunk>('KnowledgeChunk', KnowledgeChunkSchema);
@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type KnowledgeType = 'product' | 'pricing' | 'faq' | 'reply' | 'other';
+
+export const KNOWLEDGE_TYPES: KnowledgeType[] = ['product', 'pricing', 'faq', 'reply', 'other'];
+
+// Reference material for suggested replies: product docs, pricing sheets, FAQ answers and past replies that
+// worked. The content is split into KnowledgeChunks, which are what retrieval searches and cites.
+export interface IKnowledgeDocument extends Document {
+  title: string;
+  type: KnowledgeType;
+  content: string;
+  // Where the text came from (file name or URL), shown with citations
+  source?: string;
+  chunkCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const KnowledgeDocumentSchema = new Schema<IKnowledgeDocument>({
+  title: { type: String, required: true, trim: true },
+  type: { type: String, enum: KNOWLEDGE_TYPES, default: 'other', index: true },
+  content: { type: String, required: true },
+  source: String,
+  chunkCount: { type: Number, default: 0 }
+}, { timestamps: true });
+
+export default mongoose.model<IKnowledgeDocument>('KnowledgeDocument', KnowledgeDocumentSchema);
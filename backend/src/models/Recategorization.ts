@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Which emails a recategorization run covers; every field is optional and they combine with AND
+export interface IRecategorizationScope {
+  account?: string;
+  folder?: string;
+  since?: Date;
+  until?: Date;
+  // Current category to re-examine; '' selects uncategorized emails
+  category?: string;
+}
+
+// "changed from X to Y" counts; `from` is null for emails that had no category
+export interface ICategoryTransition {
+  from: string | null;
+  to: string;
+  count: number;
+}
+
+export interface IRecategorization extends Document {
+  scope: IRecategorizationScope;
+  // Re-label emails that already have a category (manual choices are still left alone)
+  force: boolean;
+  status: 'running' | 'completed' | 'cancelled' | 'failed';
+  total: number;
+  processed: number;
+  changed: number;
+  unchanged: number;
+  failed: number;
+  transitions: ICategoryTransition[];
+  // Last email handled; emails are walked in _id order so a restarted run continues after it
+  lastEmailId?: mongoose.Types.ObjectId;
+  startedAt: Date;
+  finishedAt?: Date;
+  error?: string;
+}
+
+const RecategorizationSchema = new Schema<IRecategorization>({
+  scope: {
+    account: String,
+    folder: String,
+    since: Date,
+    until: Date,
+    category: String
+  },
+  force: { type: Boolean, default: false },
+  status: { type: String, enum: ['running', 'completed', 'cancelled', 'failed'], default: 'running', index: true },
+  total: { type: Number, default: 0 },
+  processed: { type: Number, default: 0 },
+  changed: { type: Number, default: 0 },
+  unchanged: { type: Number, default: 0 },
+  failed: { type: Number, default: 0 },
+  transitions: [{
+    _id: false,
+    from: String,
+    to: String,
+    count: Number
+  }],
+  lastEmailId: Schema.Types.ObjectId,
+  startedAt: { type: Date, default: Date.now },
+  finishedAt: Date,
+  error: String
+});
+
+export default mongoose.model<IRecategorization>('Recategorization', RecategorizationSchema);
@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Seconds a generated suggestion is served from the cache
+export const SUGGESTION_TTL_SECONDS = Number(process.env.SUGGESTION_CACHE_HOURS || 24) * 60 * 60;
+
+// The last suggested reply generated for an email, so reopening the reply panel does not call the LLM again
+export interface IReplySuggestion extends Document {
+  email: Types.ObjectId;
+  // Reply options and model the result was generated with; a request that differs generates anew
+  key: string;
+  // The SuggestedReply response as it was returned
+  result: any;
+  // How many times suggestions were generated for the email; varies the offline stub between regenerations
+  generation: number;
+  createdAt: Date;
+}
+
+const ReplySuggestionSchema = new Schema<IReplySuggestion>({
+  email: { type: Schema.Types.ObjectId, ref: 'Email', required: true, unique: true },
+  key: { type: String, required: true },
+  result: { type: Schema.Types.Mixed, required: true },
+  generation: { type: Number, default: 0 },
+  createdAt: { type: Date, default: Date.now }
+});
+
+ReplySuggestionSchema.index({ createdAt: 1 }, { expireAfterSeconds: SUGGESTION_TTL_SECONDS });
+
+export default mongoose.model<IReplySuggestion>('ReplySuggestion', ReplySuggestionSchema);
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type RuleField = 'subject' | 'body' | 'from' | 'to' | 'any';
+export type RuleMatchType = 'contains' | 'regex' | 'senderDomain' | 'header';
+// 'before' rules decide without asking the LLM; 'fallback' rules only run when the LLM gives no answer
+export type RuleStage = 'before' | 'fallback';
+
+export interface IRule extends Document {
+  name: string;
+  field: RuleField;
+  matchType: RuleMatchType;
+  // Header name for matchType 'header', matched case-insensitively
+  header?: string;
+  value: string;
+  category: string;
+  priority: number;
+  stage: RuleStage;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RuleSchema = new Schema<IRule>({
+  name: { type: String, required: true },
+  field: { type: String, enum: ['subject', 'body', 'from', 'to', 'any'], default: 'any' },
+  matchType: { type: String, enum: ['contains', 'regex', 'senderDomain', 'header'], required: true },
+  header: String,
+  value: { type: String, required: true },
+  category: { type: String, required: true },
+  // Higher priority rules are evaluated first; the first match wins
+  priority: { type: Number, default: 0 },
+  stage: { type: String, enum: ['before', 'fallback'], default: 'before' },
+  enabled: { type: Boolean, default: true }
+}, { timestamps: true });
+
+RuleSchema.index({ enabled: 1, stage: 1, priority: -1 });
+
+export default mongoose.model<IRule>('Rule', RuleSchema);
@@ -1,18 +1,30 @@
 import express from 'express';
-import { isDummyMode } from '../config/runtime';
-import { dummyAccounts } from '../mock/dummyData';
+import {
+	getAccounts,
+	getAccountById,
+	getAccountFolders,
+	createAccount,
+	updateAccount,
+	deleteAccount,
+	getAccountBackfill,
+	startAccountBackfill,
+	cancelAccountBackfill,
+	getAccountReplyProfile,
+	updateAccountReplyProfile
+} from '../controllers/accountController';
 
 const router = express.Router();
 
-router.get('/', (_req, res) => {
-	if (isDummyMode) {
-		return res.json(dummyAccounts);
-	}
-
-	// In normal mode, this would return real accounts from DB (not implemented yet)
-	return res.json([]);
-});
+router.get('/', getAccounts);
+router.post('/', createAccount);
+router.get('/:id/folders', getAccountFolders);
+router.get('/:id/backfill', getAccountBackfill);
+router.post('/:id/backfill', startAccountBackfill);
+router.delete('/:id/backfill', cancelAccountBackfill);
+router.get('/:id/reply-profile', getAccountReplyProfile);
+router.put('/:id/reply-profile', updateAccountReplyProfile);
+router.get('/:id', getAccountById);
+router.patch('/:id', updateAccount);
+router.delete('/:id', deleteAccount);
 
 export default router;
-
-
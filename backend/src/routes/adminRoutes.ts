@@ -0,0 +1,10 @@
+import express from 'express';
+import { getSearchIndexStatus, reindexSearchIndex, reconcileSearchIndex } from '../controllers/adminController';
+
+const router = express.Router();
+
+router.get('/search-index', getSearchIndexStatus);
+router.post('/search-index/reindex', reindexSearchIndex);
+router.post('/search-index/reconcile', reconcileSearchIndex);
+
+export default router;
@@ -0,0 +1,11 @@
+import express from 'express';
+import { getCategoryList, createCategory, updateCategory, deleteCategory } from '../controllers/categoryController';
+
+const router = express.Router();
+
+router.get('/', getCategoryList);
+router.post('/', createCategory);
+router.patch('/:id', updateCategory);
+router.delete('/:id', deleteCategory);
+
+export default router;
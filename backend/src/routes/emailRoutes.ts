@@ -2,18 +2,46 @@ import express from 'express';
 import {
   getEmails,
   searchEmailsController,
+  semanticSearchController,
+  getReviewQueue,
   getEmailById,
   getSuggestedReply,
-  recategorizeEmails
+  rewriteSuggestedReply,
+  streamSuggestedReply,
+  recategorizeEmails,
+  getRecategorizations,
+  getRecategorization,
+  cancelRecategorizationById,
+  updateEmail,
+  setEmailCategory,
+  deleteEmailById,
+  bulkUpdateEmails,
+  replyToEmail
 } from '../controllers/emailController';
+import { getEmailDrafts, createEmailDraft, updateEmailDraft } from '../controllers/draftController';
 
 const router = express.Router();
 
 router.get('/', getEmails);
 router.get('/search', searchEmailsController);
+router.get('/semantic-search', semanticSearchController);
+router.get('/review', getReviewQueue);
 router.post('/recategorize', recategorizeEmails);
+router.get('/recategorize', getRecategorizations);
+router.get('/recategorize/:id', getRecategorization);
+router.delete('/recategorize/:id', cancelRecategorizationById);
+router.post('/bulk', bulkUpdateEmails);
 // More specific routes must come before generic :id route
 router.get('/:id/suggested-reply', getSuggestedReply);
+router.get('/:id/suggested-reply/stream', streamSuggestedReply);
+router.post('/:id/suggested-reply/rewrite', rewriteSuggestedReply);
+router.post('/:id/reply', replyToEmail);
+router.get('/:id/drafts', getEmailDrafts);
+router.post('/:id/drafts', createEmailDraft);
+router.patch('/:id/drafts/:draftId', updateEmailDraft);
+router.put('/:id/category', setEmailCategory);
 router.get('/:id', getEmailById);
+router.patch('/:id', updateEmail);
+router.delete('/:id', deleteEmailById);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,11 @@
+import express from 'express';
+import { getJobs, getJobStatsController, retryJobById, retryDeadJobsController } from '../controllers/jobController';
+
+const router = express.Router();
+
+router.get('/', getJobs);
+router.get('/stats', getJobStatsController);
+router.post('/retry', retryDeadJobsController);
+router.post('/:id/retry', retryJobById);
+
+export default router;
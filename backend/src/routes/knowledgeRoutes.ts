@@ -0,0 +1,21 @@
+import express from 'express';
+import {
+  getKnowledgeDocuments,
+  getKnowledgeDocument,
+  createKnowledgeDocument,
+  updateKnowledgeDocument,
+  deleteKnowledgeDocument,
+  searchKnowledge
+} from '../controllers/knowledgeController';
+
+const router = express.Router();
+
+router.get('/', getKnowledgeDocuments);
+router.post('/', createKnowledgeDocument);
+// Before the generic :id route
+router.get('/search', searchKnowledge);
+router.get('/:id', getKnowledgeDocument);
+router.patch('/:id', updateKnowledgeDocument);
+router.delete('/:id', deleteKnowledgeDocument);
+
+export default router;
@@ -0,0 +1,12 @@
+import express from 'express';
+import { getRules, createRule, updateRule, deleteRule, testRules } from '../controllers/ruleController';
+
+const router = express.Router();
+
+router.get('/', getRules);
+router.post('/', createRule);
+router.post('/test', testRules);
+router.patch('/:id', updateRule);
+router.delete('/:id', deleteRule);
+
+export default router;
@@ -0,0 +1,9 @@
+import express from 'express';
+import { getThreads, getThreadById } from '../controllers/threadController';
+
+const router = express.Router();
+
+router.get('/', getThreads);
+router.get('/:id', getThreadById);
+
+export default router;
@@ -0,0 +1,33 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { initializeElasticsearch } from '../services/elasticsearchService';
+import { reindexEmails, reconcileIndex } from '../services/indexMaintenanceService';
+
+dotenv.config();
+
+// Rebuilds the Elasticsearch index from MongoDB and swaps the "emails" alias over once it is complete,
+// so search keeps working throughout. Usage: `npm run search:reindex` (add `-- --reconcile` to only
+// repair missing, stale and orphaned documents instead of rebuilding).
+async function reindex() {
+  if (!process.env.MONGODB_URI) {
+    throw new Error('MONGODB_URI is not set');
+  }
+
+  await mongoose.connect(process.env.MONGODB_URI);
+  console.log('✅ MongoDB connected');
+  await initializeElasticsearch();
+
+  if (process.argv.includes('--reconcile')) {
+    const result = await reconcileIndex();
+    if (result.error) throw new Error(result.error);
+  } else {
+    await reindexEmails();
+  }
+}
+
+reindex()
+  .catch(err => {
+    console.error('❌ Reindex failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
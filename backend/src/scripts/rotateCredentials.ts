@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import Account from '../models/Account';
+import { decryptSecret, encryptSecret, needsReEncryption } from '../services/credentialService';
+
+dotenv.config();
+
+// Re-encrypts every stored account secret with the current CREDENTIALS_MASTER_KEY.
+// Usage: move the old key into CREDENTIALS_PREVIOUS_KEYS, set the new CREDENTIALS_MASTER_KEY,
+// then run `npm run credentials:rotate`. Plain-text records from older versions are encrypted too.
+async function rotateCredentials() {
+  if (!process.env.MONGODB_URI) {
+    throw new Error('MONGODB_URI is not set');
+  }
+
+  await mongoose.connect(process.env.MONGODB_URI);
+  console.log('✅ MongoDB connected');
+
+  const accounts = await Account.find().select('+password');
+  let rotated = 0;
+
+  for (const account of accounts) {
+    if (!needsReEncryption(account.password)) continue;
+
+    const password = encryptSecret(decryptSecret(account.password));
+    // Bypass the save hook: the value is already encrypted
+    await Account.updateOne({ _id: account._id }, { $set: { password } });
+    rotated++;
+    console.log(`🔐 Re-encrypted credentials for ${account.email}`);
+  }
+
+  console.log(`✅ Rotation complete: ${rotated} of ${accounts.length} account(s) re-encrypted`);
+}
+
+rotateCredentials()
+  .catch(err => {
+    console.error('❌ Credential rotation failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
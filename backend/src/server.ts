@@ -5,12 +5,27 @@ import dotenv from 'dotenv';
 import { Server } from 'socket.io';
 import http from 'http';
 import emailRoutes from './routes/emailRoutes';
-// Ensure account routes exist; in dummy mode we provide simple routes
 import accountRoutes from './routes/accountRoutes';
+import threadRoutes from './routes/threadRoutes';
+import ruleRoutes from './routes/ruleRoutes';
+import categoryRoutes from './routes/categoryRoutes';
+import jobRoutes from './routes/jobRoutes';
+import adminRoutes from './routes/adminRoutes';
+import knowledgeRoutes from './routes/knowledgeRoutes';
 import { initializeElasticsearch } from './services/elasticsearchService';
+import { upgradeEmailIndex, scheduleIndexReconciliation } from './services/indexMaintenanceService';
 import { startImapSync } from './services/imapService';
+import { resumeBackfills } from './services/backfillService';
+import { resumeRecategorizations } from './services/recategorizationService';
+import { assignMissingThreads } from './services/threadService';
+import { seedDefaultRules } from './services/ruleService';
+import { seedDefaultCategories } from './services/categoryService';
+import { seedDefaultKnowledge } from './services/knowledgeService';
+import { startJobWorkers } from './services/jobQueue';
+import { registerEmailPipeline } from './services/emailPipeline';
 import { errorHandler } from './middleware/errorHandler';
 import { isDummyMode, logStartupMode } from './config/runtime';
+import { assertCredentialKey } from './services/credentialService';
 
 dotenv.config();
 
@@ -22,11 +37,18 @@ const io = new Server(server, {
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Knowledge base documents are uploaded as JSON and can be long
+app.use(express.json({ limit: '2mb' }));
 
 // Routes
 app.use('/api/emails', emailRoutes);
 app.use('/api/accounts', accountRoutes);
+app.use('/api/threads', threadRoutes);
+app.use('/api/rules', ruleRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/knowledge', knowledgeRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -51,6 +73,9 @@ if (isDummyMode) {
 		console.log('🧪 Dummy mode: skipping MongoDB, Elasticsearch, and IMAP');
 	});
 } else {
+	// Account credentials cannot be stored or read without the master key
+	assertCredentialKey();
+
 	// Database connection
 	mongoose.connect(process.env.MONGODB_URI!)
 		.then(async () => {
@@ -60,10 +85,30 @@ if (isDummyMode) {
 			await initializeElasticsearch();
 			console.log('✅ Elasticsearch initialized');
 
+			// Install the built-in categories, categorization rules and knowledge base on a fresh database
+			await seedDefaultCategories();
+			await seedDefaultRules();
+			await seedDefaultKnowledge();
+
+			// Workers must run before IMAP sync starts queueing new mail
+			registerEmailPipeline();
+			await startJobWorkers();
+
 			// Start IMAP sync for all accounts
 			await startImapSync();
 			console.log('✅ IMAP sync started');
 
+			// Continue historical imports and recategorization runs interrupted by a restart
+			await resumeBackfills();
+			await resumeRecategorizations();
+
+			// Rebuild an outdated search index, then keep it in step with MongoDB
+			await upgradeEmailIndex();
+			scheduleIndexReconciliation();
+
+			// Thread emails stored before threading existed (runs in the background)
+			assignMissingThreads().catch(err => console.error('❌ Thread assignment failed:', err));
+
 			// Start server
 			server.listen(PORT, () => {
 				console.log(`🚀 Server running on port ${PORT}`);
@@ -1,187 +1,183 @@
-import OpenAI from 'openai';
-import { IEmail } from '../models/Email';
+import { IEmail, ICategorization } from '../models/Email';
+import { getLLMProvider, ChatMessage, isTransientLLMError } from './llmProvider';
+import { evaluateRules, RuleMatch } from './ruleService';
+import { getCategories } from './categoryService';
+import Correction from '../models/Correction';
 import { isDummyMode } from '../config/runtime';
 
-let openaiClient: OpenAI | null = null;
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+export interface CategorizationResult {
+  category?: string;
+  categorization?: ICategorization;
+}
+
+export interface CategorizeOptions {
+  // Throw transient LLM errors instead of falling back to rules, so a queued job can retry later
+  retryTransient?: boolean;
+}
+
+// Set CATEGORIZATION_MODE=rules to categorize with rules alone and never call the LLM
+const RULES_ONLY = (process.env.CATEGORIZATION_MODE || '').toLowerCase() === 'rules';
+
+// User-written 'before' rules are treated as certain; the fallback heuristics are a guess worth reviewing
+const RULE_CONFIDENCE = { before: 1, fallback: 0.5 };
+
+function fromRule(match: RuleMatch): CategorizationResult {
+  console.log(`📐 Rule "${match.rule.name}" matched: ${match.category}`);
+  return {
+    category: match.category,
+    categorization: {
+      source: 'rule',
+      confidence: RULE_CONFIDENCE[match.rule.stage],
+      rationale: `Matched ${match.rule.stage === 'before' ? '' : 'fallback '}rule "${match.rule.name}"`,
+      rule: match.rule.name,
+      categorizedAt: new Date()
+    }
+  };
+}
+
+// Rules of the 'before' stage decide outright; otherwise ask the LLM and use 'fallback' rules when it has no answer
+export async function categorizeEmail(email: IEmail, options: CategorizeOptions = {}): Promise<CategorizationResult> {
+  const before = await evaluateRules(email, 'before');
+  if (before) return fromRule(before);
+
+  if (!RULES_ONLY) {
+    const result = await categorizeWithLLM(email, options);
+    if (result) return result;
+  }
+
+  const fallback = await evaluateRules(email, 'fallback');
+  if (fallback) return fromRule(fallback);
+
+  console.warn(`⚠️ No rule or model categorized: "${(email.subject || '').substring(0, 50)}"`);
+  return {};
+}
+
+// How many recent manual corrections are shown to the model as examples of the team's conventions
+const FEW_SHOT_EXAMPLES = Number(process.env.CATEGORIZATION_EXAMPLES ?? 6);
+
+function describeEmail(subject: string, from: string, body: string): string {
+  return `Subject: ${subject}\nFrom: ${from}\nBody: ${body.substring(0, 500)}`;
+}
+
+// Latest correction per email, newest first, limited to categories that still exist
+async function loadExamples(names: string[]): Promise<ChatMessage[]> {
+  if (isDummyMode || FEW_SHOT_EXAMPLES <= 0) return [];
+
+  const corrections = await Correction.find({ category: { $in: names } })
+    .sort({ createdAt: -1 })
+    .limit(FEW_SHOT_EXAMPLES * 3)
+    .lean();
+
+  const seen = new Set<string>();
+  const examples = corrections.filter(c => {
+    const key = c.email.toString();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, FEW_SHOT_EXAMPLES);
+
+  // Oldest first so the most recent convention sits closest to the real question
+  return examples.reverse().flatMap(c => [
+    { role: 'user' as const, content: `Categorize this email:\n${describeEmail(c.subject || '', c.from || '', c.snippet || '')}` },
+    {
+      role: 'assistant' as const,
+      content: JSON.stringify({ category: c.category, confidence: 1, rationale: 'Set by a team member' })
+    }
+  ]);
+}
+
+// Pull {category, confidence, rationale} out of the reply; models that ignore the format still
+// count when the reply is just a category name
+function parseAnswer(raw: string, names: string[]): { category?: string; confidence?: number; rationale?: string } {
+  const json = raw.match(/\{[\s\S]*\}/)?.[0];
+  let answer: any = {};
+  if (json) {
+    try {
+      answer = JSON.parse(json);
+    } catch {
+      // Not JSON after all; fall through to the plain-text match
+    }
   }
-  return openaiClient;
+
+  const label = String(answer.category || (json ? '' : raw.split('\n')[0]))
+    .replace(/["'.*]/g, '')
+    .trim()
+    .toLowerCase();
+  const confidence = Number(answer.confidence);
+
+  return {
+    category: names.find(name => name.toLowerCase() === label),
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : undefined,
+    rationale: typeof answer.rationale === 'string' ? answer.rationale.trim().substring(0, 300) : undefined
+  };
 }
 
-export async function categorizeEmail(email: IEmail): Promise<IEmail['category']> {
+async function categorizeWithLLM(email: IEmail, options: CategorizeOptions): Promise<CategorizationResult | undefined> {
   // Ensure we have content to analyze
   const emailBody = email.body || email.html || '';
   const emailSubject = email.subject || '';
   const emailFrom = email.from || '';
 
+  const categories = await getCategories();
+  const names = categories.map(c => c.name);
+
+  // The prompt is built from the configured categories so custom ones are offered to the model
   const prompt = `Analyze this email and categorize it into ONE of these categories:
-1. Interested - Customer wants to buy, learn more, or shows positive interest
-2. Meeting Booked - Someone scheduled or confirmed a meeting/call
-3. Not Interested - Customer declined or shows no interest
-4. Spam - Junk, promotional, or irrelevant emails
-5. Out of Office - Automatic away/vacation replies
+${categories.map((c, i) => `${i + 1}. ${c.name}${c.description ? ` - ${c.description}` : ''}`).join('\n')}
 
 Email:
-Subject: ${emailSubject}
-From: ${emailFrom}
-Body: ${emailBody.substring(0, 500)}
+${describeEmail(emailSubject, emailFrom, emailBody)}
 
-Reply with ONLY the category name. If unsure, choose the closest match.`;
+Respond with JSON only: {"category": "<category name>", "confidence": <0 to 1>, "rationale": "<one short sentence>"}.
+If unsure, choose the closest match and give a low confidence.`;
 
-  try {
-    // Only use dummy mode heuristics if actually in dummy mode
-    if (isDummyMode) {
-      console.log('📝 Using dummy mode heuristics for categorization');
-      // Enhanced heuristic for demo mode
-      const text = `${emailSubject} ${emailBody}`.toLowerCase();
-      
-      // Check for Out of Office first (most specific)
-      if (text.includes('out of office') || text.includes('ooo') || text.includes('auto-reply') || text.includes('automatic reply')) {
-        return 'Out of Office';
-      }
-      
-      // Check for Meeting Booked
-      if (text.includes('meeting') || text.includes('schedule') || text.includes('calendar') || text.includes('appointment')) {
-        return 'Meeting Booked';
-      }
-      
-      // Check for Interested
-      if (text.includes('interested') || text.includes('learn more') || text.includes('pricing') || text.includes('quote') || text.includes('demo')) {
-        return 'Interested';
-      }
-      
-      // Check for Not Interested
-      if (text.includes('not interested') || text.includes('decline') || text.includes('unsubscribe')) {
-        return 'Not Interested';
-      }
-      
-      // Check for Spam indicators (more comprehensive)
-      if (text.includes('unsubscribe') || text.includes('promotion') || text.includes('promo') || 
-          text.includes('discount') || text.includes('limited time') || text.includes('free cash') ||
-          text.includes('free') && (text.includes('money') || text.includes('cash') || text.includes('prize')) ||
-          text.includes('click here') || text.includes('act now') || text.includes('limited offer')) {
-        return 'Spam';
-      }
-      
-      // Default to Spam if it looks promotional but doesn't match other categories
-      if (text.includes('free') || text.includes('offer') || text.includes('deal') || text.includes('sale')) {
-        return 'Spam';
-      }
-      
-      console.warn(`⚠️ Dummy mode: No category matched for email. Subject: "${emailSubject.substring(0, 50)}"`);
-      return undefined;
-    }
+  const llm = getLLMProvider();
 
-    // Use OpenAI API (only if not in dummy mode)
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('❌ OPENAI_API_KEY is not set - cannot use AI categorization');
-      // Fallback to heuristics if no API key
-      console.log('📝 Falling back to heuristics');
-      const text = `${emailSubject} ${emailBody}`.toLowerCase();
-      if (text.includes('out of office') || text.includes('ooo')) return 'Out of Office';
-      if (text.includes('meeting') || text.includes('schedule')) return 'Meeting Booked';
-      if (text.includes('interested') || text.includes('learn more')) return 'Interested';
-      if (text.includes('spam') || text.includes('unsubscribe') || text.includes('promo')) return 'Spam';
-      return undefined;
-    }
+  try {
+    const examples = await loadExamples(names);
+    console.log(`🔗 Calling ${llm.name} for categorization with model: ${llm.model}...`);
 
-    // Use configurable model, default to gpt-3.5-turbo (more accessible)
-    const model = process.env.OPENAI_MODEL || 'gpt-3.5-turbo';
-    
-    // Validate model name - check for common invalid models
-    const validModels = ['gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo-preview', 'gpt-4-turbo', 'gpt-4o', 'gpt-4o-mini'];
-    if (!validModels.includes(model.toLowerCase())) {
-      console.error(`❌ Invalid model "${model}". Valid models are: ${validModels.join(', ')}. Falling back to heuristics.`);
-      // Fall back to heuristics instead of throwing
-      const text = `${emailSubject} ${emailBody}`.toLowerCase();
-      if (text.includes('out of office') || text.includes('ooo')) return 'Out of Office';
-      if (text.includes('meeting') || text.includes('schedule')) return 'Meeting Booked';
-      if (text.includes('interested') || text.includes('learn more')) return 'Interested';
-      if (text.includes('spam') || text.includes('unsubscribe') || text.includes('promo')) return 'Spam';
-      return undefined;
-    }
-    
-    console.log(`🔗 Calling OpenAI API for categorization with model: ${model}...`);
-    
-    const response = await getOpenAI().chat.completions.create({
-      model: model,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an email classification expert. Respond with ONLY the category name from the list: Interested, Meeting Booked, Not Interested, Spam, Out of Office.'
-        },
-        { role: 'user', content: prompt }
-      ],
+    const raw = await llm.complete([
+      {
+        role: 'system',
+        content: `You are an email classification expert. The category must be one of: ${names.join(', ')}.` +
+          (examples.length ? ' Earlier examples were categorized by the team; follow their conventions.' : '')
+      },
+      ...examples,
+      { role: 'user', content: prompt }
+    ], {
       temperature: 0.3,
-      max_tokens: 20
+      maxTokens: 120,
+      // The stub has no opinion of its own; the fallback rules decide
+      offline: () => ''
     });
 
-    const category = response.choices[0]?.message?.content?.trim();
-
-    if (!category) {
-      console.warn('⚠️ OpenAI returned empty category');
+    if (!raw) {
+      console.warn(`⚠️ ${llm.name} returned no category. Subject: "${emailSubject.substring(0, 50)}"`);
       return undefined;
     }
 
-    const validCategories: IEmail['category'][] = [
-      'Interested',
-      'Meeting Booked',
-      'Not Interested',
-      'Spam',
-      'Out of Office'
-    ];
-
-    // Try to match category (case-insensitive)
-    const matchedCategory = validCategories.find(
-      cat => cat.toLowerCase() === category.toLowerCase()
-    );
-
-    if (matchedCategory) {
-      return matchedCategory;
-    }
+    const answer = parseAnswer(raw, names);
 
-    // Log if category doesn't match
-    console.warn(`⚠️ OpenAI returned invalid category: "${category}". Valid categories are: ${validCategories.join(', ')}`);
-    return undefined;
-  } catch (error: any) {
-    console.error('❌ AI categorization error:', error);
-    
-    // Handle specific OpenAI API errors - for categorization, we fall back to heuristics
-    if (error?.status === 429 || error?.code === 'insufficient_quota' || error?.error?.type === 'insufficient_quota') {
-      console.error('⚠️ OpenAI API quota exceeded - falling back to heuristics');
-      const text = `${emailSubject} ${emailBody}`.toLowerCase();
-      if (text.includes('out of office') || text.includes('ooo')) return 'Out of Office';
-      if (text.includes('meeting') || text.includes('schedule')) return 'Meeting Booked';
-      if (text.includes('interested') || text.includes('learn more')) return 'Interested';
-      if (text.includes('spam') || text.includes('unsubscribe') || text.includes('promo')) return 'Spam';
+    if (!answer.category) {
+      console.warn(`⚠️ ${llm.name} returned invalid category: "${raw}". Valid categories are: ${names.join(', ')}`);
       return undefined;
     }
-    
-    if (error instanceof Error) {
-      console.error('Error details:', error.message);
-      console.error('Error stack:', error.stack);
-      
-      // Check if it's a model access error
-      if (error.message.includes('does not exist') || error.message.includes('access') || error?.status === 404) {
-        console.error('⚠️ Model access error - falling back to heuristics');
-        const text = `${emailSubject} ${emailBody}`.toLowerCase();
-        if (text.includes('out of office') || text.includes('ooo')) return 'Out of Office';
-        if (text.includes('meeting') || text.includes('schedule')) return 'Meeting Booked';
-        if (text.includes('interested') || text.includes('learn more')) return 'Interested';
-        if (text.includes('spam') || text.includes('unsubscribe') || text.includes('promo')) return 'Spam';
-        return undefined;
+
+    return {
+      category: answer.category,
+      categorization: {
+        source: 'llm',
+        model: `${llm.name}/${llm.model}`,
+        confidence: answer.confidence,
+        rationale: answer.rationale,
+        categorizedAt: new Date()
       }
-    }
-    
-    // For other errors, fall back to heuristics
-    console.warn('⚠️ Falling back to heuristics due to error');
-    const text = `${emailSubject} ${emailBody}`.toLowerCase();
-    if (text.includes('out of office') || text.includes('ooo')) return 'Out of Office';
-    if (text.includes('meeting') || text.includes('schedule')) return 'Meeting Booked';
-    if (text.includes('interested') || text.includes('learn more')) return 'Interested';
-    if (text.includes('spam') || text.includes('unsubscribe') || text.includes('promo')) return 'Spam';
+    };
+  } catch (error) {
+    console.error(`❌ AI categorization error (${llm.name}):`, error instanceof Error ? error.message : error);
+    if (options.retryTransient && isTransientLLMError(error)) throw error;
+    console.warn('⚠️ Falling back to rules due to error');
     return undefined;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,158 @@
+import Email from '../models/Email';
+import Account, { IAccount, IBackfillState } from '../models/Account';
+import {
+  withTemporaryConnection,
+  listMailboxes,
+  resolveMailbox,
+  getSyncFolders,
+  openMailbox,
+  searchMailbox,
+  fetchMessages
+} from './imapService';
+import { io } from '../server';
+
+// Running imports keyed by Account id; the flag is checked between batches
+const activeBackfills: Map<string, { cancelled: boolean }> = new Map();
+
+export function isBackfillRunning(accountId: string): boolean {
+  return activeBackfills.has(accountId);
+}
+
+// Start a historical import on its own IMAP connection so the account's IDLE sessions keep running.
+// The account must be loaded with '+password'. Returns null when an import is already running for it.
+export async function startBackfill(account: IAccount, since: Date, batchSize: number): Promise<IBackfillState | null> {
+  // Claim the account before the first await so concurrent requests cannot both start one
+  if (isBackfillRunning(account.id)) return null;
+  const job = { cancelled: false };
+  activeBackfills.set(account.id, job);
+
+  const state: IBackfillState = {
+    status: 'running',
+    since,
+    batchSize,
+    processed: 0,
+    total: 0,
+    failed: 0,
+    skipped: [],
+    startedAt: new Date()
+  };
+
+  try {
+    await Account.updateOne({ _id: account._id }, { $set: { backfill: state } });
+  } catch (error) {
+    activeBackfills.delete(account.id);
+    throw error;
+  }
+  runBackfill(account, state, job);
+
+  return state;
+}
+
+export async function cancelBackfill(accountId: string): Promise<boolean> {
+  const job = activeBackfills.get(accountId);
+  if (job) {
+    job.cancelled = true;
+    return true;
+  }
+
+  // A job left 'running' by a crash that has not been resumed yet
+  const result = await Account.updateOne(
+    { _id: accountId, 'backfill.status': 'running' },
+    { $set: { 'backfill.status': 'cancelled', 'backfill.finishedAt': new Date() } }
+  );
+  return result.modifiedCount > 0;
+}
+
+// Pick up imports that were still running when the server stopped
+export async function resumeBackfills() {
+  const accounts = await Account.find({ 'backfill.status': 'running' }).select('+password');
+
+  for (const account of accounts) {
+    if (!account.backfill || isBackfillRunning(account.id)) continue;
+    console.log(`⏯️ Resuming backfill for ${account.email}`);
+    const job = { cancelled: false };
+    activeBackfills.set(account.id, job);
+    runBackfill(account, { failed: 0, skipped: [], ...account.toObject().backfill } as IBackfillState, job);
+  }
+}
+
+async function runBackfill(account: IAccount, state: IBackfillState, job: { cancelled: boolean }) {
+  const report = (extra: Partial<IBackfillState> = {}) => {
+    Object.assign(state, extra);
+    io.emit('backfill-progress', { accountId: account.id, account: account.email, ...state });
+    return Account.updateOne({ _id: account._id }, { $set: { backfill: state } })
+      .catch(err => console.error('Failed to save backfill progress:', err));
+  };
+
+  try {
+    await withTemporaryConnection(account, async (imap) => {
+      const mailboxes = await listMailboxes(imap);
+      const plan: Array<{ path: string; uids: number[] }> = [];
+
+      // Plan first so the total is known up front. Already-stored and previously failed UIDs are left out,
+      // which is what makes a resumed job continue where it stopped. Stored UIDs only count while the
+      // folder's UIDVALIDITY is unchanged; after a renumbering they point at different messages.
+      for (const folder of getSyncFolders(account)) {
+        const mailbox = resolveMailbox(mailboxes, folder);
+        if (!mailbox) continue;
+
+        const box = await openMailbox(imap, mailbox.path, true);
+        const uids = await searchMailbox(imap, [['SINCE', state.since]]);
+        const stored = new Set<number>(await Email.distinct('uid', {
+          account: account.email,
+          folder: mailbox.path,
+          uidValidity: box.uidvalidity,
+          uid: { $in: uids }
+        }));
+        for (const s of state.skipped) {
+          if (s.folder === mailbox.path && s.uidValidity === box.uidvalidity) stored.add(s.uid);
+        }
+
+        // Newest first so recent history becomes searchable soonest
+        const missing = uids.filter(uid => !stored.has(uid)).sort((a, b) => b - a);
+        if (missing.length) plan.push({ path: mailbox.path, uids: missing });
+      }
+
+      const remaining = plan.reduce((sum, p) => sum + p.uids.length, 0);
+      await report({ total: state.processed + remaining });
+      console.log(`📚 Backfill for ${account.email}: ${state.total} message(s) since ${state.since.toISOString()}`);
+
+      for (const { path, uids } of plan) {
+        const box = await openMailbox(imap, path, true);
+
+        for (let i = 0; i < uids.length; i += state.batchSize) {
+          if (job.cancelled) return;
+
+          const batch = uids.slice(i, i + state.batchSize);
+          let failed: number[];
+          try {
+            ({ failed } = await fetchMessages(imap, batch, account.email, path, box.uidvalidity));
+          } catch (error) {
+            // A lost connection fails the job so it can be resumed; anything else only costs this batch
+            if (imap.state !== 'authenticated') throw error;
+            console.error(`❌ Backfill batch failed for ${account.email} in ${path}:`, error);
+            failed = batch;
+          }
+
+          await report({
+            processed: state.processed + batch.length,
+            failed: state.failed + failed.length,
+            skipped: [...state.skipped, ...failed.map(uid => ({ folder: path, uidValidity: box.uidvalidity, uid }))]
+          });
+        }
+      }
+    });
+
+    await report({ status: job.cancelled ? 'cancelled' : 'completed', finishedAt: new Date() });
+    console.log(`✅ Backfill ${state.status} for ${account.email} (${state.processed}/${state.total})`);
+  } catch (error) {
+    console.error(`❌ Backfill failed for ${account.email}:`, error);
+    await report({
+      status: 'failed',
+      finishedAt: new Date(),
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  } finally {
+    activeBackfills.delete(account.id);
+  }
+}
@@ -0,0 +1,58 @@
+import Category from '../models/Category';
+import { isDummyMode } from '../config/runtime';
+import { DEFAULT_CATEGORIES, CategoryDefinition } from '../config/defaultCategories';
+import { dummyCategories } from '../mock/dummyData';
+
+export type StoredCategory = CategoryDefinition & { _id?: any };
+
+// Categories in display order; cleared whenever one is created, edited or deleted
+let cachedCategories: StoredCategory[] | null = null;
+
+export function invalidateCategoryCache() {
+  cachedCategories = null;
+}
+
+export async function getCategories(): Promise<StoredCategory[]> {
+  if (isDummyMode) {
+    return [...dummyCategories].sort((a, b) => a.order - b.order);
+  }
+
+  if (!cachedCategories) {
+    cachedCategories = await Category.find().sort({ order: 1, createdAt: 1 }).lean() as StoredCategory[];
+  }
+  return cachedCategories;
+}
+
+// Resolve free text (model output, request bodies) to a configured category name, ignoring case
+export async function findCategoryName(name: string | undefined): Promise<string | undefined> {
+  if (!name) return undefined;
+  const wanted = name.trim().toLowerCase();
+  const categories = await getCategories();
+  return categories.find(c => c.name.toLowerCase() === wanted)?.name;
+}
+
+// "\\Spam", "[Gmail]/Spam" and "Sales/Interested" compare as "spam", "spam" and "interested"
+function labelName(label: string): string {
+  return (label || '').toString().replace(/^\\/, '').split('/').pop()!.trim().toLowerCase();
+}
+
+// Map Gmail labels (X-GM-LABELS) to a category whose `labels` names one of them. Spam wins over every other
+// category, so a message labelled both Spam and Interested is not treated as a lead.
+export async function mapLabelsToCategory(labels: string[] | undefined): Promise<string | undefined> {
+  if (!labels || !labels.length) return undefined;
+
+  const names = new Set(labels.map(labelName));
+  const categories = await getCategories();
+  const isSpam = (c: StoredCategory) => c.name.toLowerCase() === 'spam';
+  const ordered = [...categories.filter(isSpam), ...categories.filter(c => !isSpam(c))];
+
+  // Gmail categories like Promotions, Social, Updates are left to the rules and the LLM
+  return ordered.find(c => c.labels.some(label => names.has(labelName(label))))?.name;
+}
+
+export async function seedDefaultCategories() {
+  if (await Category.estimatedDocumentCount() > 0) return;
+  await Category.insertMany(DEFAULT_CATEGORIES);
+  invalidateCategoryCache();
+  console.log(`🏷️ Seeded ${DEFAULT_CATEGORIES.length} default categories`);
+}
@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+
+// Stored format: enc:v1:<keyId>:<iv>:<authTag>:<ciphertext> (all base64 except keyId)
+const PREFIX = 'enc:v1';
+const ALGORITHM = 'aes-256-gcm';
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function deriveKey(secret: string): MasterKey {
+  const key = crypto.createHash('sha256').update(secret).digest();
+  const id = crypto.createHash('sha256').update(key).digest('hex').substring(0, 8);
+  return { id, key };
+}
+
+function getCurrentKey(): MasterKey {
+  const secret = process.env.CREDENTIALS_MASTER_KEY;
+  if (!secret) {
+    throw new Error('CREDENTIALS_MASTER_KEY is not set - cannot encrypt or decrypt account credentials');
+  }
+  return deriveKey(secret);
+}
+
+// Current key first, then any retired keys still needed to read old records
+function getKnownKeys(): MasterKey[] {
+  const previous = (process.env.CREDENTIALS_PREVIOUS_KEYS || '')
+    .split(',')
+    .map(k => k.trim())
+    .filter(Boolean)
+    .map(deriveKey);
+  return [getCurrentKey(), ...previous];
+}
+
+export function assertCredentialKey() {
+  getCurrentKey();
+}
+
+export function isEncrypted(value: string | undefined): boolean {
+  return !!value && value.startsWith(`${PREFIX}:`);
+}
+
+export function encryptSecret(plain: string): string {
+  const { id, key } = getCurrentKey();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [PREFIX, id, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptSecret(stored: string): string {
+  // Records written before encryption was introduced are plain text
+  if (!isEncrypted(stored)) return stored;
+
+  const [, , keyId, iv, tag, ciphertext] = stored.split(':');
+  const masterKey = getKnownKeys().find(k => k.id === keyId);
+  if (!masterKey) {
+    throw new Error(`No master key available for credential key id "${keyId}" - check CREDENTIALS_PREVIOUS_KEYS`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, masterKey.key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+}
+
+// True when a value is plain text or was encrypted with a retired key
+export function needsReEncryption(stored: string | undefined): boolean {
+  if (!stored) return false;
+  if (!isEncrypted(stored)) return true;
+  return stored.split(':')[2] !== getCurrentKey().id;
+}
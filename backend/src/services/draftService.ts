@@ -0,0 +1,143 @@
+import Draft, { DraftStatus, DRAFT_STATUSES } from '../models/Draft';
+import ReplySuggestion, { SUGGESTION_TTL_SECONDS } from '../models/ReplySuggestion';
+import { isDummyMode } from '../config/runtime';
+import { dummyDrafts } from '../mock/dummyData';
+import { getLLMProvider } from './llmProvider';
+import { ReplyOptions, SuggestedReply } from './ragService';
+
+const OPTION_FIELDS = ['tone', 'intent', 'language'] as const;
+
+export interface DraftInput {
+  body?: string;
+  generated?: string;
+  author?: string;
+  status?: DraftStatus;
+  options?: { tone?: string; intent?: string; language?: string };
+}
+
+// Pick the draft fields out of a request body; returns an error message for invalid values
+export function parseDraft(input: any): DraftInput | string {
+  const draft: DraftInput = {};
+
+  if (input?.body !== undefined) {
+    if (typeof input.body !== 'string' || !input.body.trim()) return 'body must be a non-empty string';
+    draft.body = input.body;
+  }
+  if (input?.generated !== undefined) {
+    if (typeof input.generated !== 'string') return 'generated must be a string';
+    draft.generated = input.generated;
+  }
+  if (input?.author !== undefined) {
+    if (typeof input.author !== 'string' || !input.author.trim()) return 'author must be a non-empty string';
+    draft.author = input.author.trim();
+  }
+  if (input?.status !== undefined) {
+    if (!DRAFT_STATUSES.includes(input.status)) return `status must be one of: ${DRAFT_STATUSES.join(', ')}`;
+    draft.status = input.status;
+  }
+  if (input?.options) {
+    draft.options = {};
+    for (const field of OPTION_FIELDS) {
+      if (typeof input.options[field] === 'string' && input.options[field]) draft.options[field] = input.options[field];
+    }
+  }
+
+  return draft;
+}
+
+// The same options on the same model give an equivalent suggestion
+export function suggestionKey(options: ReplyOptions): string {
+  const { tone = '', intent = '', language = '', variants } = options;
+  return JSON.stringify([getLLMProvider().model, tone, intent, language.toLowerCase(), variants]);
+}
+
+const dummySuggestions = new Map<string, { key: string; result: SuggestedReply; generation: number; createdAt: Date }>();
+
+// The last suggestion generated for this email with these options, marked with when it was made
+export async function getCachedSuggestion(
+  emailId: string,
+  options: ReplyOptions
+): Promise<(SuggestedReply & { cachedAt: Date }) | null> {
+  const cached = isDummyMode
+    ? dummySuggestions.get(emailId)
+    : await ReplySuggestion.findOne({ email: emailId }).lean();
+
+  // Mongo's TTL monitor only runs once a minute, so check the age here too
+  if (!cached || cached.key !== suggestionKey(options)) return null;
+  if (Date.now() - new Date(cached.createdAt).getTime() > SUGGESTION_TTL_SECONDS * 1000) return null;
+
+  return { ...cached.result, cachedAt: cached.createdAt };
+}
+
+// How many suggestions were generated for this email so far (while its cache entry lives); 0 if unknown
+export async function suggestionGeneration(emailId: string): Promise<number> {
+  if (isDummyMode) return dummySuggestions.get(emailId)?.generation ?? 0;
+  try {
+    const cached = await ReplySuggestion.findOne({ email: emailId }).select('generation').lean();
+    return cached?.generation ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+// Remember the latest suggestion for an email, replacing the previous one. Failing to cache is not an error.
+export async function cacheSuggestion(emailId: string, options: ReplyOptions, result: SuggestedReply) {
+  const entry = { key: suggestionKey(options), result, createdAt: new Date() };
+  if (isDummyMode) {
+    dummySuggestions.set(emailId, { ...entry, generation: (dummySuggestions.get(emailId)?.generation ?? 0) + 1 });
+    return;
+  }
+  try {
+    await ReplySuggestion.updateOne({ email: emailId }, { $set: entry, $inc: { generation: 1 } }, { upsert: true });
+  } catch (error) {
+    console.warn('⚠️ Could not cache suggested reply:', error instanceof Error ? error.message : error);
+  }
+}
+
+// Suggestions are built from the reply profiles and the knowledge base; forget them all when either changes
+export async function clearCachedSuggestions() {
+  if (isDummyMode) {
+    dummySuggestions.clear();
+    return;
+  }
+  try {
+    await ReplySuggestion.deleteMany({});
+  } catch (error) {
+    console.warn('⚠️ Could not clear cached suggested replies:', error instanceof Error ? error.message : error);
+  }
+}
+
+// Keep a record of a reply that went out: the draft it was sent from, or a new entry when there was none
+export async function recordSentReply(
+  email: { _id: any; account?: string },
+  body: string,
+  draftId?: string
+) {
+  const sent = { body, status: 'sent' as DraftStatus, sentAt: new Date() };
+
+  if (isDummyMode) {
+    const draft = draftId ? dummyDrafts.find(d => d._id === draftId && d.email === String(email._id)) : undefined;
+    if (draft) {
+      Object.assign(draft, sent, { updatedAt: new Date() });
+      return draft;
+    }
+    const created = {
+      _id: `dummy-draft-${dummyDrafts.length + 1}`,
+      email: String(email._id),
+      account: email.account,
+      generated: '',
+      author: email.account || 'unknown',
+      ...sent,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    dummyDrafts.push(created);
+    return created;
+  }
+
+  if (draftId) {
+    const draft = await Draft.findOneAndUpdate({ _id: draftId, email: email._id }, { $set: sent }, { new: true });
+    if (draft) return draft;
+  }
+  return Draft.create({ email: email._id, account: email.account, author: email.account || 'unknown', ...sent });
+}
@@ -1,39 +1,75 @@
 import { Client } from '@elastic/elasticsearch';
 import { IEmail } from '../models/Email';
 import { isDummyMode } from '../config/runtime';
+import { Page, CursorValues, mongoAfterCursor, nextCursorFor } from './paginationService';
+import { QueryNode, toElasticsearchQuery, toMongoFilter, highlightTerms } from './searchQueryService';
+import { Facets, FacetInterval, elasticsearchFacetAggs, parseElasticsearchFacets, mongoFacets, senderDomain } from './facetService';
+import { HIGHLIGHT_PRE_TAG, HIGHLIGHT_POST_TAG, BODY_FRAGMENT_SIZE, BODY_FRAGMENTS, highlightEmail } from './highlightService';
 
 const client = new Client({
   node: process.env.ELASTICSEARCH_NODE || 'http://localhost:9200'
 });
 
-// Ensure the emails index exists
+// Searches and writes go through this alias. It points at one versioned index (emails_v<version>_<timestamp>),
+// so a reindex can build a replacement next to it and swap the alias atomically.
+export const EMAIL_INDEX_ALIAS = 'emails';
+// Bump whenever EMAIL_MAPPINGS changes; startup then rebuilds the index from MongoDB in the background
+export const EMAIL_INDEX_VERSION = 2;
+
+const EMAIL_MAPPINGS = {
+  _meta: { version: EMAIL_INDEX_VERSION },
+  properties: {
+    emailId: { type: 'keyword' },
+    messageId: { type: 'keyword' },
+    account: { type: 'keyword' },
+    folder: { type: 'keyword' },
+    from: { type: 'text' },
+    to: { type: 'text' },
+    subject: { type: 'text' },
+    body: { type: 'text' },
+    date: { type: 'date' },
+    category: { type: 'keyword' },
+    isRead: { type: 'boolean' },
+    isFlagged: { type: 'boolean' },
+    hasAttachments: { type: 'boolean' },
+    senderDomain: { type: 'keyword' },
+    // MongoDB updatedAt; lets reconciliation spot stale documents
+    updatedAt: { type: 'date' }
+  }
+} as const;
+
+// Index being built by a running reindex. Live writes go to it as well so nothing is missed before the swap.
+let buildingIndex: string | null = null;
+
+export function setBuildingIndex(index: string | null) {
+  buildingIndex = index;
+}
+
+export function getElasticsearchClient(): Client {
+  return client;
+}
+
+// Create a new versioned index, optionally already behind the alias (for a fresh install)
+export async function createEmailIndex(withAlias: boolean): Promise<string> {
+  const index = `${EMAIL_INDEX_ALIAS}_v${EMAIL_INDEX_VERSION}_${Date.now()}`;
+  await client.indices.create({
+    index,
+    mappings: EMAIL_MAPPINGS as any,
+    ...(withAlias ? { aliases: { [EMAIL_INDEX_ALIAS]: {} } } : {})
+  });
+  console.log(`✅ Elasticsearch index "${index}" created`);
+  return index;
+}
+
+// Ensure the emails alias (or an index from before aliases existed) is there
 async function ensureIndexExists(): Promise<boolean> {
   try {
     if (isDummyMode) return false;
     
-    const indexExists = await client.indices.exists({ index: 'emails' });
+    const indexExists = await client.indices.exists({ index: EMAIL_INDEX_ALIAS });
 
     if (!indexExists) {
-      await client.indices.create({
-        index: 'emails',
-        body: {
-          mappings: {
-            properties: {
-              messageId: { type: 'keyword' },
-              account: { type: 'keyword' },
-              folder: { type: 'keyword' },
-              from: { type: 'text' },
-              to: { type: 'text' },
-              subject: { type: 'text' },
-              body: { type: 'text' },
-              date: { type: 'date' },
-              category: { type: 'keyword' }
-            }
-          }
-        }
-      });
-      console.log('✅ Elasticsearch index "emails" created');
-      return true;
+      await createEmailIndex(true);
     }
     return true;
   } catch (error) {
@@ -53,7 +89,7 @@ export async function initializeElasticsearch() {
     await client.ping();
     console.log('✅ Elasticsearch connection verified');
     
-    // Ensure index exists
+    // Ensure index exists; an outdated one is rebuilt by upgradeEmailIndex (indexMaintenanceService)
     await ensureIndexExists();
   } catch (error) {
     console.error('❌ Elasticsearch initialization error:', error);
@@ -61,26 +97,62 @@ export async function initializeElasticsearch() {
   }
 }
 
-export async function indexEmail(email: IEmail) {
+export function toIndexDocument(email: IEmail) {
+  return {
+    // MongoDB id, so search hits can be opened and acted on like listed emails
+    emailId: email.id,
+    messageId: email.messageId,
+    account: email.account,
+    folder: email.folder,
+    from: email.from,
+    to: email.to,
+    subject: email.subject,
+    body: email.body,
+    date: email.date,
+    category: email.category,
+    isRead: email.isRead,
+    isFlagged: email.isFlagged,
+    hasAttachments: (email.attachments?.length || 0) > 0,
+    senderDomain: senderDomain(email.from),
+    updatedAt: email.updatedAt
+  };
+}
+
+// Documents are versioned by updatedAt, so an older copy (e.g. from a reindex batch read earlier) can never
+// overwrite a newer one; Elasticsearch answers such writes with a 409, which is not an error here
+export function versionOf(email: IEmail) {
+  return email.updatedAt ? { version: email.updatedAt.getTime(), version_type: 'external_gte' as const } : {};
+}
+
+// Failures are logged and swallowed unless `rethrow` is set (the job queue wants to retry them)
+export async function indexEmail(email: IEmail, rethrow = false) {
   try {
     if (isDummyMode) return;
-    await client.index({
-      index: 'emails',
+    const targets = buildingIndex ? [EMAIL_INDEX_ALIAS, buildingIndex] : [EMAIL_INDEX_ALIAS];
+    await Promise.all(targets.map(index => client.index({
+      index,
       id: email.messageId,
-      document: {
-        messageId: email.messageId,
-        account: email.account,
-        folder: email.folder,
-        from: email.from,
-        to: email.to,
-        subject: email.subject,
-        body: email.body,
-        date: email.date,
-        category: email.category
-      }
-    });
+      document: toIndexDocument(email),
+      ...versionOf(email)
+    }).catch(error => {
+      if (error?.meta?.statusCode !== 409) throw error;
+    })));
   } catch (error) {
     console.error('Indexing error:', error);
+    if (rethrow) throw error;
+  }
+}
+
+export async function removeEmailFromIndex(email: IEmail) {
+  try {
+    if (isDummyMode) return;
+    const targets = buildingIndex ? [EMAIL_INDEX_ALIAS, buildingIndex] : [EMAIL_INDEX_ALIAS];
+    await Promise.all(targets.map(index => client.delete({ index, id: email.messageId }).catch(error => {
+      // Already gone is fine
+      if (error?.meta?.statusCode !== 404) throw error;
+    })));
+  } catch (error: any) {
+    console.error('Index removal error:', error);
   }
 }
 
@@ -115,15 +187,25 @@ export async function checkElasticsearchConnection(): Promise<boolean> {
   }
 }
 
-export async function searchEmails(query: string, filters?: {
+export interface SearchFilters {
   account?: string;
   folder?: string;
   category?: string;
-}) {
+}
+
+// `query` is a parsed search (see searchQueryService). Results are newest first, paged with search_after on
+// (date, messageId); the Mongo fallback uses the same order so a cursor stays valid if Elasticsearch goes
+// away between pages. With `facets` set, facet counts (see facetService) come back alongside.
+export async function searchEmails(
+  query: QueryNode | undefined,
+  filters: SearchFilters,
+  page: { cursor?: CursorValues; size: number },
+  facets?: { interval: FacetInterval }
+): Promise<Page<any> & { facets?: Facets }> {
   try {
     if (isDummyMode) {
       // Controller handles dummy search; return empty here to avoid confusion
-      return [];
+      return { items: [], nextCursor: null, total: 0 };
     }
 
     // Check if Elasticsearch is available
@@ -131,51 +213,85 @@ export async function searchEmails(query: string, filters?: {
     
     if (!isAvailable) {
       console.warn('⚠️ Elasticsearch not available, falling back to MongoDB search');
-      return await searchEmailsMongoDB(query, filters);
+      return await searchEmailsMongoDB(query, filters, page, facets);
     }
 
     const must: any[] = [];
 
     if (query) {
-      must.push({
-        multi_match: {
-          query,
-          fields: ['subject^2', 'body', 'from']
-        }
-      });
+      must.push(toElasticsearchQuery(query));
     }
 
-    if (filters?.account) {
-      must.push({ term: { account: filters.account } });
+    // Applied after aggregating, so each facet can count past its own filter
+    const filter: any[] = [];
+
+    if (filters.account) {
+      filter.push({ term: { account: filters.account } });
     }
 
-    if (filters?.folder) {
-      must.push({ term: { folder: filters.folder } });
+    if (filters.folder) {
+      filter.push({ term: { folder: filters.folder } });
     }
 
-    if (filters?.category) {
-      must.push({ term: { category: filters.category } });
+    if (filters.category) {
+      filter.push({ term: { category: filters.category } });
     }
 
     // Ensure index exists before searching
     const indexExists = await ensureIndexExists();
     if (!indexExists) {
       console.warn('⚠️ Could not ensure Elasticsearch index exists, falling back to MongoDB search');
-      return await searchEmailsMongoDB(query, filters);
+      return await searchEmailsMongoDB(query, filters, page, facets);
     }
 
     const result = await client.search({
-      index: 'emails',
+      index: EMAIL_INDEX_ALIAS,
       body: {
         query: {
           bool: { must }
         },
-        sort: [{ date: 'desc' }],
-        size: 100
+        post_filter: { bool: { filter } },
+        ...(facets ? { aggs: elasticsearchFacetAggs(filters, facets.interval) } : {}),
+        sort: [{ date: 'desc' }, { messageId: 'desc' }],
+        size: page.size,
+        highlight: {
+          pre_tags: [HIGHLIGHT_PRE_TAG],
+          post_tags: [HIGHLIGHT_POST_TAG],
+          // Free-text terms are matched against subject, body and from; show them wherever they appear
+          require_field_match: false,
+          fields: {
+            subject: { number_of_fragments: 0 },
+            body: { fragment_size: BODY_FRAGMENT_SIZE, number_of_fragments: BODY_FRAGMENTS }
+          }
+        },
+        track_total_hits: true,
+        ...(page.cursor ? { search_after: page.cursor } : {})
       }
     });
 
-    return result.hits.hits.map(hit => hit._source);
+    const hits = result.hits.hits;
+    const total = typeof result.hits.total === 'number' ? result.hits.total : result.hits.total?.value || 0;
+
+    const items: any[] = hits.map(hit => ({
+      ...(hit._source as any),
+      ...(hit.highlight ? { highlights: { subject: hit.highlight.subject, body: hit.highlight.body } } : {})
+    }));
+
+    // Documents indexed before emailId was stored are matched to their MongoDB id by messageId
+    const missing = items.filter(item => !item.emailId).map(item => item.messageId);
+    if (missing.length) {
+      const Email = (await import('../models/Email')).default;
+      const ids = new Map((await Email.find({ messageId: { $in: missing } }, '_id messageId').lean())
+        .map(email => [email.messageId, String(email._id)]));
+      items.forEach(item => { item.emailId = item.emailId || ids.get(item.messageId); });
+    }
+
+    return {
+      items: items.map(item => ({ ...item, _id: item.emailId })),
+      nextCursor: nextCursorFor(hits, page.size, hit => hit.sort as CursorValues),
+      total,
+      ...(facets ? { facets: parseElasticsearchFacets(result.aggregations) } : {})
+    };
   } catch (error: any) {
     console.error('❌ Elasticsearch search error:', error);
     
@@ -194,50 +310,56 @@ export async function searchEmails(query: string, filters?: {
     
     console.warn('⚠️ Falling back to MongoDB search');
     // Fallback to MongoDB search
-    return await searchEmailsMongoDB(query, filters);
+    return await searchEmailsMongoDB(query, filters, page, facets);
   }
 }
 
 // MongoDB fallback search function
-async function searchEmailsMongoDB(query: string, filters?: {
-  account?: string;
-  folder?: string;
-  category?: string;
-}) {
-  try {
-    const Email = (await import('../models/Email')).default;
-    
-    const searchFilter: any = {};
-
-    // Apply filters
-    if (filters?.account) {
-      searchFilter.account = filters.account;
-    }
-    if (filters?.folder) {
-      searchFilter.folder = filters.folder;
-    }
-    if (filters?.category) {
-      searchFilter.category = filters.category;
-    }
+async function searchEmailsMongoDB(
+  query: QueryNode | undefined,
+  filters: SearchFilters,
+  page: { cursor?: CursorValues; size: number },
+  facets?: { interval: FacetInterval }
+): Promise<Page<any> & { facets?: Facets }> {
+  const Email = (await import('../models/Email')).default;
 
-    // Build text search query
-    if (query) {
-      const queryLower = query.toLowerCase();
-      searchFilter.$or = [
-        { subject: { $regex: queryLower, $options: 'i' } },
-        { body: { $regex: queryLower, $options: 'i' } },
-        { from: { $regex: queryLower, $options: 'i' } }
-      ];
-    }
+  const searchFilter: any = {};
 
-    const results = await Email.find(searchFilter)
-      .sort({ date: -1 })
-      .limit(100)
-      .lean();
+  // Apply filters
+  if (filters.account) {
+    searchFilter.account = filters.account;
+  }
+  if (filters.folder) {
+    searchFilter.folder = filters.folder;
+  }
+  if (filters.category) {
+    searchFilter.category = filters.category;
+  }
 
-    return results;
-  } catch (error) {
-    console.error('❌ MongoDB search error:', error);
-    return [];
+  // Same search translated into a Mongo filter
+  if (query) {
+    searchFilter.$and = [toMongoFilter(query)];
   }
-}
\ No newline at end of file
+
+  const pageFilter = page.cursor
+    ? { $and: [searchFilter, mongoAfterCursor(page.cursor, 'messageId')] }
+    : searchFilter;
+
+  const [items, total, facetCounts] = await Promise.all([
+    Email.find(pageFilter)
+      .sort({ date: -1, messageId: -1 })
+      .limit(page.size)
+      .lean(),
+    Email.countDocuments(searchFilter),
+    facets ? mongoFacets(query ? toMongoFilter(query) : {}, filters, facets.interval) : undefined
+  ]);
+
+  const terms = highlightTerms(query);
+
+  return {
+    items: items.map(email => ({ ...email, highlights: highlightEmail(email, terms) })),
+    nextCursor: nextCursorFor(items, page.size, email => [new Date(email.date).getTime(), email.messageId]),
+    total,
+    ...(facetCounts ? { facets: facetCounts } : {})
+  };
+}
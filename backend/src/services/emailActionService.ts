@@ -0,0 +1,115 @@
+import { IEmail } from '../models/Email';
+import Correction from '../models/Correction';
+import { indexEmail, removeEmailFromIndex } from './elasticsearchService';
+import { removeEmailVectors } from './semanticSearchService';
+import {
+  pushFlagChanges,
+  moveRemoteMessage,
+  deleteRemoteMessage,
+  resolveAccountFolder
+} from './imapService';
+import { sendSlackNotification } from './slackService';
+import { triggerWebhook } from './webhookService';
+import { io } from '../server';
+
+// The destination of a move does not exist on the account's server
+export class FolderNotFoundError extends Error {}
+
+export interface EmailChanges {
+  isRead?: boolean;
+  isFlagged?: boolean;
+  folder?: string;
+}
+
+// Pick the supported fields out of a request body, coercing types
+export function parseEmailChanges(body: any): EmailChanges {
+  const changes: EmailChanges = {};
+  if (body?.isRead !== undefined) changes.isRead = Boolean(body.isRead);
+  if (body?.isFlagged !== undefined) changes.isFlagged = Boolean(body.isFlagged);
+  if (typeof body?.folder === 'string' && body.folder.trim()) changes.folder = body.folder.trim();
+  return changes;
+}
+
+// Apply read/flag/move changes on the IMAP server first, then mirror them into MongoDB and Elasticsearch
+export async function applyEmailChanges(email: IEmail, changes: EmailChanges): Promise<IEmail> {
+  const flagChanges: { isRead?: boolean; isFlagged?: boolean } = {};
+  if (changes.isRead !== undefined && changes.isRead !== email.isRead) flagChanges.isRead = changes.isRead;
+  if (changes.isFlagged !== undefined && changes.isFlagged !== email.isFlagged) flagChanges.isFlagged = changes.isFlagged;
+
+  if (Object.keys(flagChanges).length) {
+    await pushFlagChanges(email, flagChanges);
+    Object.assign(email, flagChanges);
+  }
+
+  if (changes.folder) {
+    const destination = await resolveAccountFolder(email.account, changes.folder);
+    if (!destination) {
+      throw new FolderNotFoundError(`Folder "${changes.folder}" not found for ${email.account}`);
+    }
+
+    if (destination !== email.folder) {
+      // Update MongoDB before the server move so the source folder's EXPUNGE reconciliation
+      // does not treat the message as deleted. The UID is assigned by the destination folder.
+      const source = { folder: email.folder, uid: email.uid, uidValidity: email.uidValidity };
+      const snapshot = { ...email.toObject(), ...source } as IEmail;
+      email.folder = destination;
+      email.uid = undefined;
+      email.uidValidity = undefined;
+      await email.save();
+
+      try {
+        await moveRemoteMessage(snapshot, destination);
+      } catch (error) {
+        Object.assign(email, source);
+        await email.save();
+        throw error;
+      }
+    }
+  }
+
+  await email.save();
+  await indexEmail(email);
+  io.emit('email-updated', email);
+
+  return email;
+}
+
+// Set a category by hand and remember the decision so the classifier can learn from it.
+// `category` must already be resolved to a configured category name.
+export async function setManualCategory(email: IEmail, category: string): Promise<IEmail> {
+  const previous = { category: email.category, source: email.categorization?.source };
+
+  email.category = category;
+  email.categorization = { source: 'manual', confidence: 1, categorizedAt: new Date() };
+  await email.save();
+
+  await Correction.create({
+    email: email._id,
+    account: email.account,
+    from: email.from,
+    subject: email.subject,
+    snippet: (email.body || '').substring(0, 500),
+    previousCategory: previous.category,
+    previousSource: previous.source,
+    category
+  });
+
+  await indexEmail(email);
+
+  // Same notifications as an email that arrives already Interested
+  if (category === 'Interested' && previous.category !== 'Interested') {
+    await sendSlackNotification(email);
+    await triggerWebhook(email);
+  }
+
+  io.emit('email-updated', email);
+  return email;
+}
+
+export async function deleteEmail(email: IEmail) {
+  await deleteRemoteMessage(email);
+  await email.deleteOne();
+  await removeEmailFromIndex(email);
+  await removeEmailVectors([email.id]);
+  io.emit('emails-deleted', [email.id]);
+}
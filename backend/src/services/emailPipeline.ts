@@ -0,0 +1,77 @@
+import Email from '../models/Email';
+import { registerJobHandler, enqueueJob } from './jobQueue';
+import { ingestMessages, IngestPayload } from './imapService';
+import { categorizeEmail } from './aiCategorizationService';
+import { indexEmail } from './elasticsearchService';
+import { embedEmails } from './semanticSearchService';
+import { sendSlackNotification } from './slackService';
+import { triggerWebhook } from './webhookService';
+import { io } from '../server';
+
+interface EmailJobPayload {
+  emailId: string;
+  isNew: boolean;
+}
+
+export interface EmbedJobPayload {
+  emailIds: string[];
+}
+
+// New mail flows ingest → categorize → index → notify (and embed, alongside notify); each stage is a queued job so a slow or failing
+// step (LLM rate limits, Elasticsearch down) is retried on its own without blocking IMAP sync
+export function registerEmailPipeline() {
+  registerJobHandler('ingest', async (payload: IngestPayload) => {
+    await ingestMessages(payload);
+  });
+
+  registerJobHandler('categorize', async ({ emailId, isNew }: EmailJobPayload, job) => {
+    const email = await Email.findById(emailId);
+    if (!email) return;
+
+    // Labels (or a person) may already have decided; a retry after a crash must not redo the work
+    if (!email.category) {
+      const { category, categorization } = await categorizeEmail(email, {
+        // On the last attempt take the rules' answer rather than leaving the email uncategorized
+        retryTransient: job.attempts < job.maxAttempts
+      });
+      if (category) {
+        email.category = category;
+        email.categorization = categorization;
+        await email.save();
+        console.log(`✅ Email categorized as: ${category} (${categorization?.rationale || categorization?.source})`);
+      }
+    }
+
+    await enqueueJob('index', { emailId, isNew });
+  });
+
+  registerJobHandler('index', async ({ emailId, isNew }: EmailJobPayload) => {
+    const email = await Email.findById(emailId);
+    if (!email) return;
+
+    await indexEmail(email, true);
+    await enqueueJob('notify', { emailId, isNew });
+    // Content of known emails does not change; vectors from an older model are replaced by reconciliation
+    if (isNew || !email.embeddedWith) {
+      await enqueueJob('embed', { emailIds: [emailId] });
+    }
+  });
+
+  // Batched, so reconciliation can backfill embeddings in few API calls
+  registerJobHandler('embed', async ({ emailIds }: EmbedJobPayload) => {
+    const emails = await Email.find({ _id: { $in: emailIds } });
+    await embedEmails(emails);
+  });
+
+  registerJobHandler('notify', async ({ emailId, isNew }: EmailJobPayload) => {
+    const email = await Email.findById(emailId);
+    if (!email) return;
+
+    if (isNew && email.category === 'Interested') {
+      await sendSlackNotification(email);
+      await triggerWebhook(email);
+    }
+
+    io.emit(isNew ? 'new-email' : 'email-updated', email);
+  });
+}
@@ -0,0 +1,149 @@
+// Facet counts for the email listing and search: how many matching emails fall in each category, account,
+// folder, sender domain and date bucket. Counts for category, account and folder ignore that facet's own
+// filter (but respect the others), so picking a category still shows how many emails the rest have.
+
+export type FacetName = 'category' | 'account' | 'folder' | 'senderDomain' | 'date';
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export type Facets = Record<FacetName, FacetBucket[]>;
+
+export type FacetInterval = 'day' | 'month';
+
+// Facets that are also listing filters
+export type FacetFilters = Partial<Record<'category' | 'account' | 'folder', string>>;
+
+const FILTER_FACETS = ['category', 'account', 'folder'] as const;
+const TERMS_SIZE = 20;
+
+export function parseFacetInterval(value: unknown): FacetInterval {
+  return value === 'day' ? 'day' : 'month';
+}
+
+// The domain part of "Name <user@example.com>" or "user@example.com", lower-cased
+export function senderDomain(from: string | undefined): string | undefined {
+  return /@([^\s>]+)/.exec(from || '')?.[1]?.toLowerCase();
+}
+
+function otherFilters(filters: FacetFilters, except?: FacetName) {
+  return FILTER_FACETS.filter(name => name !== except && filters[name]);
+}
+
+// Aggregations for a search whose category/account/folder filters are applied as a post_filter
+export function elasticsearchFacetAggs(filters: FacetFilters, interval: FacetInterval): any {
+  const scoped = (facet: FacetName, agg: any) => ({
+    filter: { bool: { filter: otherFilters(filters, facet).map(name => ({ term: { [name]: filters[name] } })) } },
+    aggs: { buckets: agg }
+  });
+
+  return {
+    category: scoped('category', { terms: { field: 'category', size: TERMS_SIZE } }),
+    account: scoped('account', { terms: { field: 'account', size: TERMS_SIZE } }),
+    folder: scoped('folder', { terms: { field: 'folder', size: TERMS_SIZE } }),
+    senderDomain: scoped('senderDomain', { terms: { field: 'senderDomain', size: TERMS_SIZE } }),
+    date: scoped('date', {
+      date_histogram: {
+        field: 'date',
+        calendar_interval: interval === 'day' ? '1d' : '1M',
+        format: 'yyyy-MM-dd',
+        min_doc_count: 1
+      }
+    })
+  };
+}
+
+export function parseElasticsearchFacets(aggregations: any): Facets {
+  const buckets = (name: FacetName, key = 'key'): FacetBucket[] =>
+    (aggregations?.[name]?.buckets?.buckets || []).map((b: any) => ({ value: String(b[key]), count: b.doc_count }));
+
+  return {
+    category: buckets('category'),
+    account: buckets('account'),
+    folder: buckets('folder'),
+    senderDomain: buckets('senderDomain'),
+    date: buckets('date', 'key_as_string')
+  };
+}
+
+// Same facets from MongoDB; `baseFilter` is everything except the category/account/folder filters
+export async function mongoFacets(baseFilter: any, filters: FacetFilters, interval: FacetInterval): Promise<Facets> {
+  const Email = (await import('../models/Email')).default;
+
+  const scoped = (facet: FacetName, ...stages: any[]) => [
+    { $match: Object.fromEntries(otherFilters(filters, facet).map(name => [name, filters[name]])) },
+    ...stages,
+    { $match: { _id: { $nin: [null, ''] } } },
+    { $sort: facet === 'date' ? { _id: 1 } : { count: -1, _id: 1 } },
+    ...(facet === 'date' ? [] : [{ $limit: TERMS_SIZE }])
+  ];
+  const count = { count: { $sum: 1 } };
+
+  const [result] = await Email.aggregate([
+    { $match: baseFilter },
+    {
+      $facet: {
+        category: scoped('category', { $group: { _id: '$category', ...count } }),
+        account: scoped('account', { $group: { _id: '$account', ...count } }),
+        folder: scoped('folder', { $group: { _id: '$folder', ...count } }),
+        senderDomain: scoped('senderDomain', {
+          $group: {
+            _id: {
+              $let: {
+                vars: { match: { $regexFind: { input: '$from', regex: /@([^\s>]+)/ } } },
+                in: { $toLower: { $arrayElemAt: ['$$match.captures', 0] } }
+              }
+            },
+            ...count
+          }
+        }),
+        date: scoped('date', {
+          $group: {
+            _id: { $dateToString: { date: '$date', format: interval === 'day' ? '%Y-%m-%d' : '%Y-%m-01' } },
+            ...count
+          }
+        })
+      }
+    }
+  ]);
+
+  const toBuckets = (rows: any[] = []) => rows.map(row => ({ value: String(row._id), count: row.count }));
+  return {
+    category: toBuckets(result?.category),
+    account: toBuckets(result?.account),
+    folder: toBuckets(result?.folder),
+    senderDomain: toBuckets(result?.senderDomain),
+    date: toBuckets(result?.date)
+  };
+}
+
+// Dummy mode: `items` have already been narrowed by the search query but not by the facet filters
+export function inMemoryFacets(items: any[], filters: FacetFilters, interval: FacetInterval): Facets {
+  const count = (facet: FacetName, valueOf: (item: any) => string | undefined) => {
+    const counts = new Map<string, number>();
+    items
+      .filter(item => otherFilters(filters, facet).every(name => item[name] === filters[name]))
+      .forEach(item => {
+        const value = valueOf(item);
+        if (value) counts.set(value, (counts.get(value) || 0) + 1);
+      });
+
+    const buckets = [...counts].map(([value, n]) => ({ value, count: n }));
+    return facet === 'date'
+      ? buckets.sort((a, b) => a.value.localeCompare(b.value))
+      : buckets.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)).slice(0, TERMS_SIZE);
+  };
+
+  return {
+    category: count('category', item => item.category),
+    account: count('account', item => item.account),
+    folder: count('folder', item => item.folder),
+    senderDomain: count('senderDomain', item => senderDomain(item.from)),
+    date: count('date', item => {
+      const iso = new Date(item.date).toISOString();
+      return interval === 'day' ? iso.slice(0, 10) : `${iso.slice(0, 7)}-01`;
+    })
+  };
+}
@@ -0,0 +1,53 @@
+import { escapeRegex } from './searchQueryService';
+
+// Matched terms are wrapped in these tags; the frontend splits on them rather than rendering HTML
+export const HIGHLIGHT_PRE_TAG = '<mark>';
+export const HIGHLIGHT_POST_TAG = '</mark>';
+export const BODY_FRAGMENT_SIZE = 120;
+export const BODY_FRAGMENTS = 3;
+
+export interface Highlights {
+  subject?: string[];
+  body?: string[];
+}
+
+function mark(text: string, pattern: RegExp): string {
+  return text.replace(pattern, match => `${HIGHLIGHT_PRE_TAG}${match}${HIGHLIGHT_POST_TAG}`);
+}
+
+// Best-effort stand-in for Elasticsearch's highlighter, used by the MongoDB fallback and dummy mode:
+// case-insensitive substring matches, the whole subject, and up to three body windows around matches
+export function highlightEmail(
+  email: { subject?: string; body?: string },
+  terms: { subject: string[]; body: string[] }
+): Highlights | undefined {
+  const highlights: Highlights = {};
+  const build = (list: string[]) => list.length
+    ? new RegExp(list.map(escapeRegex).sort((a, b) => b.length - a.length).join('|'), 'gi')
+    : null;
+
+  const subjectPattern = build(terms.subject);
+  if (subjectPattern && email.subject && email.subject.search(subjectPattern) !== -1) {
+    highlights.subject = [mark(email.subject, subjectPattern)];
+  }
+
+  const bodyPattern = build(terms.body);
+  const body = (email.body || '').replace(/\s+/g, ' ');
+  if (bodyPattern) {
+    const fragments: string[] = [];
+    let coveredUntil = 0;
+
+    for (const match of body.matchAll(bodyPattern)) {
+      if (fragments.length >= BODY_FRAGMENTS) break;
+      if (match.index! < coveredUntil) continue;
+
+      const start = Math.max(coveredUntil, match.index! - BODY_FRAGMENT_SIZE / 2);
+      const end = Math.min(body.length, start + BODY_FRAGMENT_SIZE);
+      fragments.push(mark(body.slice(start, end).trim(), bodyPattern));
+      coveredUntil = end;
+    }
+    if (fragments.length) highlights.body = fragments;
+  }
+
+  return highlights.subject || highlights.body ? highlights : undefined;
+}
@@ -1,10 +1,13 @@
 import Imap from 'imap';
 import { simpleParser } from 'mailparser';
-import Email, { IEmail } from '../models/Email';
-import { indexEmail } from './elasticsearchService';
-import { categorizeEmail } from './aiCategorizationService';
-import { sendSlackNotification } from './slackService';
-import { triggerWebhook } from './webhookService';
+import Email, { IEmail, ICategorization } from '../models/Email';
+import Account, { IAccount } from '../models/Account';
+import { indexEmail, removeEmailFromIndex } from './elasticsearchService';
+import { removeEmailVectors } from './semanticSearchService';
+import { mapLabelsToCategory } from './categoryService';
+import { decryptSecret } from './credentialService';
+import { assignThread } from './threadService';
+import { enqueueJob } from './jobQueue';
 import { io } from '../server';
 
 interface ImapConfig {
@@ -15,131 +18,775 @@ interface ImapConfig {
   tls: boolean;
 }
 
-const imapConnections: Map<string, Imap> = new Map();
+export interface MailboxInfo {
+  path: string;
+  name: string;
+  specialUse?: string;
+  selectable: boolean;
+}
+
+// Friendly names accepted in Account.folders, resolved through the server's SPECIAL-USE attributes
+const SPECIAL_USE_ALIASES: Record<string, string> = {
+  sent: '\\Sent',
+  archive: '\\Archive',
+  drafts: '\\Drafts',
+  trash: '\\Trash',
+  junk: '\\Junk',
+  spam: '\\Junk',
+  all: '\\All'
+};
+
+// Live connections keyed by Account id, then by configured folder (one IDLE session per folder)
+const imapConnections: Map<string, Map<string, Imap>> = new Map();
+// Mailbox path currently selected by each live session
+const openedPaths: WeakMap<Imap, string> = new WeakMap();
+// UIDVALIDITY of that mailbox, so queued UIDs are never fetched from a renumbered folder
+const openedValidity: WeakMap<Imap, number> = new WeakMap();
+
+// Messages per ingest job; a large initial sync becomes many small jobs
+const INGEST_BATCH_SIZE = 50;
 
 export async function startImapSync() {
-  const accounts = process.env.IMAP_ACCOUNTS!.split(',');
-  const passwords = process.env.IMAP_PASSWORDS!.split(',');
-  const hosts = process.env.IMAP_HOSTS!.split(',');
-  const ports = process.env.IMAP_PORTS!.split(',').map(Number);
+  await importEnvAccounts();
+
+  const accounts = await Account.find().select('+password');
+  if (accounts.length === 0) {
+    console.log('No IMAP accounts configured yet — add one via POST /api/accounts');
+    return;
+  }
+
+  for (const account of accounts) {
+    startAccountSync(account);
+  }
+}
+
+// Seed accounts from the legacy comma-separated IMAP_* env vars so existing setups keep working
+async function importEnvAccounts() {
+  if (!process.env.IMAP_ACCOUNTS) return;
+
+  const accounts = process.env.IMAP_ACCOUNTS.split(',');
+  const passwords = (process.env.IMAP_PASSWORDS || '').split(',');
+  const hosts = (process.env.IMAP_HOSTS || '').split(',');
+  const ports = (process.env.IMAP_PORTS || '').split(',').map(Number);
 
   for (let i = 0; i < accounts.length; i++) {
-    const config: ImapConfig = {
-      user: accounts[i].trim(),
+    const email = accounts[i].trim();
+    if (!email || !passwords[i] || !hosts[i] || !ports[i]) {
+      console.warn(`⚠️ Skipping incomplete IMAP env entry #${i + 1}`);
+      continue;
+    }
+
+    const exists = await Account.exists({ email });
+    if (exists) continue;
+
+    await Account.create({
+      email,
       password: passwords[i].trim(),
       host: hosts[i].trim(),
       port: ports[i],
-      tls: true,
-      // keep rejectUnauthorized false in dev only if you are using local mocks
-      tlsOptions: {
-        rejectUnauthorized: false // DEV ONLY — accepts self-signed certs
-      } as any
-    } as any;
-
-    await connectAndSync(config);
+      tls: true
+    });
+    console.log(`📥 Imported IMAP account from env: ${email}`);
   }
 }
 
-async function connectAndSync(config: ImapConfig) {
-  const imap = new Imap(config as any);
+// Build the connection config for an account; it must be loaded with '+password'
+function buildConfig(account: IAccount): ImapConfig {
+  return {
+    user: account.email,
+    password: decryptSecret(account.password),
+    host: account.host,
+    port: account.port,
+    tls: account.tls,
+    // keep rejectUnauthorized false in dev only if you are using local mocks
+    tlsOptions: {
+      rejectUnauthorized: false // DEV ONLY — accepts self-signed certs
+    } as any
+  } as any;
+}
+
+export function getSyncFolders(account: IAccount): string[] {
+  return account.folders && account.folders.length ? account.folders : ['INBOX'];
+}
+
+// Start (or restart) the connections for an account; it must be loaded with '+password'
+export function startAccountSync(account: IAccount) {
+  stopAccountSync(account.id);
+
+  let config: ImapConfig;
+  try {
+    config = buildConfig(account);
+  } catch (error) {
+    console.error(`❌ Could not decrypt credentials for ${account.email}:`, error);
+    return;
+  }
+
+  imapConnections.set(account.id, new Map());
+  for (const folder of getSyncFolders(account)) {
+    connectAndSync(account.id, config, folder, account.backfillDays || 30);
+  }
+}
+
+// Tear down every connection for an account without scheduling a reconnect
+export function stopAccountSync(accountId: string) {
+  const sessions = imapConnections.get(accountId);
+  if (!sessions) return;
+
+  imapConnections.delete(accountId);
+  for (const imap of sessions.values()) {
+    imap.end();
+  }
+  // The sessions' own 'end' events are ignored once they are no longer current
+  setConnected(accountId, false);
+}
+
+function isCurrentSession(accountId: string, folder: string, imap: Imap): boolean {
+  return imapConnections.get(accountId)?.get(folder) === imap;
+}
 
-  imap.once('ready', () => {
-    console.log(`✅ IMAP connected: ${config.user}`);
+function connectAndSync(accountId: string, config: ImapConfig, folder: string, initialSyncDays: number) {
+  const imap = new Imap(config as any);
 
-    imap.openBox('INBOX', false, (err, box) => {
+  imap.once('ready', async () => {
+    if (!isCurrentSession(accountId, folder, imap)) {
+      imap.end();
+      return;
+    }
+    console.log(`✅ IMAP connected: ${config.user} (${folder})`);
+    setConnected(accountId, true);
+
+    let mailbox: MailboxInfo | undefined;
+    try {
+      mailbox = resolveMailbox(await listMailboxes(imap), folder);
+    } catch (err) {
+      console.error(`Error listing mailboxes for ${config.user}:`, err);
+    }
+
+    if (!mailbox) {
+      console.warn(`⚠️ Folder "${folder}" not found for ${config.user}, skipping`);
+      imapConnections.get(accountId)?.delete(folder);
+      imap.end();
+      return;
+    }
+
+    const path = mailbox.path;
+    imap.openBox(path, false, async (err, box) => {
       if (err) {
-        console.error('Error opening inbox:', err);
+        console.error(`Error opening ${path}:`, err);
+        return;
+      }
+      openedPaths.set(imap, path);
+      openedValidity.set(imap, box.uidvalidity);
+
+      const saved = await getSyncState(accountId, path).catch(err => {
+        console.error('Failed to load sync checkpoint, running full sync:', err);
+        return undefined;
+      });
+      const checkpoint = { uidValidity: box.uidvalidity, lastUid: 0 };
+
+      if (saved && saved.uidValidity === box.uidvalidity) {
+        checkpoint.lastUid = saved.lastUid;
+      } else if (saved) {
+        console.warn(`⚠️ UIDVALIDITY changed for ${config.user} in ${path}, running full resync`);
+      }
+
+      const sync = createIncrementalSync(imap, accountId, config.user, path, checkpoint);
+
+      // UIDs are only stable for a given UIDVALIDITY; reconnect so the checkpoint is re-evaluated
+      imap.on('uidvalidity', () => {
+        console.warn(`⚠️ UIDVALIDITY changed mid-session for ${config.user} in ${path}, reconnecting`);
+        imap.end();
+      });
+
+      if (checkpoint.lastUid > 0) {
+        sync(() => startIdleMode(imap, config.user, path, checkpoint, sync));
         return;
       }
 
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+      const windowStart = new Date();
+      windowStart.setDate(windowStart.getDate() - initialSyncDays);
 
-      imap.search(['ALL', ['SINCE', thirtyDaysAgo]], (err, results) => {
+      imap.search(['ALL', ['SINCE', windowStart]], (err, results) => {
         if (err) {
           console.error('Search error:', err);
           return;
         }
 
         if (results.length === 0) {
-          console.log(`No emails found for ${config.user}`);
-          startIdleMode(imap, config.user);
+          console.log(`No emails found for ${config.user} in ${path}`);
+          // Anchor the checkpoint at the mailbox's current end so IDLE only picks up new mail
+          checkpoint.lastUid = Math.max(box.uidnext - 1, 0);
+          saveSyncState(accountId, path, checkpoint);
+          startIdleMode(imap, config.user, path, checkpoint, sync);
           return;
         }
 
-        console.log(`📧 Found ${results.length} emails for ${config.user}`);
-        fetchAndProcessEmails(imap, results, config.user, () => {
-          startIdleMode(imap, config.user);
-        });
+        console.log(`📧 Found ${results.length} emails for ${config.user} in ${path}`);
+        enqueueIngest(accountId, path, box.uidvalidity, results)
+          .then(() => {
+            // Safe to move past these UIDs: the queued jobs survive a restart
+            checkpoint.lastUid = Math.max(highestOf(results), box.uidnext - 1, 0);
+            saveSyncState(accountId, path, checkpoint);
+          })
+          .catch(err => console.error('Failed to queue initial sync:', err))
+          .finally(() => startIdleMode(imap, config.user, path, checkpoint, sync));
       });
     });
   });
 
   imap.once('error', (err: Error) => {
+    if (!isCurrentSession(accountId, folder, imap)) return;
     console.error(`❌ IMAP error for ${config.user}:`, err);
   });
 
   imap.once('end', () => {
-    console.log(`Connection ended for ${config.user}, reconnecting...`);
-    setTimeout(() => connectAndSync(config), 5000);
+    // Connection was stopped or replaced — nothing to reconnect, and the account's status belongs to the
+    // session that replaced it
+    if (!isCurrentSession(accountId, folder, imap)) {
+      console.log(`Connection closed for ${config.user} (${folder})`);
+      return;
+    }
+
+    setConnected(accountId, false);
+
+    console.log(`Connection ended for ${config.user} (${folder}), reconnecting...`);
+    setTimeout(() => {
+      if (isCurrentSession(accountId, folder, imap)) {
+        connectAndSync(accountId, config, folder, initialSyncDays);
+      }
+    }, 5000);
   });
 
   imap.connect();
-  imapConnections.set(config.user, imap);
+  imapConnections.get(accountId)?.set(folder, imap);
 }
 
-function startIdleMode(imap: Imap, account: string) {
-  console.log(`🔔 IDLE mode started for ${account}`);
+function highestOf(uids: number[]): number {
+  return uids.reduce((max, uid) => Math.max(max, uid), 0);
+}
 
-  imap.on('mail', (numNewMsgs: number) => {
-    console.log(`📧 ${numNewMsgs} new email(s) received for ${account}`);
+// Queue the UIDs for the ingest stage in batches; resolves once every job is stored
+async function enqueueIngest(accountId: string, folder: string, uidValidity: number, uids: number[]) {
+  for (let i = 0; i < uids.length; i += INGEST_BATCH_SIZE) {
+    await enqueueJob('ingest', { accountId, folder, uidValidity, uids: uids.slice(i, i + INGEST_BATCH_SIZE) });
+  }
+}
+
+export interface IngestPayload {
+  accountId: string;
+  folder: string;
+  uidValidity: number;
+  uids: number[];
+}
+
+// Ingest stage: fetch, parse and store queued UIDs. Uses the folder's live IDLE session when it has the
+// mailbox open, otherwise a short-lived connection. Messages that could not be stored are split off into
+// single-UID jobs so one bad message cannot hold back the rest of its batch; a single-UID job fails so it is
+// retried and eventually dead-lettered (re-storing a message is harmless: it is matched by Message-ID).
+export async function ingestMessages({ accountId, folder, uidValidity, uids }: IngestPayload): Promise<FetchResult> {
+  const account = await Account.findById(accountId).select('+password');
+  if (!account) {
+    console.warn(`⚠️ Dropping ingest job: account ${accountId} no longer exists`);
+    return { highestUid: 0, failed: [] };
+  }
+
+  const sessions = imapConnections.get(accountId);
+  const live = sessions && [...sessions.values()].find(imap =>
+    imap.state === 'authenticated' && openedPaths.get(imap) === folder
+  );
+
+  const result = live && openedValidity.get(live) === uidValidity
+    ? await fetchMessages(live, uids, account.email, folder, uidValidity)
+    : await withTemporaryConnection(account, async (imap) => {
+      const box = await openMailbox(imap, folder, true);
+      if (box.uidvalidity !== uidValidity) {
+        // The folder was renumbered; the UIDVALIDITY resync queues fresh UIDs
+        console.warn(`⚠️ Dropping ingest job for ${account.email} in ${folder}: UIDVALIDITY changed`);
+        return { highestUid: 0, failed: [] };
+      }
+      return fetchMessages(imap, uids, account.email, folder, uidValidity);
+    });
+
+  if (result.failed.length > 0) {
+    if (uids.length === 1) {
+      throw new Error(`UID ${uids[0]} in ${folder} could not be stored`);
+    }
+    for (const uid of result.failed) {
+      await enqueueJob('ingest', { accountId, folder, uidValidity, uids: [uid] });
+    }
+    console.warn(`⚠️ ${result.failed.length} of ${uids.length} message(s) in ${folder} failed; retrying them one by one`);
+  }
+  return result;
+}
+
+function setConnected(accountId: string, isConnected: boolean) {
+  Account.updateOne({ _id: accountId }, { isConnected })
+    .catch(err => console.error('Failed to update account status:', err));
+}
+
+export function listMailboxes(imap: Imap): Promise<MailboxInfo[]> {
+  return new Promise((resolve, reject) => {
+    imap.getBoxes((err, boxes) => {
+      if (err) return reject(err);
+      resolve(flattenMailboxes(boxes));
+    });
+  });
+}
+
+function flattenMailboxes(boxes: Imap.MailBoxes | null, prefix = ''): MailboxInfo[] {
+  const result: MailboxInfo[] = [];
+
+  for (const [name, box] of Object.entries(boxes || {})) {
+    const path = prefix ? `${prefix}${box.delimiter}${name}` : name;
+    const attribs = box.attribs || [];
+
+    result.push({
+      path,
+      name,
+      specialUse: (box as any).special_use_attrib,
+      selectable: !attribs.some(a => a.toLowerCase() === '\\noselect')
+    });
+    result.push(...flattenMailboxes(box.children, path));
+  }
+
+  return result;
+}
+
+// Match a configured folder by exact path, then SPECIAL-USE alias, then case-insensitive name
+export function resolveMailbox(mailboxes: MailboxInfo[], wanted: string): MailboxInfo | undefined {
+  const selectable = mailboxes.filter(m => m.selectable);
+  const lower = wanted.toLowerCase();
+
+  return selectable.find(m => m.path === wanted)
+    || selectable.find(m => lower === 'inbox' && m.path.toLowerCase() === 'inbox')
+    || selectable.find(m => SPECIAL_USE_ALIASES[lower] && m.specialUse === SPECIAL_USE_ALIASES[lower])
+    || selectable.find(m => m.path.toLowerCase() === lower || m.name.toLowerCase() === lower);
+}
+
+// Open a short-lived connection for one-off operations on accounts without a usable session
+export function withTemporaryConnection<T>(account: IAccount, fn: (imap: Imap) => Promise<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const imap = new Imap(buildConfig(account) as any);
+
+    imap.once('ready', () => {
+      fn(imap)
+        .then(resolve, reject)
+        .finally(() => imap.end());
+    });
+    imap.once('error', reject);
+    imap.connect();
+  });
+}
+
+export function openMailbox(imap: Imap, path: string, readOnly = false): Promise<Imap.Box> {
+  return new Promise((resolve, reject) => {
+    imap.openBox(path, readOnly, (err, box) => (err ? reject(err) : resolve(box)));
+  });
+}
+
+export function searchMailbox(imap: Imap, criteria: any[]): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    imap.search(criteria, (err, uids) => (err ? reject(err) : resolve(uids)));
+  });
+}
+
+export interface FetchResult {
+  highestUid: number;
+  // UIDs that were fetched but could not be parsed or stored
+  failed: number[];
+}
+
+// Promise wrapper around fetchAndProcessEmails; resolves once every message was handled, and rejects only when
+// the fetch itself fails. Messages that could not be stored are reported in `failed` for the caller to retry.
+export function fetchMessages(
+  imap: Imap,
+  uids: number[],
+  account: string,
+  folder: string,
+  uidValidity: number
+): Promise<FetchResult> {
+  return new Promise((resolve, reject) => fetchAndProcessEmails(imap, uids, account, folder, uidValidity, (err, result) => {
+    if (err) reject(err);
+    else resolve(result);
+  }));
+}
+
+// List the server's mailboxes for an account, marking which ones are being synced
+export async function listAccountMailboxes(account: IAccount): Promise<Array<MailboxInfo & { synced: boolean }>> {
+  const sessions = imapConnections.get(account.id);
+  const live = sessions && [...sessions.values()].find(imap => imap.state === 'authenticated');
+
+  const mailboxes = live
+    ? await listMailboxes(live)
+    : await withTemporaryConnection(account, listMailboxes);
+
+  const syncedPaths = new Set(
+    getSyncFolders(account)
+      .map(folder => resolveMailbox(mailboxes, folder)?.path)
+      .filter(Boolean)
+  );
+
+  return mailboxes.map(m => ({ ...m, synced: syncedPaths.has(m.path) }));
+}
+
+export interface SyncCheckpoint {
+  uidValidity: number;
+  lastUid: number;
+}
+
+async function getSyncState(accountId: string, folder: string) {
+  const account = await Account.findById(accountId).select('syncState');
+  return account?.syncState?.find(s => s.folder === folder);
+}
 
-    imap.search(['UNSEEN'], (err, results) => {
+function saveSyncState(accountId: string, folder: string, checkpoint: SyncCheckpoint) {
+  const now = new Date();
+
+  return Account.updateOne(
+    { _id: accountId, 'syncState.folder': folder },
+    {
+      $set: {
+        'syncState.$.uidValidity': checkpoint.uidValidity,
+        'syncState.$.lastUid': checkpoint.lastUid,
+        'syncState.$.lastSyncDate': now,
+        lastSyncDate: now
+      }
+    }
+  )
+    .then(result => {
+      if (result.matchedCount > 0) return;
+      return Account.updateOne(
+        { _id: accountId },
+        {
+          $push: { syncState: { folder, ...checkpoint, lastSyncDate: now } },
+          $set: { lastSyncDate: now }
+        }
+      );
+    })
+    .catch(err => console.error('Failed to save sync checkpoint:', err));
+}
+
+// Fetch every message above the checkpoint UID; concurrent triggers are coalesced into one follow-up run
+export function createIncrementalSync(
+  imap: Imap,
+  accountId: string,
+  account: string,
+  folder: string,
+  checkpoint: SyncCheckpoint
+) {
+  let running = false;
+  let rerun = false;
+
+  const sync = (done?: () => void) => {
+    if (running) {
+      rerun = true;
+      done?.();
+      return;
+    }
+    running = true;
+
+    const finish = () => {
+      running = false;
+      done?.();
+      if (rerun) {
+        rerun = false;
+        sync();
+      }
+    };
+
+    imap.search([['UID', `${checkpoint.lastUid + 1}:*`]], (err, results) => {
       if (err) {
         console.error('Search error:', err);
-        return;
+        return finish();
       }
 
-      if (results.length > 0) {
-        fetchAndProcessEmails(imap, results, account);
-      }
+      // "n:*" always matches the last message, even when its UID is below n
+      const fresh = results.filter(uid => uid > checkpoint.lastUid);
+      if (fresh.length === 0) return finish();
+
+      console.log(`📧 ${fresh.length} new email(s) since UID ${checkpoint.lastUid} for ${account} in ${folder}`);
+      enqueueIngest(accountId, folder, checkpoint.uidValidity, fresh)
+        .then(() => {
+          checkpoint.lastUid = Math.max(checkpoint.lastUid, highestOf(fresh));
+          saveSyncState(accountId, folder, checkpoint);
+        })
+        .catch(err => console.error('Failed to queue new mail:', err))
+        .finally(finish);
+    });
+  };
+
+  return sync;
+}
+
+function startIdleMode(imap: Imap, account: string, folder: string, checkpoint: SyncCheckpoint, sync: () => void) {
+  console.log(`🔔 IDLE mode started for ${account} (${folder})`);
+
+  imap.on('mail', (numNewMsgs: number) => {
+    console.log(`📧 ${numNewMsgs} new email(s) received for ${account} in ${folder}`);
+    sync();
+  });
+
+  // Flags changed by another client (read elsewhere, starred on the phone, ...)
+  imap.on('update', (seqno: number, info: any) => {
+    if (info?.uid && info?.flags) {
+      applyServerFlags(account, folder, checkpoint.uidValidity, info.uid, info.flags);
+      return;
+    }
+
+    // Servers usually omit the UID from unsolicited FETCH responses; ask for it
+    const fetch = imap.seq.fetch(seqno, {});
+    fetch.on('message', (msg) => {
+      msg.once('attributes', (attrs) => applyServerFlags(account, folder, checkpoint.uidValidity, attrs.uid, attrs.flags));
+    });
+    fetch.once('error', (err: Error) => console.error('Flag fetch error:', err));
+  });
+
+  // EXPUNGE only carries a sequence number, so reconcile against the folder's remaining UIDs
+  let reconcileTimer: NodeJS.Timeout | undefined;
+  imap.on('expunge', () => {
+    clearTimeout(reconcileTimer);
+    reconcileTimer = setTimeout(() => reconcileExpunged(imap, account, folder, checkpoint), 1000);
+  });
+}
+
+function flagsToState(flags: string[] = []) {
+  return {
+    isRead: flags.includes('\\Seen'),
+    isFlagged: flags.includes('\\Flagged')
+  };
+}
+
+// Rows from before a UIDVALIDITY change share UIDs with different messages, so only current ones are matched
+export async function applyServerFlags(account: string, folder: string, uidValidity: number, uid: number, flags: string[]) {
+  try {
+    const state = flagsToState(flags);
+    const email = await Email.findOneAndUpdate(
+      {
+        account,
+        folder,
+        uidValidity,
+        uid,
+        $or: [{ isRead: { $ne: state.isRead } }, { isFlagged: { $ne: state.isFlagged } }]
+      },
+      { $set: state },
+      { new: true }
+    );
+    if (!email) return;
+
+    await indexEmail(email);
+    io.emit('email-updated', email);
+    console.log(`🚩 Server flags applied to ${email.subject.substring(0, 50)}: read=${state.isRead}, flagged=${state.isFlagged}`);
+  } catch (error) {
+    console.error('Failed to apply server flag change:', error);
+  }
+}
+
+export async function reconcileExpunged(imap: Imap, account: string, folder: string, checkpoint: SyncCheckpoint) {
+  try {
+    const { uidValidity } = checkpoint;
+    const lastUid = checkpoint.lastUid;
+
+    const remaining = await searchMailbox(imap, ['ALL']);
+    // Only UIDs from this UIDVALIDITY can be compared; rows from before a renumbering are re-keyed by the
+    // resync instead. Every UID up to the checkpoint (taken before the search) or the highest remaining one
+    // existed when the search ran, so a missing one was expunged; mail stored since then is left alone.
+    const gone = await Email.find({
+      account,
+      folder,
+      uidValidity,
+      uid: { $lte: Math.max(highestOf(remaining), lastUid), $nin: remaining }
     });
+    if (gone.length === 0) return;
+
+    await Email.deleteMany({ _id: { $in: gone.map(e => e._id) } });
+    for (const email of gone) {
+      await removeEmailFromIndex(email);
+    }
+    await removeEmailVectors(gone.map(e => e.id));
+
+    io.emit('emails-deleted', gone.map(e => e.id));
+    console.log(`🗑️ Removed ${gone.length} email(s) expunged on the server from ${account} (${folder})`);
+  } catch (error) {
+    console.error('Failed to reconcile expunged messages:', error);
+  }
+}
+
+// Run an operation against the mailbox holding an email: reuse the live IDLE session for that folder
+// when there is one (node-imap pauses IDLE for the command), otherwise open a temporary connection.
+async function withEmailMailbox<T>(email: IEmail, fn: (imap: Imap, uid: number) => Promise<T>): Promise<T> {
+  const account = await Account.findOne({ email: email.account }).select('+password');
+  if (!account) {
+    throw new Error(`Account ${email.account} is not configured`);
+  }
+
+  const sessions = imapConnections.get(account.id);
+  const live = sessions && [...sessions.values()].find(
+    imap => imap.state === 'authenticated' && openedPaths.get(imap) === email.folder
+  );
+
+  const run = async (imap: Imap) => {
+    const uid = await resolveUid(imap, email);
+    return fn(imap, uid);
+  };
+
+  if (live) return run(live);
+
+  return withTemporaryConnection(account, async (imap) => {
+    await openMailbox(imap, email.folder);
+    return run(imap);
   });
 }
 
-// Helper: map common Gmail labels to application categories
-function mapGmailLabelsToCategory(labels: string[] | undefined): 'Interested' | 'Meeting Booked' | 'Not Interested' | 'Spam' | 'Out of Office' | null {
-  if (!labels || !labels.length) return null;
+// Emails synced before UIDs were tracked are located by Message-ID
+async function resolveUid(imap: Imap, email: IEmail): Promise<number> {
+  if (email.uid) return email.uid;
+
+  const [uid] = await searchMailbox(imap, [['HEADER', 'MESSAGE-ID', email.messageId]]);
+  if (!uid) {
+    throw new Error(`Message ${email.messageId} not found in ${email.folder}`);
+  }
+  return uid;
+}
+
+function promisify(op: (cb: (err: Error) => void) => void): Promise<void> {
+  return new Promise((resolve, reject) => op(err => (err ? reject(err) : resolve())));
+}
+
+export function pushFlagChanges(email: IEmail, changes: { isRead?: boolean; isFlagged?: boolean }) {
+  return withEmailMailbox(email, async (imap, uid) => {
+    const add: string[] = [];
+    const remove: string[] = [];
+
+    if (changes.isRead !== undefined) (changes.isRead ? add : remove).push('\\Seen');
+    if (changes.isFlagged !== undefined) (changes.isFlagged ? add : remove).push('\\Flagged');
 
-  const normalized = labels.map(l => (l || '').toString().toLowerCase());
+    if (add.length) await promisify(cb => imap.addFlags(uid, add, cb));
+    if (remove.length) await promisify(cb => imap.delFlags(uid, remove, cb));
+  });
+}
 
-  // Map to valid categories only
-  if (normalized.some(l => l.includes('spam') || l.includes('junk'))) return 'Spam';
-  
-  // user/custom labels could directly map to app categories
-  if (normalized.some(l => l.includes('interested'))) return 'Interested';
-  
-  // Note: Gmail categories like Promotions, Social, Updates don't directly map to our categories
-  // They will be handled by AI categorization instead
-  
-  return null;
+export function moveRemoteMessage(email: IEmail, destination: string) {
+  return withEmailMailbox(email, (imap, uid) => promisify(cb => imap.move(uid, destination, cb)));
+}
+
+// Move to the account's Trash when it has one; otherwise (or when already in Trash) expunge for good
+export function deleteRemoteMessage(email: IEmail) {
+  return withEmailMailbox(email, async (imap, uid) => {
+    const trash = resolveMailbox(await listMailboxes(imap), 'trash');
+
+    if (trash && trash.path !== email.folder) {
+      await promisify(cb => imap.move(uid, trash.path, cb));
+      return;
+    }
+
+    await promisify(cb => imap.addFlags(uid, '\\Deleted', cb));
+    await promisify(cb => imap.expunge(uid, cb));
+  });
+}
+
+// Store a sent message in the account's Sent folder (most servers do not do this for SMTP submissions)
+export async function appendToSent(account: IAccount, raw: Buffer): Promise<string | undefined> {
+  const sessions = imapConnections.get(account.id);
+  const live = sessions && [...sessions.values()].find(imap => imap.state === 'authenticated');
+
+  const append = async (imap: Imap) => {
+    const sent = resolveMailbox(await listMailboxes(imap), 'sent');
+    if (!sent) return undefined;
+
+    await promisify(cb => imap.append(raw, { mailbox: sent.path, flags: ['Seen'] }, cb));
+    return sent.path;
+  };
+
+  return live ? append(live) : withTemporaryConnection(account, append);
+}
+
+// Resolve a folder name (path or alias such as "Archive") to the account's real mailbox path
+export async function resolveAccountFolder(accountEmail: string, folder: string): Promise<string | undefined> {
+  const account = await Account.findOne({ email: accountEmail }).select('+password');
+  if (!account) return undefined;
+
+  const sessions = imapConnections.get(account.id);
+  const live = sessions && [...sessions.values()].find(imap => imap.state === 'authenticated');
+  const mailboxes = live
+    ? await listMailboxes(live)
+    : await withTemporaryConnection(account, listMailboxes);
+
+  return resolveMailbox(mailboxes, folder)?.path;
+}
+
+function labelCategorization(labels: string[] | undefined): ICategorization {
+  return {
+    source: 'label',
+    confidence: 1,
+    rationale: `Gmail labels: ${(labels || []).join(', ')}`,
+    categorizedAt: new Date()
+  };
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Header values keyed by lower-cased name, for header-based categorization rules
+function collectHeaders(lines: Array<{ key: string; line: string }> | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const { key, line } of lines || []) {
+    const value = line.slice(line.indexOf(':') + 1).replace(/\r?\n[ \t]+/g, ' ').trim();
+    headers[key] = headers[key] ? `${headers[key]}\n${value}` : value;
+  }
+  return headers;
+}
+
+// Stable stand-in for mail without a Message-ID header, so fetching the same message again updates it
+export function fallbackMessageId(account: string, folder: string, uidValidity: number, uid: number): string {
+  return `<${uidValidity}.${uid}.${encodeURIComponent(folder)}.${account}>`;
+}
+
+// mailparser already derives text from HTML-only mail; attachment-only mail and calendar invites have neither
+function bodyText(parsed: { text?: string; html?: string | false }): string {
+  if (parsed.text) return parsed.text;
+  return typeof parsed.html === 'string' ? parsed.html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim() : '';
 }
 
 function fetchAndProcessEmails(
   imap: Imap,
   messageIds: number[],
   account: string,
-  callback?: () => void
+  folder: string,
+  uidValidity: number,
+  callback?: (err: Error | null, result: FetchResult) => void
 ) {
   const fetch = imap.fetch(messageIds, {
     bodies: '',
     struct: true
   });
 
+  // Processing is async; the callback waits for every message so checkpoints only move past handled mail
+  const pending: Promise<void>[] = [];
+  let highestUid = 0;
+  const failed: number[] = [];
+  let done = false;
+
+  const finish = (err: Error | null) => {
+    if (done) return;
+    done = true;
+    Promise.allSettled(pending).then(() => {
+      if (callback) callback(err, { highestUid, failed });
+    });
+  };
+
   fetch.on('message', (msg, seqno) => {
     let gmLabels: any[] | undefined = undefined;
+    let uid: number | undefined;
+    let flags: string[] = [];
+    let parsing: Promise<any> | undefined;
 
     msg.on('attributes', (attrs: any) => {
+      uid = attrs?.uid;
+      flags = attrs?.flags || [];
+      if (uid && uid > highestUid) highestUid = uid;
+
       // Gmail exposes labels under 'x-gm-labels'
       const raw = attrs && (attrs['x-gm-labels'] || attrs['X-GM-LABELS']);
       if (raw) {
@@ -148,35 +795,53 @@ function fetchAndProcessEmails(
       }
     });
 
-    msg.on('body', async (stream) => {
+    msg.on('body', (stream) => {
+      parsing = simpleParser(stream as any);
+    });
+
+    // Attributes and body can arrive in either order; both are available once the message ends
+    msg.once('end', () => {
+      pending.push(processMessage());
+    });
+
+    const processMessage = async () => {
       try {
-        const parsed: any = await simpleParser(stream as any);
+        const parsed: any = await parsing;
+        if (!parsed) return;
 
         // determine category from Gmail labels first (if available)
-        const labelCategory = mapGmailLabelsToCategory(gmLabels as string[] | undefined);
+        const labelCategory = await mapLabelsToCategory(gmLabels as string[] | undefined);
 
-        const messageId = parsed.messageId || `${account}-${Date.now()}-${seqno}`;
+        const messageId = parsed.messageId || fallbackMessageId(account, folder, uidValidity, uid ?? seqno);
         
         // Check if email already exists
         let email = await Email.findOne({ messageId });
-        
+        const isNew = !email;
+
         if (email) {
           // Email exists - update fields but preserve category if it already has one
           email.account = account;
-          email.folder = 'INBOX';
+          email.folder = folder;
+          email.uid = uid;
+          email.uidValidity = uidValidity;
+          Object.assign(email, flagsToState(flags));
           email.from = parsed.from?.text || 'unknown';
           email.to = parsed.to?.value?.map((t: any) => t.address) || [];
           email.subject = parsed.subject || '(No Subject)';
-          email.body = parsed.text || '';
+          email.body = bodyText(parsed);
           email.html = parsed.html || '';
           email.date = parsed.date || new Date();
+          email.inReplyTo = parsed.inReplyTo;
+          email.references = toArray(parsed.references);
+          email.headers = collectHeaders(parsed.headerLines);
           email.attachments = parsed.attachments?.map((a: any) => ({
             filename: a.filename || 'unknown',
             size: a.size || 0
           })) || [];
           // Only set category from labels if email doesn't have one yet
           if (!email.category && labelCategory) {
-            email.category = labelCategory as 'Interested' | 'Meeting Booked' | 'Not Interested' | 'Spam' | 'Out of Office';
+            email.category = labelCategory;
+            email.categorization = labelCategorization(gmLabels);
           }
           await email.save();
         } else {
@@ -184,148 +849,48 @@ function fetchAndProcessEmails(
           email = await Email.create({
             messageId,
             account,
-            folder: 'INBOX',
+            folder,
+            uid,
+            uidValidity,
             from: parsed.from?.text || 'unknown',
             to: parsed.to?.value?.map((t: any) => t.address) || [],
             subject: parsed.subject || '(No Subject)',
-            body: parsed.text || '',
+            body: bodyText(parsed),
             html: parsed.html || '',
             date: parsed.date || new Date(),
-            isRead: false,
-            isFlagged: false,
+            inReplyTo: parsed.inReplyTo,
+            references: toArray(parsed.references),
+            headers: collectHeaders(parsed.headerLines),
+            ...flagsToState(flags),
             attachments: parsed.attachments?.map((a: any) => ({
               filename: a.filename || 'unknown',
               size: a.size || 0
             })) || [],
             // set initial category to label-derived if present; otherwise left empty for AI
-            category: labelCategory || undefined
+            category: labelCategory || undefined,
+            categorization: labelCategory ? labelCategorization(gmLabels) : undefined
           });
         }
 
+        await assignThread(email);
+
         if (gmLabels && gmLabels.length) {
           console.log(`Labels for ${email.messageId}:`, gmLabels);
         }
 
-        // If we didn't get a category from labels, fallback to AI categorization
-        // Also check if email was just created (no category) or needs re-categorization
-        const hasCategory = email.category && email.category.trim() !== '';
-        console.log(`🔍 Checking category for email: ${email.subject.substring(0, 50)}, current category: ${email.category || 'none'}, hasCategory: ${hasCategory}`);
-        
-        if (!hasCategory) {
-          try {
-            console.log(`🤖 Attempting AI categorization for email: ${email.subject.substring(0, 50)}`);
-            const category = await categorizeEmail(email);
-            console.log(`📊 Categorization result: ${category || 'undefined'}`);
-            if (category) {
-              email.category = category;
-              await email.save();
-              // Reload email to ensure we have the latest data
-              const reloadedEmail = await Email.findById(email._id);
-              if (reloadedEmail) {
-                email = reloadedEmail;
-              }
-              console.log(`✅ Email categorized as: ${category}`);
-            } else {
-              console.warn(`⚠️ AI categorization returned no category for: ${email.subject.substring(0, 50)}`);
-              // Try fallback heuristics if AI didn't return a category
-              const subjectLower = (email.subject || '').toLowerCase();
-              const bodyLower = (email.body || '').toLowerCase();
-              const text = `${subjectLower} ${bodyLower}`;
-              
-              let fallbackCategory: string | undefined = undefined;
-              
-              // Use heuristics as fallback
-              if (text.includes('out of office') || text.includes('ooo') || text.includes('auto-reply')) {
-                fallbackCategory = 'Out of Office';
-              } else if (text.includes('meeting') || text.includes('schedule') || text.includes('calendar')) {
-                fallbackCategory = 'Meeting Booked';
-              } else if (text.includes('interested') || text.includes('learn more') || text.includes('pricing')) {
-                fallbackCategory = 'Interested';
-              } else if (text.includes('not interested') || text.includes('decline')) {
-                fallbackCategory = 'Not Interested';
-              } else if (text.includes('free') || text.includes('cash') || text.includes('promo') || 
-                         text.includes('discount') || text.includes('offer') || text.includes('deal') ||
-                         text.includes('unsubscribe')) {
-                fallbackCategory = 'Spam';
-              }
-              
-              if (fallbackCategory) {
-                email.category = fallbackCategory as 'Interested' | 'Meeting Booked' | 'Not Interested' | 'Spam' | 'Out of Office';
-                await email.save();
-                const reloadedEmail = await Email.findById(email._id);
-                if (reloadedEmail) {
-                  email = reloadedEmail;
-                }
-                console.log(`📧 Used fallback heuristics to categorize as: ${fallbackCategory}`);
-              } else {
-                console.warn(`⚠️ Could not categorize email even with fallback heuristics`);
-              }
-            }
-          } catch (aiErr) {
-            console.error('❌ AI categorization failed:', aiErr);
-            console.error('Error stack:', aiErr instanceof Error ? aiErr.stack : 'No stack trace');
-            
-            // Try fallback heuristics even if AI failed
-            try {
-              const subjectLower = (email.subject || '').toLowerCase();
-              const bodyLower = (email.body || '').toLowerCase();
-              const text = `${subjectLower} ${bodyLower}`;
-              
-              let fallbackCategory: string | undefined = undefined;
-              
-              if (text.includes('out of office') || text.includes('ooo')) {
-                fallbackCategory = 'Out of Office';
-              } else if (text.includes('meeting') || text.includes('schedule')) {
-                fallbackCategory = 'Meeting Booked';
-              } else if (text.includes('interested') || text.includes('learn more')) {
-                fallbackCategory = 'Interested';
-              } else if (text.includes('spam') || text.includes('unsubscribe') || text.includes('promo')) {
-                fallbackCategory = 'Spam';
-              }
-              
-              if (fallbackCategory) {
-                email.category = fallbackCategory as 'Interested' | 'Meeting Booked' | 'Not Interested' | 'Spam' | 'Out of Office';
-                await email.save();
-                const reloadedEmail = await Email.findById(email._id);
-                if (reloadedEmail) {
-                  email = reloadedEmail;
-                }
-                console.log(`📧 Used fallback heuristics after AI error to categorize as: ${fallbackCategory}`);
-              }
-            } catch (fallbackErr) {
-              console.error('❌ Fallback categorization also failed:', fallbackErr);
-            }
-          }
-        } else {
-          console.log(`📋 Email categorized from labels as: ${email.category}`);
-        }
-
-        // Index in Elasticsearch after categorization (so category is included)
-        if (email) {
-          await indexEmail(email);
-
-          // Send Slack notification if Interested
-          if (email.category === 'Interested') {
-            await sendSlackNotification(email);
-            await triggerWebhook(email);
-          }
-
-          // Emit real-time update
-          io.emit('new-email', email);
-
-          console.log(`✅ Processed: ${email.subject.substring(0, 50)} (category: ${email.category || 'Uncategorized'})`);
-        }
+        // Categorization, indexing and notifications run as queued jobs
+        await enqueueJob('categorize', { emailId: email.id, isNew });
       } catch (error) {
+        if (uid) failed.push(uid);
         console.error('Error processing email:', error);
       }
-    });
+    };
   });
 
   fetch.once('error', (err: Error) => {
     console.error('Fetch error:', err);
+    finish(err);
   });
 
-  fetch.once('end', () => {
-    if (callback) callback();
-  });
+  fetch.once('end', () => finish(null));
 }
\ No newline at end of file
@@ -0,0 +1,329 @@
+import Email, { IEmail } from '../models/Email';
+import Job from '../models/Job';
+import { enqueueJob } from './jobQueue';
+import { getLLMProvider } from './llmProvider';
+import {
+  EMAIL_INDEX_ALIAS,
+  EMAIL_INDEX_VERSION,
+  getElasticsearchClient,
+  createEmailIndex,
+  setBuildingIndex,
+  toIndexDocument,
+  versionOf
+} from './elasticsearchService';
+
+const BATCH_SIZE = 500;
+// Emails per embed job; one embeddings API call each
+const EMBED_BATCH_SIZE = 50;
+// Reconciliation runs on this schedule (RECONCILE_INTERVAL_MINUTES, 0 disables); it can also be started by hand
+const RECONCILE_INTERVAL_MINUTES = Number(process.env.RECONCILE_INTERVAL_MINUTES ?? 60);
+
+export interface ReindexState {
+  status: 'running' | 'completed' | 'failed';
+  reason: string;
+  index: string;
+  total: number;
+  indexed: number;
+  startedAt: Date;
+  finishedAt?: Date;
+  error?: string;
+}
+
+export interface ReconcileResult {
+  checked: number;
+  missing: number;
+  stale: number;
+  orphaned: number;
+  repaired: number;
+  // Emails queued for (re-)embedding because they have no vector from the current embedding model
+  embedQueued: number;
+  startedAt: Date;
+  finishedAt?: Date;
+  error?: string;
+}
+
+let reindexState: ReindexState | null = null;
+let lastReconcile: ReconcileResult | null = null;
+let reconciling = false;
+
+export function isReindexRunning(): boolean {
+  return reindexState?.status === 'running';
+}
+
+export function isReconcileRunning(): boolean {
+  return reconciling;
+}
+
+// Where the alias points and which mapping version built it; `legacy` is a plain "emails" index from before aliases
+export async function getIndexStatus() {
+  const client = getElasticsearchClient();
+  const [isAlias, exists] = await Promise.all([
+    client.indices.existsAlias({ name: EMAIL_INDEX_ALIAS }),
+    client.indices.exists({ index: EMAIL_INDEX_ALIAS })
+  ]);
+
+  let index: string | null = null;
+  let version: number | null = null;
+  if (isAlias) {
+    index = Object.keys(await client.indices.getAlias({ name: EMAIL_INDEX_ALIAS }))[0] || null;
+  } else if (exists) {
+    index = EMAIL_INDEX_ALIAS;
+  }
+  if (index) {
+    const mapping = await client.indices.getMapping({ index });
+    version = Number(mapping[index]?.mappings?._meta?.version) || 1;
+  }
+
+  const [documents, emails] = await Promise.all([
+    index ? client.count({ index: EMAIL_INDEX_ALIAS }).then(r => r.count) : 0,
+    Email.estimatedDocumentCount()
+  ]);
+
+  return {
+    alias: EMAIL_INDEX_ALIAS,
+    index,
+    legacy: exists && !isAlias,
+    version,
+    currentVersion: EMAIL_INDEX_VERSION,
+    documents,
+    emails,
+    reindex: reindexState,
+    reconcile: lastReconcile
+  };
+}
+
+// Rebuild in the background when the live index predates aliases or the current mapping version
+export async function upgradeEmailIndex() {
+  try {
+    const status = await getIndexStatus();
+    if (status.legacy || (status.version !== null && status.version < EMAIL_INDEX_VERSION)) {
+      console.log(`🔁 Search index is at version ${status.version}${status.legacy ? ' (no alias)' : ''}; rebuilding as version ${EMAIL_INDEX_VERSION}`);
+      startReindex('mapping upgrade');
+    }
+  } catch (error) {
+    console.error('❌ Could not check the search index version:', error);
+  }
+}
+
+async function bulkIndex(index: string, emails: IEmail[]): Promise<number> {
+  if (!emails.length) return 0;
+
+  const result = await getElasticsearchClient().bulk({
+    operations: emails.flatMap(email => [
+      { index: { _index: index, _id: email.messageId, ...versionOf(email) } },
+      toIndexDocument(email)
+    ])
+  });
+
+  // 409 means a newer copy is already there
+  const failures = result.items.filter(item => {
+    const status = item.index?.status || 0;
+    return status >= 300 && status !== 409;
+  });
+  if (failures.length) {
+    throw new Error(`${failures.length} document(s) failed to index: ${JSON.stringify(failures[0].index?.error)}`);
+  }
+  return emails.length;
+}
+
+// Walk MongoDB in _id order, one batch at a time
+async function forEachEmailBatch(filter: any, handle: (emails: IEmail[]) => Promise<void>) {
+  let lastId: any = null;
+  for (;;) {
+    const batch = await Email.find(lastId ? { ...filter, _id: { $gt: lastId } } : filter)
+      .sort({ _id: 1 })
+      .limit(BATCH_SIZE);
+    if (!batch.length) return;
+    await handle(batch);
+    lastId = batch[batch.length - 1]._id;
+  }
+}
+
+function startState(reason: string): ReindexState {
+  return { status: 'running', reason, index: '', total: 0, indexed: 0, startedAt: new Date() };
+}
+
+// Start a rebuild without waiting for it; the returned state is updated as it runs
+export function startReindex(reason: string): ReindexState {
+  if (reindexState?.status === 'running') return reindexState;
+
+  const state = startState(reason);
+  reindexState = state;
+  reindexEmails(state).catch(() => {
+    // Already recorded on the state
+  });
+  return state;
+}
+
+// Build a fresh index from MongoDB next to the live one, then point the alias at it in one atomic step.
+// Searches keep hitting the old index until the swap; live writes go to both meanwhile.
+export async function reindexEmails(state: ReindexState = startState('manual')): Promise<ReindexState> {
+  const client = getElasticsearchClient();
+  reindexState = state;
+
+  try {
+    state.index = await createEmailIndex(false);
+    // No refreshes while bulk loading; restored before the swap
+    await client.indices.putSettings({ index: state.index, settings: { refresh_interval: '-1' } });
+    setBuildingIndex(state.index);
+
+    state.total = await Email.estimatedDocumentCount();
+    console.log(`🔁 Reindexing ${state.total} email(s) into "${state.index}" (${state.reason})`);
+
+    await forEachEmailBatch({}, async (emails) => {
+      state.indexed += await bulkIndex(state.index, emails);
+    });
+
+    await client.indices.putSettings({ index: state.index, settings: { refresh_interval: '1s' } });
+    await client.indices.refresh({ index: state.index });
+
+    const previous = await swapAlias(state.index);
+
+    // Writes from other processes (e.g. this command running next to the server) only reached the old
+    // index; copy anything changed since the rebuild started
+    await forEachEmailBatch({ updatedAt: { $gte: state.startedAt } }, async (emails) => {
+      await bulkIndex(state.index, emails);
+    });
+
+    for (const index of previous) {
+      await client.indices.delete({ index }).catch(err => console.error(`Failed to delete old index "${index}":`, err));
+    }
+
+    state.status = 'completed';
+    console.log(`✅ Reindex complete: ${state.indexed} email(s) in "${state.index}"`);
+  } catch (error) {
+    state.status = 'failed';
+    state.error = error instanceof Error ? error.message : 'Unknown error';
+    console.error('❌ Reindex failed:', error);
+    if (state.index) {
+      await client.indices.delete({ index: state.index }).catch(() => undefined);
+    }
+    throw error;
+  } finally {
+    setBuildingIndex(null);
+    state.finishedAt = new Date();
+  }
+
+  return state;
+}
+
+// Point the alias at `index`, dropping a legacy concrete "emails" index in the same request.
+// Returns the indices the alias pointed at before, which the caller deletes.
+async function swapAlias(index: string): Promise<string[]> {
+  const client = getElasticsearchClient();
+  const isAlias = await client.indices.existsAlias({ name: EMAIL_INDEX_ALIAS });
+  const legacy = !isAlias && await client.indices.exists({ index: EMAIL_INDEX_ALIAS });
+  const previous = isAlias ? Object.keys(await client.indices.getAlias({ name: EMAIL_INDEX_ALIAS })) : [];
+
+  await client.indices.updateAliases({
+    actions: [
+      ...(legacy ? [{ remove_index: { index: EMAIL_INDEX_ALIAS } }] : []),
+      ...previous.map(old => ({ remove: { index: old, alias: EMAIL_INDEX_ALIAS } })),
+      { add: { index, alias: EMAIL_INDEX_ALIAS } }
+    ]
+  });
+  console.log(`🔀 Alias "${EMAIL_INDEX_ALIAS}" now points at "${index}"`);
+  return previous;
+}
+
+// Repair drift between MongoDB and the index: emails that are missing or older in the index are
+// (re)indexed, and documents whose email no longer exists are deleted
+export async function reconcileIndex(): Promise<ReconcileResult> {
+  const client = getElasticsearchClient();
+  const result: ReconcileResult = { checked: 0, missing: 0, stale: 0, orphaned: 0, repaired: 0, embedQueued: 0, startedAt: new Date() };
+  reconciling = true;
+
+  try {
+    await forEachEmailBatch({}, async (emails) => {
+      const { docs } = await client.mget({
+        index: EMAIL_INDEX_ALIAS,
+        ids: emails.map(e => e.messageId),
+        _source: ['updatedAt']
+      });
+
+      const repair = emails.filter((email, i) => {
+        const doc: any = docs[i];
+        if (!doc.found) {
+          result.missing++;
+          return true;
+        }
+        const indexedAt = doc._source?.updatedAt ? new Date(doc._source.updatedAt).getTime() : 0;
+        if (email.updatedAt && indexedAt < email.updatedAt.getTime()) {
+          result.stale++;
+          return true;
+        }
+        return false;
+      });
+
+      result.checked += emails.length;
+      result.repaired += await bulkIndex(EMAIL_INDEX_ALIAS, repair);
+    });
+
+    // Scan the index by messageId and drop documents MongoDB no longer has
+    let after: any[] | undefined;
+    for (;;) {
+      const page = await client.search({
+        index: EMAIL_INDEX_ALIAS,
+        size: BATCH_SIZE,
+        _source: false,
+        sort: [{ messageId: 'asc' }],
+        ...(after ? { search_after: after } : {})
+      });
+      const hits = page.hits.hits;
+      if (!hits.length) break;
+
+      const ids = hits.map(hit => hit._id as string);
+      const known = new Set(await Email.distinct('messageId', { messageId: { $in: ids } }));
+      const orphans = ids.filter(id => !known.has(id));
+      if (orphans.length) {
+        await client.bulk({ operations: orphans.map(id => ({ delete: { _index: EMAIL_INDEX_ALIAS, _id: id } })) });
+        result.orphaned += orphans.length;
+      }
+      after = hits[hits.length - 1].sort;
+    }
+
+    result.embedQueued = await queueMissingEmbeddings();
+
+    console.log(`🩺 Index reconciled: ${result.checked} checked, ${result.missing} missing, ${result.stale} stale, ${result.orphaned} orphaned, ${result.embedQueued} queued for embedding`);
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+    console.error('❌ Index reconciliation failed:', error);
+  } finally {
+    result.finishedAt = new Date();
+    lastReconcile = result;
+    reconciling = false;
+  }
+
+  return result;
+}
+
+// Emails without a vector, or with one from a different embedding model, get embed jobs. Skipped while
+// earlier embed jobs are still pending so a backlog is not queued twice.
+async function queueMissingEmbeddings(): Promise<number> {
+  if (await Job.exists({ stage: 'embed', status: { $in: ['queued', 'running'] } })) return 0;
+
+  const model = getLLMProvider().embeddingModel;
+  let queued = 0;
+  let lastId: any = null;
+  for (;;) {
+    const filter: any = { embeddedWith: { $ne: model } };
+    if (lastId) filter._id = { $gt: lastId };
+    const ids = (await Email.find(filter).sort({ _id: 1 }).limit(EMBED_BATCH_SIZE).select('_id')).map(e => e._id);
+    if (!ids.length) return queued;
+
+    await enqueueJob('embed', { emailIds: ids.map(String) });
+    queued += ids.length;
+    lastId = ids[ids.length - 1];
+  }
+}
+
+export function scheduleIndexReconciliation() {
+  if (RECONCILE_INTERVAL_MINUTES <= 0) return;
+
+  setInterval(() => {
+    // A rebuild re-copies everything anyway
+    if (reconciling || isReindexRunning()) return;
+    reconcileIndex();
+  }, RECONCILE_INTERVAL_MINUTES * 60 * 1000);
+  console.log(`🩺 Search index reconciliation every ${RECONCILE_INTERVAL_MINUTES} minute(s)`);
+}
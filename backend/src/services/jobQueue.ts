@@ -0,0 +1,177 @@
+import Job, { IJob, JobStage, JobStatus } from '../models/Job';
+
+type JobHandler = (payload: any, job: IJob) => Promise<void>;
+
+const STAGES: JobStage[] = ['ingest', 'categorize', 'index', 'notify', 'embed'];
+
+// Jobs of a stage run at most this many at a time in this process (JOB_CONCURRENCY_<STAGE> overrides)
+const DEFAULT_CONCURRENCY: Record<JobStage, number> = { ingest: 2, categorize: 3, index: 5, notify: 5, embed: 2 };
+
+const MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || 5;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+const POLL_INTERVAL_MS = 2000;
+// A running job's lease; renewed while its handler runs, so only jobs whose worker died outlive it
+const LEASE_MS = (Number(process.env.JOB_LEASE_SECONDS) || 60) * 1000;
+const UNLOCK = { lockedAt: 1, lockedUntil: 1 } as const;
+
+const handlers: Map<JobStage, JobHandler> = new Map();
+const running: Record<JobStage, number> = { ingest: 0, categorize: 0, index: 0, notify: 0, embed: 0 };
+const pumping: Set<JobStage> = new Set();
+// Jobs this process is running, keyed by id with the lockedAt that marks the claim as ours
+const claimed: Map<string, Date> = new Map();
+let started = false;
+
+function concurrency(stage: JobStage): number {
+  return Number(process.env[`JOB_CONCURRENCY_${stage.toUpperCase()}`]) || DEFAULT_CONCURRENCY[stage];
+}
+
+export function registerJobHandler(stage: JobStage, handler: JobHandler) {
+  handlers.set(stage, handler);
+}
+
+export async function enqueueJob(stage: JobStage, payload: any, options: { delayMs?: number } = {}): Promise<IJob> {
+  const job = await Job.create({
+    stage,
+    payload,
+    maxAttempts: MAX_ATTEMPTS,
+    runAt: new Date(Date.now() + (options.delayMs || 0))
+  });
+
+  // Start right away rather than waiting for the next poll
+  if (started && !options.delayMs) pump(stage);
+  return job;
+}
+
+export async function startJobWorkers() {
+  await requeueExpiredJobs();
+
+  started = true;
+  for (const stage of STAGES) {
+    setInterval(() => pump(stage), POLL_INTERVAL_MS);
+    pump(stage);
+  }
+  setInterval(renewLeases, LEASE_MS / 3);
+  setInterval(() => requeueExpiredJobs().catch(err => console.error('❌ Failed to requeue expired jobs:', err)), LEASE_MS);
+  console.log('⚙️ Job workers started');
+}
+
+// Jobs whose worker stopped renewing the lease (crash, restart, lost instance) go back to the queue; their
+// attempt already counted. Jobs from before leases existed only have lockedAt, so they get one lease from it.
+export async function requeueExpiredJobs(): Promise<number> {
+  const now = new Date();
+  const result = await Job.updateMany(
+    {
+      status: 'running',
+      $or: [
+        { lockedUntil: { $lt: now } },
+        { lockedUntil: { $exists: false }, lockedAt: { $lt: new Date(now.getTime() - LEASE_MS) } }
+      ]
+    },
+    { $set: { status: 'queued', runAt: now }, $unset: UNLOCK }
+  );
+  if (result.modifiedCount) {
+    console.log(`♻️ Requeued ${result.modifiedCount} interrupted job(s)`);
+  }
+  return result.modifiedCount;
+}
+
+function renewLeases() {
+  if (claimed.size === 0) return;
+  Job.updateMany(
+    { $or: [...claimed].map(([id, lockedAt]) => ({ _id: id, status: 'running', lockedAt })) },
+    { $set: { lockedUntil: new Date(Date.now() + LEASE_MS) } }
+  ).catch(err => console.error('❌ Failed to renew job leases:', err));
+}
+
+// Claim due jobs until the stage is at its concurrency limit
+async function pump(stage: JobStage) {
+  if (pumping.has(stage) || !handlers.has(stage)) return;
+  pumping.add(stage);
+
+  try {
+    while (running[stage] < concurrency(stage)) {
+      const now = new Date();
+      const job = await Job.findOneAndUpdate(
+        { stage, status: 'queued', runAt: { $lte: now } },
+        { $set: { status: 'running', lockedAt: now, lockedUntil: new Date(now.getTime() + LEASE_MS) }, $inc: { attempts: 1 } },
+        { sort: { runAt: 1 }, new: true }
+      );
+      if (!job) break;
+
+      running[stage]++;
+      claimed.set(job.id, now);
+      runJob(job, now).finally(() => {
+        claimed.delete(job.id);
+        running[stage]--;
+        pump(stage);
+      });
+    }
+  } catch (error) {
+    console.error(`❌ Failed to claim ${stage} jobs:`, error);
+  } finally {
+    pumping.delete(stage);
+  }
+}
+
+// Outcome updates only apply while the claim is still ours; if the lease lapsed, the job was requeued
+async function runJob(job: IJob, lockedAt: Date) {
+  const ours = { _id: job._id, status: 'running', lockedAt };
+  try {
+    await handlers.get(job.stage)!(job.payload, job);
+    await Job.updateOne(ours, { $set: { status: 'completed', completedAt: new Date() }, $unset: UNLOCK });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts >= job.maxAttempts) {
+      console.error(`💀 ${job.stage} job ${job.id} failed ${job.attempts} time(s), moved to dead letters: ${message}`);
+      await Job.updateOne(ours, { $set: { status: 'dead', lastError: message }, $unset: UNLOCK }).catch(err => console.error('Failed to dead-letter job:', err));
+      return;
+    }
+
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (job.attempts - 1), MAX_RETRY_DELAY_MS);
+    console.warn(`⚠️ ${job.stage} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms: ${message}`);
+    await Job.updateOne(
+      ours,
+      { $set: { status: 'queued', lastError: message, runAt: new Date(Date.now() + delay) }, $unset: UNLOCK }
+    ).catch(err => console.error('Failed to reschedule job:', err));
+  }
+}
+
+// Run a dead job, or one waiting out a retry delay, again now with a fresh set of attempts
+export async function retryJob(id: string): Promise<IJob | null> {
+  const job = await Job.findOneAndUpdate(
+    { _id: id, status: { $in: ['dead', 'queued'] } },
+    { $set: { status: 'queued', attempts: 0, runAt: new Date() }, $unset: UNLOCK },
+    { new: true }
+  );
+  if (job) pump(job.stage);
+  return job;
+}
+
+export async function retryDeadJobs(stage?: JobStage): Promise<number> {
+  const filter: any = { status: 'dead' };
+  if (stage) filter.stage = stage;
+
+  const result = await Job.updateMany(filter, {
+    $set: { status: 'queued', attempts: 0, runAt: new Date() }
+  });
+  (stage ? [stage] : STAGES).forEach(s => pump(s));
+  return result.modifiedCount;
+}
+
+// Job counts per stage and status, plus how many are running in this process
+export async function getJobStats() {
+  const counts = await Job.aggregate([
+    { $group: { _id: { stage: '$stage', status: '$status' }, count: { $sum: 1 } } }
+  ]);
+
+  const stats: Record<string, Record<JobStatus, number> & { active: number; concurrency: number }> = {};
+  for (const stage of STAGES) {
+    stats[stage] = { queued: 0, running: 0, completed: 0, dead: 0, active: running[stage], concurrency: concurrency(stage) };
+  }
+  for (const { _id, count } of counts) {
+    if (stats[_id.stage]) stats[_id.stage][_id.status as JobStatus] = count;
+  }
+  return stats;
+}
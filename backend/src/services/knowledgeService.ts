@@ -0,0 +1,182 @@
+import KnowledgeDocument, { IKnowledgeDocument, KnowledgeType } from '../models/KnowledgeDocument';
+import KnowledgeChunk from '../models/KnowledgeChunk';
+import { isDummyMode } from '../config/runtime';
+import { dummyKnowledge } from '../mock/dummyData';
+import { DEFAULT_KNOWLEDGE, KnowledgeDefinition } from '../config/defaultKnowledge';
+import { getLLMProvider } from './llmProvider';
+import { rankBySimilarity } from './vectorStore';
+
+// Chunks are roughly a paragraph or two: small enough to cite precisely, large enough to carry a whole answer
+const CHUNK_SIZE = 800;
+const CHUNK_OVERLAP = 100;
+const EMBED_BATCH_SIZE = 64;
+// Below this similarity a chunk is noise rather than context (loose, so the offline embedding still finds matches)
+const MIN_SCORE = 0.1;
+
+export interface KnowledgeSource {
+  documentId: string;
+  title: string;
+  type: KnowledgeType;
+  source?: string;
+  position: number;
+  text: string;
+  score: number;
+}
+
+interface LoadedChunk extends Omit<KnowledgeSource, 'score'> {
+  vector: number[];
+}
+
+// Split on paragraph breaks, packing paragraphs into chunks of up to CHUNK_SIZE characters. Longer paragraphs
+// are cut at sentence ends, and each such piece repeats the tail of the previous one for context.
+export function chunkText(text: string): string[] {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current) chunks.push(current);
+    current = '';
+  };
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length > CHUNK_SIZE) {
+      flush();
+      let rest = paragraph;
+      while (rest.length > CHUNK_SIZE) {
+        const window = rest.slice(0, CHUNK_SIZE);
+        const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '));
+        const wordEnd = window.lastIndexOf(' ');
+        // Always past the halfway mark, so every piece makes progress despite the overlap
+        const cut = sentenceEnd > CHUNK_SIZE / 2 ? sentenceEnd + 1 : wordEnd > CHUNK_SIZE / 2 ? wordEnd : CHUNK_SIZE;
+        chunks.push(rest.slice(0, cut).trim());
+        rest = rest.slice(Math.max(0, cut - CHUNK_OVERLAP));
+        // Start the overlap on a word boundary
+        rest = rest.slice(rest.indexOf(' ') + 1);
+      }
+      current = rest.trim();
+      continue;
+    }
+
+    if (current && current.length + paragraph.length + 2 > CHUNK_SIZE) flush();
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  flush();
+
+  return chunks;
+}
+
+// Chunk vectors for the current embedding model, held in memory; rebuilt after any knowledge change
+let cache: { model: string; chunks: LoadedChunk[] } | null = null;
+
+export function invalidateKnowledgeCache() {
+  cache = null;
+}
+
+async function loadDummyChunks(): Promise<LoadedChunk[]> {
+  const chunks = dummyKnowledge.flatMap(doc => chunkText(doc.content).map((text, position) => ({
+    documentId: doc._id,
+    title: doc.title,
+    type: doc.type,
+    source: doc.source,
+    position,
+    text
+  })));
+  const vectors = await getLLMProvider().embed(chunks.map(chunk => chunk.text));
+  return chunks.map((chunk, i) => ({ ...chunk, vector: vectors[i] }));
+}
+
+// Chunks without a vector from the current model (new, or embedded by a previous model) are embedded here
+async function loadChunks(): Promise<LoadedChunk[]> {
+  const llm = getLLMProvider();
+  if (cache?.model === llm.embeddingModel) return cache.chunks;
+
+  if (isDummyMode) {
+    cache = { model: llm.embeddingModel, chunks: await loadDummyChunks() };
+    return cache.chunks;
+  }
+
+  const [documents, chunks] = await Promise.all([
+    KnowledgeDocument.find().select('title type source'),
+    KnowledgeChunk.find().select('+embedding').sort({ document: 1, position: 1 })
+  ]);
+  const byId = new Map(documents.map(doc => [doc.id, doc]));
+
+  const stale = chunks.filter(chunk => chunk.embedding?.model !== llm.embeddingModel);
+  for (let i = 0; i < stale.length; i += EMBED_BATCH_SIZE) {
+    const batch = stale.slice(i, i + EMBED_BATCH_SIZE);
+    const vectors = await llm.embed(batch.map(chunk => chunk.text));
+    await KnowledgeChunk.bulkWrite(batch.map((chunk, j) => ({
+      updateOne: {
+        filter: { _id: chunk._id },
+        update: { $set: { embedding: { model: llm.embeddingModel, vector: vectors[j] } } }
+      }
+    })));
+    batch.forEach((chunk, j) => { chunk.embedding = { model: llm.embeddingModel, vector: vectors[j] }; });
+  }
+  if (stale.length) console.log(`📚 Embedded ${stale.length} knowledge chunk(s) with ${llm.embeddingModel}`);
+
+  cache = {
+    model: llm.embeddingModel,
+    chunks: chunks
+      .filter(chunk => byId.has(String(chunk.document)))
+      .map(chunk => {
+        const doc = byId.get(String(chunk.document))!;
+        return {
+          documentId: doc.id,
+          title: doc.title,
+          type: doc.type,
+          source: doc.source,
+          position: chunk.position,
+          text: chunk.text,
+          vector: chunk.embedding!.vector
+        };
+      })
+  };
+  return cache.chunks;
+}
+
+// The knowledge chunks most relevant to `text`, best first
+export async function retrieveKnowledge(
+  text: string,
+  options: { topK?: number; types?: KnowledgeType[] } = {}
+): Promise<KnowledgeSource[]> {
+  const chunks = (await loadChunks()).filter(chunk => !options.types?.length || options.types.includes(chunk.type));
+  if (!chunks.length) return [];
+
+  const [vector] = await getLLMProvider().embed([text]);
+  const records = chunks.map((chunk, i) => ({ id: String(i), account: '', vector: chunk.vector }));
+
+  return rankBySimilarity(vector, records, options.topK ?? 4)
+    .filter(match => match.score >= MIN_SCORE)
+    .map(match => {
+      const { vector: _vector, ...chunk } = chunks[Number(match.id)];
+      return { ...chunk, score: match.score };
+    });
+}
+
+// (Re)write the chunks of a saved document. Embedding happens on the next retrieval, so an unavailable
+// embeddings API does not block uploads.
+export async function rechunkDocument(doc: IKnowledgeDocument) {
+  const chunks = chunkText(doc.content);
+  await KnowledgeChunk.deleteMany({ document: doc._id });
+  await KnowledgeChunk.insertMany(chunks.map((text, position) => ({ document: doc._id, position, text })));
+  if (doc.chunkCount !== chunks.length) {
+    doc.chunkCount = chunks.length;
+    await doc.save();
+  }
+  invalidateKnowledgeCache();
+}
+
+export async function removeDocumentChunks(doc: IKnowledgeDocument) {
+  await KnowledgeChunk.deleteMany({ document: doc._id });
+  invalidateKnowledgeCache();
+}
+
+export async function seedDefaultKnowledge() {
+  if (await KnowledgeDocument.estimatedDocumentCount() > 0) return;
+  for (const definition of DEFAULT_KNOWLEDGE) {
+    await rechunkDocument(await KnowledgeDocument.create(definition as KnowledgeDefinition));
+  }
+  console.log(`📚 Seeded ${DEFAULT_KNOWLEDGE.length} default knowledge document(s)`);
+}
@@ -0,0 +1,237 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { isDummyMode } from '../config/runtime';
+
+export type LLMProviderName = 'openai' | 'azure' | 'openai-compatible' | 'stub';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  // Deterministic answer returned by the stub provider, so callers keep working offline
+  offline?: () => string;
+  // Aborts the request, e.g. when the client that asked for it disconnects
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  // Vectors from different embedding models are not comparable, so stored vectors record this name
+  embeddingModel: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+  // The same completion, yielded as text deltas while it is generated
+  stream(messages: ChatMessage[], options?: CompletionOptions): AsyncIterable<string>;
+  // One unit-length vector per input text
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const PROVIDERS: LLMProviderName[] = ['openai', 'azure', 'openai-compatible', 'stub'];
+
+let provider: LLMProvider | null = null;
+
+// The provider is chosen once from LLM_PROVIDER; dummy mode defaults to the stub so nothing leaves the machine
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProvider();
+    console.log(`🧠 LLM provider: ${provider.name} (${provider.model}, embeddings: ${provider.embeddingModel})`);
+  }
+  return provider;
+}
+
+function createProvider(): LLMProvider {
+  const requested = (process.env.LLM_PROVIDER || (isDummyMode ? 'stub' : 'openai')).toLowerCase() as LLMProviderName;
+
+  if (!PROVIDERS.includes(requested)) {
+    console.error(`❌ Unknown LLM_PROVIDER "${requested}". Expected one of: ${PROVIDERS.join(', ')}. Using stub.`);
+    return createStubProvider();
+  }
+
+  switch (requested) {
+    case 'openai': {
+      const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        console.warn('⚠️ OPENAI_API_KEY is not set - using the offline stub provider');
+        return createStubProvider();
+      }
+      const model = process.env.LLM_MODEL || process.env.OPENAI_MODEL || 'gpt-3.5-turbo';
+      const client = new OpenAI({ apiKey });
+      return createOpenAIProvider('openai', client, model, {
+        client,
+        model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small'
+      });
+    }
+
+    case 'azure': {
+      const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+      const apiKey = process.env.AZURE_OPENAI_API_KEY || process.env.LLM_API_KEY;
+      // Azure routes requests by deployment name rather than model name
+      const deployment = process.env.AZURE_OPENAI_DEPLOYMENT || process.env.LLM_MODEL;
+      if (!endpoint || !apiKey || !deployment) {
+        console.warn('⚠️ AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY and AZURE_OPENAI_DEPLOYMENT are required - using the offline stub provider');
+        return createStubProvider();
+      }
+      const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2024-06-01';
+      const client = new AzureOpenAI({ endpoint, apiKey, deployment, apiVersion });
+      // Embeddings need their own deployment; without one, fall back to offline embeddings
+      const embeddingDeployment = process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT;
+      return createOpenAIProvider('azure', client, deployment, embeddingDeployment ? {
+        client: new AzureOpenAI({ endpoint, apiKey, deployment: embeddingDeployment, apiVersion }),
+        model: embeddingDeployment
+      } : undefined);
+    }
+
+    case 'openai-compatible': {
+      const baseURL = process.env.LLM_BASE_URL;
+      const model = process.env.LLM_MODEL;
+      if (!baseURL || !model) {
+        console.warn('⚠️ LLM_BASE_URL and LLM_MODEL are required for openai-compatible - using the offline stub provider');
+        return createStubProvider();
+      }
+      // Local servers (Ollama, llama.cpp, vLLM) usually ignore the key, but the client requires one
+      const client = new OpenAI({ baseURL, apiKey: process.env.LLM_API_KEY || 'not-needed' });
+      const embeddingModel = process.env.LLM_EMBEDDING_MODEL;
+      return createOpenAIProvider('openai-compatible', client, model, embeddingModel ? { client, model: embeddingModel } : undefined);
+    }
+
+    default:
+      return createStubProvider();
+  }
+}
+
+// OpenAI, Azure OpenAI and compatible servers all speak the chat completions and embeddings APIs
+function createOpenAIProvider(
+  name: LLMProviderName,
+  client: OpenAI,
+  model: string,
+  embeddings?: { client: OpenAI; model: string }
+): LLMProvider {
+  if (!embeddings) {
+    console.warn(`⚠️ No embedding model configured for ${name} - using offline embeddings`);
+  }
+
+  return {
+    name,
+    model,
+    embeddingModel: embeddings?.model || STUB_EMBEDDING_MODEL,
+    async embed(texts) {
+      if (!embeddings) return texts.map(stubEmbedding);
+      const response = await embeddings.client.embeddings.create({ model: embeddings.model, input: texts });
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => normalize(item.embedding));
+    },
+    async complete(messages, options = {}) {
+      const response = await client.chat.completions.create({
+        model,
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens
+      }, { signal: options.signal });
+      return response.choices[0]?.message?.content?.trim() || '';
+    },
+    async *stream(messages, options = {}) {
+      const stream = await client.chat.completions.create({
+        model,
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        stream: true
+      }, { signal: options.signal });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  };
+}
+
+const STUB_EMBEDDING_DIMENSIONS = 512;
+const STUB_EMBEDDING_MODEL = `stub-hash-${STUB_EMBEDDING_DIMENSIONS}`;
+// Words too common to say anything about what a text is about
+const STOP_WORDS = new Set((
+  'a an and are as at be but by can do does for from has have how i if in is it me my of on or our so that the ' +
+  'their them there they this to us was we what when which who will with would you your'
+).split(' '));
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length ? vector.map(v => v / length) : vector;
+}
+
+// Crude stemming so "pricing", "priced" and "price" (or "seat" and "seats") land in the same bucket
+function stem(word: string): string {
+  return word.length > 4 ? word.replace(/(ing|ed|es|s|e)$/, '') : word;
+}
+
+// Offline embedding: hashes words and adjacent word pairs into a fixed number of buckets. It only captures
+// shared vocabulary, not meaning, but keeps semantic search working without an API key.
+function stubEmbedding(text: string): number[] {
+  const vector = new Array<number>(STUB_EMBEDDING_DIMENSIONS).fill(0);
+  const words = (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(word => !STOP_WORDS.has(word)).map(stem);
+  const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+  for (const feature of features) {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      hash = Math.imul(hash ^ feature.charCodeAt(i), 0x01000193);
+    }
+    vector[(hash >>> 0) % STUB_EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+  }
+  return normalize(vector);
+}
+
+const STUB_STREAM_DELAY_MS = 20;
+
+function createStubProvider(): LLMProvider {
+  return {
+    name: 'stub',
+    model: 'stub',
+    embeddingModel: STUB_EMBEDDING_MODEL,
+    async embed(texts) {
+      return texts.map(stubEmbedding);
+    },
+    async complete(messages, options = {}) {
+      if (options.offline) return options.offline();
+      const lastUser = [...messages].reverse().find(m => m.role === 'user');
+      return `[stub] ${(lastUser?.content || '').substring(0, 200)}`;
+    },
+    // Word by word with a short pause, so streaming clients can be tried offline
+    async *stream(messages, options = {}) {
+      const text = await this.complete(messages, options);
+      for (const word of text.match(/\S+\s*|\s+/g) || []) {
+        if (options.signal?.aborted) return;
+        await new Promise(resolve => setTimeout(resolve, STUB_STREAM_DELAY_MS));
+        yield word;
+      }
+    }
+  };
+}
+
+// Map provider SDK errors onto messages that do not assume which vendor is configured
+export function describeLLMError(error: any): { status: number; message: string } {
+  const name = getLLMProvider().name;
+
+  if (error?.status === 429 || error?.code === 'insufficient_quota' || error?.error?.type === 'insufficient_quota') {
+    return { status: 429, message: `LLM provider (${name}) quota exceeded or rate limited. Check the provider's billing and limits.` };
+  }
+  if (error?.status === 401 || error?.code === 'invalid_api_key') {
+    return { status: 401, message: `Invalid API key for LLM provider (${name}). Check LLM_API_KEY / OPENAI_API_KEY / AZURE_OPENAI_API_KEY.` };
+  }
+  if (error?.status === 404 || error?.message?.includes('does not exist')) {
+    return { status: 404, message: `Model "${getLLMProvider().model}" not found or not accessible on ${name}. Check LLM_MODEL.` };
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return { status: 502, message: `Could not reach the LLM provider (${name}). Check LLM_BASE_URL / AZURE_OPENAI_ENDPOINT.` };
+  }
+  return { status: 500, message: error instanceof Error ? error.message : 'Unknown LLM error' };
+}
+
+// Rate limits, provider outages and network failures are worth retrying later; bad keys and models are not
+export function isTransientLLMError(error: any): boolean {
+  return error?.status === 429 || error?.status >= 500 || error instanceof OpenAI.APIConnectionError;
+}
@@ -0,0 +1,74 @@
+// Newest-first listings are paged with an opaque cursor holding the last item's sort values
+// (date plus a unique tiebreaker), so pages stay stable while new mail arrives.
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
+}
+
+export type CursorValues = [number, string];
+
+export const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export function parsePageSize(limit: unknown): number {
+  const size = Number(limit) || DEFAULT_PAGE_SIZE;
+  return Math.min(Math.max(1, Math.floor(size)), MAX_PAGE_SIZE);
+}
+
+export function encodeCursor(values: CursorValues): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+// Returns undefined when there is no cursor (first page) and null when it is malformed
+export function decodeCursor(cursor: unknown): CursorValues | undefined | null {
+  if (cursor === undefined || cursor === '') return undefined;
+
+  try {
+    const values = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (Array.isArray(values) && values.length === 2 && Number.isFinite(values[0]) && typeof values[1] === 'string') {
+      return values as CursorValues;
+    }
+  } catch {
+    // Not base64 JSON
+  }
+  return null;
+}
+
+// Mongo condition for "strictly after the cursor" in { date: -1, [tieField]: -1 } order.
+// `toTie` converts the stored tiebreaker back, e.g. into an ObjectId for _id.
+export function mongoAfterCursor(cursor: CursorValues, tieField: string, toTie: (value: string) => any = v => v): any {
+  const [time, tie] = cursor;
+  return {
+    $or: [
+      { date: { $lt: new Date(time) } },
+      { date: new Date(time), [tieField]: { $lt: toTie(tie) } }
+    ]
+  };
+}
+
+// The next cursor, or null when this page was the last one
+export function nextCursorFor<T>(items: T[], size: number, valuesOf: (item: T) => CursorValues): string | null {
+  if (items.length < size) return null;
+  return encodeCursor(valuesOf(items[items.length - 1]));
+}
+
+// Same ordering and cursor semantics over an in-memory list (dummy mode)
+export function paginateInMemory<T extends { date?: any; _id?: string }>(
+  items: T[],
+  cursor: CursorValues | undefined,
+  size: number
+): Page<T> {
+  const valuesOf = (item: T): CursorValues => [new Date(item.date).getTime(), String(item._id)];
+  const compare = (a: CursorValues, b: CursorValues) => (b[0] - a[0]) || (b[1] < a[1] ? -1 : b[1] > a[1] ? 1 : 0);
+
+  const sorted = [...items].sort((a, b) => compare(valuesOf(a), valuesOf(b)));
+  const remaining = cursor ? sorted.filter(item => compare(valuesOf(item), cursor) > 0) : sorted;
+  const page = remaining.slice(0, size);
+
+  return {
+    items: page,
+    nextCursor: remaining.length > size ? encodeCursor(valuesOf(page[page.length - 1])) : null,
+    total: items.length
+  };
+}
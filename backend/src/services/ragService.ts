@@ -1,143 +1,357 @@
-import OpenAI from 'openai';
 import { IEmail } from '../models/Email';
-import { isDummyMode } from '../config/runtime';
+import { IReplyProfile } from '../models/Account';
+import { getLLMProvider, ChatMessage, CompletionOptions } from './llmProvider';
+import { retrieveKnowledge, KnowledgeSource } from './knowledgeService';
+import { getReplyProfile, findForbiddenPhrases } from './replyProfileService';
 
-let openaiClient: OpenAI | null = null;
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Knowledge chunks put in front of the model for each reply
+const CONTEXT_CHUNKS = 4;
+// Each variant is a separate completion, so this bounds the cost of one request
+const MAX_VARIANTS = 3;
+
+export type ReplyTone = 'formal' | 'casual' | 'short';
+export type ReplyIntent = 'book_meeting' | 'answer_question' | 'decline';
+
+const TONES: Record<ReplyTone, string> = {
+  formal: 'formal and polished; no slang or exclamation marks',
+  casual: 'casual and conversational, like a colleague writing',
+  short: 'brief: three sentences at most before the signature'
+};
+
+const INTENTS: Record<ReplyIntent, string> = {
+  book_meeting: 'Steer towards booking a meeting and include the meeting booking link',
+  answer_question: 'Focus on answering their questions; only offer the meeting link if they ask for a call',
+  decline: 'Politely decline: thank them, say it is not a fit right now and leave the door open; do not push a meeting'
+};
+
+// Requested on top of the account's reply profile; a tone given here replaces the profile's tone
+export interface ReplyOptions {
+  tone?: ReplyTone;
+  intent?: ReplyIntent;
+  // Free text, e.g. "German" or "Brazilian Portuguese"
+  language?: string;
+  variants: number;
+}
+
+// A retrieved knowledge chunk as shown to the model, numbered so the reply can cite it as [n]
+export interface Citation extends KnowledgeSource {
+  n: number;
+  // Whether any of the variants refers to it
+  cited: boolean;
+}
+
+export interface ReplyVariant {
+  reply: string;
+  // Problems a person should look at before sending, e.g. a forbidden phrase the model kept using
+  warnings: string[];
+  // Numbers of the sources this variant cites
+  cited: number[];
+}
+
+export interface SuggestedReply {
+  // The first variant, for clients that show a single draft
+  reply: string;
+  warnings: string[];
+  variants: ReplyVariant[];
+  sources: Citation[];
+  options: ReplyOptions;
+}
+
+// Callbacks for streaming drafts while they are generated
+export interface ReplyStreamHandlers {
+  // Before any text; `cited` is not known yet
+  onSources(sources: Citation[]): void;
+  onToken(variant: number, text: string): void;
+  // The finished variant. Enforcing the profile (signature, forbidden phrases) can change the streamed text.
+  onVariant(variant: number, result: ReplyVariant): void;
+  // Stops generation, e.g. when the client goes away
+  signal: AbortSignal;
+}
+
+interface ReplyContext {
+  email: IEmail;
+  senderName: string;
+  subject: string;
+  body: string;
+  profile: IReplyProfile;
+  sources: KnowledgeSource[];
+}
+
+// Read reply options from a query string or body; returns an error message for invalid values
+export function parseReplyOptions(input: any): ReplyOptions | string {
+  const options: ReplyOptions = { variants: 1 };
+
+  if (input?.tone) {
+    if (!Object.keys(TONES).includes(input.tone)) return `tone must be one of: ${Object.keys(TONES).join(', ')}`;
+    options.tone = input.tone;
   }
-  return openaiClient;
+  if (input?.intent) {
+    if (!Object.keys(INTENTS).includes(input.intent)) return `intent must be one of: ${Object.keys(INTENTS).join(', ')}`;
+    options.intent = input.intent;
+  }
+  if (input?.language) {
+    const language = String(input.language).trim();
+    if (language.length > 40 || !/^[\p{L} ()-]+$/u.test(language)) return 'language must be a language name, e.g. "German"';
+    options.language = language;
+  }
+  if (input?.variants !== undefined && input.variants !== '') {
+    const variants = Number(input.variants);
+    if (!Number.isInteger(variants) || variants < 1 || variants > MAX_VARIANTS) {
+      return `variants must be a whole number from 1 to ${MAX_VARIANTS}`;
+    }
+    options.variants = variants;
+  }
+
+  return options;
 }
 
-const CONTEXT_DATA = {
-  product: 'ReachInbox AI Email Platform',
-  agenda: 'We help businesses automate cold outreach and lead generation',
-  meetingLink: 'https://cal.com/reachinbox/meeting'
-};
+function formatSources(sources: KnowledgeSource[]): string {
+  if (!sources.length) return '(No relevant knowledge base entries were found.)';
+  return sources
+    .map((source, i) => `[${i + 1}] ${source.title} (${source.type})\n${source.text}`)
+    .join('\n\n');
+}
+
+const OFFLINE_OPENINGS = [
+  (subject: string) => `Thanks for reaching out about ${subject}!`,
+  (subject: string) => `Great to hear from you regarding ${subject}.`,
+  (subject: string) => `I appreciate you getting in touch about ${subject}.`
+];
+
+// Without an LLM: acknowledge the email and quote the best match, with its citation. Tone, intent and the
+// variant number change the wording; the language option needs a model.
+function offlineReply(context: ReplyContext, options: ReplyOptions, variant: number): string {
+  const { senderName, subject, sources, profile } = context;
+  const best = sources[0];
+  const greeting = options.tone === 'formal' ? `Dear ${senderName},` : options.tone === 'casual' ? `Hey ${senderName},` : `Hi ${senderName},`;
+  const opening = OFFLINE_OPENINGS[variant % OFFLINE_OPENINGS.length](subject);
+
+  if (options.intent === 'decline') {
+    return [
+      greeting,
+      `${opening} After looking into it, this isn't a fit for us right now, but we'd be glad to reconnect in the future.`,
+      profile.signature
+    ].join('\n\n');
+  }
+
+  const answer = best
+    ? `${best.text.substring(0, 300)}${best.text.length > 300 ? '…' : ''} [1]`
+    : `We'd be happy to share more about ${profile.productName} and how it can help your team.`;
+  const meeting = options.intent === 'answer_question'
+    ? ''
+    : profile.meetingLink ? `You can pick a convenient time to chat here: ${profile.meetingLink}` : 'Let me know a time that works for a quick call.';
+
+  return [greeting, opening, options.tone === 'short' ? '' : answer, meeting, profile.signature]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function profileInstructions(profile: IReplyProfile, options: ReplyOptions): string {
+  return [
+    `Product: ${profile.productName} – ${profile.productDescription}`,
+    profile.meetingLink && `Meeting booking link: ${profile.meetingLink}`,
+    `Tone: ${options.tone ? TONES[options.tone] : profile.tone}`,
+    options.language && `Language: write the reply in ${options.language}`,
+    profile.forbiddenPhrases.length && `Never use these words or phrases: ${profile.forbiddenPhrases.map(p => `"${p}"`).join(', ')}`,
+    `End the reply with exactly this signature:\n${profile.signature}`
+  ].filter(Boolean).join('\n');
+}
+
+// The signature must be exact; models tend to paraphrase or drop it
+export function ensureSignature(reply: string, signature: string): string {
+  if (!signature || reply.includes(signature.trim())) return reply;
+  return `${reply.trimEnd()}\n\n${signature}`;
+}
 
-export async function generateSuggestedReply(email: IEmail): Promise<string> {
+async function loadReplyContext(email: IEmail): Promise<ReplyContext> {
   // Extract sender name from email address
   const senderName = email.from?.split('<')[0]?.trim() || email.from?.split('@')[0] || 'there';
-  const emailBody = email.body || email.html || '';
-  const emailSubject = email.subject || '(No Subject)';
+  const body = email.body || email.html || '';
+  const subject = email.subject || '(No Subject)';
 
-  const prompt = `Based on the following context and email, generate a professional reply.
+  const [profile, sources] = await Promise.all([
+    getReplyProfile(email.account),
+    retrieveKnowledge(`${subject}\n${body.substring(0, 2000)}`, { topK: CONTEXT_CHUNKS })
+  ]);
+  console.log(`📚 Retrieved ${sources.length} knowledge chunk(s): ${sources.map(s => s.title).join(', ') || 'none'}`);
 
-Context:
-Product: ${CONTEXT_DATA.product}
-Agenda: ${CONTEXT_DATA.agenda}
-Meeting booking link: ${CONTEXT_DATA.meetingLink}
+  return { email, senderName, subject, body, profile, sources };
+}
+
+// System prompt plus the email and its context: the conversation every draft and rewrite starts from
+function replyMessages(context: ReplyContext, options: ReplyOptions): ChatMessage[] {
+  const { email, subject, body, profile, sources } = context;
+
+  const prompt = `Based on the following sender profile, knowledge base excerpts and email, generate a reply.
+
+Sender profile:
+${profileInstructions(profile, options)}
+
+Knowledge base:
+${formatSources(sources)}
 
 Email received:
 From: ${email.from}
-Subject: ${emailSubject}
-Body: ${emailBody.substring(0, 1000)}
+Subject: ${subject}
+Body: ${body.substring(0, 1000)}
 
-Generate a professional email reply that:
+Generate an email reply that:
 1. Acknowledges their message and shows understanding
-2. Provides relevant information about ${CONTEXT_DATA.product} based on their inquiry
-3. Includes the meeting booking link (${CONTEXT_DATA.meetingLink}) if they seem interested
-4. Is professional, friendly, and concise (2-3 paragraphs max)
-5. Addresses any specific questions or concerns they mentioned
-6. Uses a natural, conversational tone
+2. Answers their questions using only facts from the knowledge base; never invent prices, features or links
+3. Cites the excerpt behind each factual claim as [n], e.g. "volume discounts start at 25 seats [2]"
+4. ${options.intent ? INTENTS[options.intent] : 'Includes the meeting booking link if they seem interested'}
+5. Says you will follow up when the knowledge base does not cover something they asked
+6. Follows the tone above and is concise (2-3 paragraphs max)
 
 Reply:`;
 
-  try {
-    console.log(`🤖 Generating suggested reply for email: ${emailSubject.substring(0, 50)}`);
-    
-    // Only use dummy mode if actually in dummy mode
-    if (isDummyMode) {
-      console.log('📝 Using dummy mode for reply generation');
-      // Generate a more personalized dummy reply
-      const personalizedReply = `Hi ${senderName},\n\nThanks for reaching out about ${emailSubject}!\n\nWe'd be happy to share more about ReachInbox and how it can help your team automate outreach and lead generation. Our platform makes it easy to manage email campaigns and track engagement.\n\nYou can pick a convenient time to chat here: ${CONTEXT_DATA.meetingLink}\n\nLooking forward to connecting!\n\nBest regards,\nThe ReachInbox Team`;
-      return personalizedReply;
-    }
+  return [
+    {
+      role: 'system',
+      content: `You are a helpful sales assistant writing email replies on behalf of ${profile.productName}. Help potential customers understand the product and encourage them to book a meeting. Only state facts found in the provided knowledge base and cite them.`
+    },
+    { role: 'user', content: prompt }
+  ];
+}
 
-    // Validate OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('❌ OPENAI_API_KEY is not set - cannot generate AI reply');
-      // Return a basic template instead of throwing error
-      return `Hi ${senderName},\n\nThank you for your email regarding "${emailSubject}".\n\nWe appreciate you reaching out and would be happy to discuss how ReachInbox can help your business. Please feel free to schedule a time that works for you: ${CONTEXT_DATA.meetingLink}\n\nBest regards,\nThe ReachInbox Team`;
-    }
+// Stream a completion through `onToken`, returning the whole text
+async function streamCompletion(messages: ChatMessage[], options: CompletionOptions, onToken: (text: string) => void): Promise<string> {
+  let text = '';
+  for await (const delta of getLLMProvider().stream(messages, options)) {
+    text += delta;
+    onToken(delta);
+  }
+  // The stub stops quietly when aborted; make that an error like the SDK's
+  options.signal?.throwIfAborted();
+  return text.trim();
+}
 
-    // Use configurable model, default to gpt-3.5-turbo (more accessible)
-    const model = process.env.OPENAI_MODEL || 'gpt-3.5-turbo';
-    
-    // Validate model name - check for common invalid models
-    const validModels = ['gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo-preview', 'gpt-4-turbo', 'gpt-4o', 'gpt-4o-mini'];
-    if (!validModels.includes(model.toLowerCase())) {
-      const errorMsg = `Invalid model "${model}". Valid models are: ${validModels.join(', ')}. Please check your OPENAI_MODEL environment variable.`;
-      console.error(`❌ ${errorMsg}`);
-      throw new Error(errorMsg);
-    }
-    
-    console.log(`🔗 Calling OpenAI API for reply generation with model: ${model}...`);
-    
-    const response = await getOpenAI().chat.completions.create({
-      model: model,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful sales assistant for ReachInbox, an AI email platform. Generate professional, friendly, and concise email replies that help potential customers understand the product and encourage them to book a meeting.'
-        },
-        { role: 'user', content: prompt }
-      ],
-      temperature: 0.7,
-      max_tokens: 400
-    });
-
-    const reply = response.choices[0]?.message?.content?.trim();
-    
-    if (!reply) {
-      console.warn('⚠️ OpenAI returned empty reply');
-      throw new Error('Empty reply from OpenAI');
-    }
+// Run one completion (streamed when `onToken` is given) and enforce the profile on the result
+async function completeVariant(
+  context: ReplyContext,
+  messages: ChatMessage[],
+  options: CompletionOptions,
+  onToken?: (text: string) => void
+): Promise<ReplyVariant> {
+  const llm = getLLMProvider();
+  const { profile, sources } = context;
 
-    console.log(`✅ Successfully generated reply (${reply.length} characters)`);
-    return reply;
-  } catch (error: any) {
-    console.error('❌ RAG generation error:', error);
-    
-    // Handle specific OpenAI API errors
-    if (error?.status === 429 || error?.code === 'insufficient_quota' || error?.error?.type === 'insufficient_quota') {
-      const errorMsg = 'OpenAI API quota exceeded. Please check your billing and plan details at https://platform.openai.com/account/billing';
-      console.error(`❌ ${errorMsg}`);
-      throw new Error(errorMsg);
-    }
-    
-    if (error?.status === 401 || error?.code === 'invalid_api_key') {
-      const errorMsg = 'Invalid OpenAI API key. Please check your OPENAI_API_KEY environment variable.';
-      console.error(`❌ ${errorMsg}`);
-      throw new Error(errorMsg);
-    }
-    
-    if (error?.status === 404 || error?.message?.includes('does not exist')) {
-      const errorMsg = `Model not found or you don't have access. Please check your OPENAI_MODEL setting. Valid models: gpt-3.5-turbo, gpt-4, gpt-4-turbo-preview, gpt-4-turbo, gpt-4o, gpt-4o-mini`;
-      console.error(`❌ ${errorMsg}`);
-      throw new Error(errorMsg);
-    }
-    
-    if (error instanceof Error) {
-      console.error('Error details:', error.message);
-      console.error('Error stack:', error.stack);
-      
-      // Check if it's a model validation error (from our validation)
-      if (error.message.includes('Invalid model')) {
-        throw error; // Re-throw validation errors
-      }
-      
-      // Check if it's a model access error
-      if (error.message.includes('does not exist') || error.message.includes('access')) {
-        console.error('⚠️ Model access error - check your OpenAI API key permissions and model availability');
-        console.error('💡 Tip: Try setting OPENAI_MODEL=gpt-3.5-turbo in your .env file');
-        throw error;
-      }
-    }
-    
-    // For other errors, throw with a generic message
-    const errorMsg = error instanceof Error ? error.message : 'Unknown error occurred during AI reply generation';
-    throw new Error(errorMsg);
+  // Provider errors propagate unchanged; describeLLMError turns them into HTTP responses
+  let reply = onToken ? await streamCompletion(messages, options, onToken) : await llm.complete(messages, options);
+
+  if (!reply) {
+    console.warn(`⚠️ ${llm.name} returned empty reply`);
+    throw new Error(`Empty reply from LLM provider (${llm.name})`);
+  }
+
+  // One rewrite when the model used a forbidden phrase anyway; whatever remains is flagged for the rep
+  let forbidden = findForbiddenPhrases(reply, profile);
+  if (forbidden.length) {
+    console.log(`✍️ Reply used forbidden phrase(s) ${forbidden.join(', ')}; asking for a rewrite`);
+    const rewrite = await llm.complete([
+      ...messages,
+      { role: 'assistant', content: reply },
+      { role: 'user', content: `Rewrite the reply without the words or phrases ${forbidden.map(p => `"${p}"`).join(', ')}. Keep everything else, including the citations.` }
+    ], options);
+    if (rewrite) reply = rewrite;
+    forbidden = findForbiddenPhrases(reply, profile);
   }
-}
\ No newline at end of file
+
+  reply = ensureSignature(reply, profile.signature);
+
+  return {
+    reply,
+    warnings: forbidden.map(phrase => `Contains the forbidden phrase "${phrase}"`),
+    cited: sources.map((_source, i) => i + 1).filter(n => reply.includes(`[${n}]`))
+  };
+}
+
+function citations(context: ReplyContext, variants: ReplyVariant[]): Citation[] {
+  return context.sources.map((source, i) => ({
+    ...source,
+    n: i + 1,
+    cited: variants.some(variant => variant.cited.includes(i + 1))
+  }));
+}
+
+function suggestedReply(context: ReplyContext, variants: ReplyVariant[], options: ReplyOptions): SuggestedReply {
+  return {
+    reply: variants[0].reply,
+    warnings: variants[0].warnings,
+    variants,
+    sources: citations(context, variants),
+    options
+  };
+}
+
+// Draft `options.variants` replies. Asking again with the same options regenerates them; `generation` counts
+// earlier suggestions for the email so the offline stub varies between regenerations while staying deterministic.
+// With `stream`, the drafts are generated side by side and their text is passed on as it arrives.
+export async function generateSuggestedReply(
+  email: IEmail,
+  options: ReplyOptions = { variants: 1 },
+  stream?: ReplyStreamHandlers,
+  generation = 0
+): Promise<SuggestedReply> {
+  const context = await loadReplyContext(email);
+  const messages = replyMessages(context, options);
+  const llm = getLLMProvider();
+  stream?.onSources(citations(context, []));
+
+  console.log(`🤖 Generating ${options.variants} suggested repl${options.variants === 1 ? 'y' : 'ies'} for email: ${context.subject.substring(0, 50)}`);
+  console.log(`🔗 Calling ${llm.name} for reply generation with model: ${llm.model}...`);
+
+  const variants = await Promise.all(Array.from({ length: options.variants }, (_, i) => completeVariant(
+    context,
+    options.variants > 1
+      ? [
+          ...messages.slice(0, -1),
+          { role: 'user', content: `${messages[messages.length - 1].content}\n\n(This is draft ${i + 1} of ${options.variants}: make its opening, structure and wording clearly different from the other drafts.)` }
+        ]
+      : messages,
+    {
+      // Higher when several drafts are wanted, so they actually differ
+      temperature: options.variants > 1 ? 0.9 : 0.7,
+      maxTokens: 400,
+      offline: () => offlineReply(context, options, i + generation),
+      signal: stream?.signal
+    },
+    stream && (text => stream.onToken(i, text))
+  ).then(variant => {
+    stream?.onVariant(i, variant);
+    return variant;
+  })));
+
+  console.log(`✅ Successfully generated ${variants.length} repl${variants.length === 1 ? 'y' : 'ies'}`);
+  return suggestedReply(context, variants, options);
+}
+
+// Rewrite a draft (usually one the rep has edited) following a free-text instruction such as
+// "mention the annual discount" or "make it warmer"
+export async function rewriteReply(
+  email: IEmail,
+  draft: string,
+  instruction: string,
+  options: ReplyOptions = { variants: 1 }
+): Promise<SuggestedReply> {
+  const context = await loadReplyContext(email);
+  const llm = getLLMProvider();
+  console.log(`✍️ Rewriting reply for email: ${context.subject.substring(0, 50)} (${instruction.substring(0, 60)})`);
+
+  const variant = await completeVariant(context, [
+    ...replyMessages(context, options),
+    { role: 'assistant', content: draft },
+    {
+      role: 'user',
+      content: `Rewrite this reply with the following change: ${instruction}\nKeep the facts, citations and signature unless the change says otherwise, and still follow the sender profile. Return only the new reply.`
+    }
+  ], {
+    temperature: 0.5,
+    maxTokens: 400,
+    // The stub cannot follow instructions; it hands the draft back unchanged
+    offline: () => draft
+  });
+
+  console.log(`✅ Rewrote reply with ${llm.name} (${variant.reply.length} characters)`);
+  return suggestedReply(context, [variant], options);
+}
@@ -0,0 +1,148 @@
+import Email, { IEmail } from '../models/Email';
+import Recategorization, { IRecategorization, IRecategorizationScope } from '../models/Recategorization';
+import { categorizeEmail } from './aiCategorizationService';
+import { indexEmail } from './elasticsearchService';
+import { io } from '../server';
+
+const BATCH_SIZE = 50;
+
+// Running jobs keyed by Recategorization id; the flag is checked between emails
+const activeRuns: Map<string, { cancelled: boolean }> = new Map();
+
+export function isRecategorizationRunning(): boolean {
+  return activeRuns.size > 0;
+}
+
+// Emails a run covers. Without `force` only uncategorized ones qualify; manual choices never do.
+export function buildRecategorizationFilter(scope: IRecategorizationScope, force: boolean): any {
+  const filter: any = { 'categorization.source': { $ne: 'manual' } };
+  if (scope.account) filter.account = scope.account;
+  if (scope.folder) filter.folder = scope.folder;
+  if (scope.since || scope.until) {
+    filter.date = {};
+    if (scope.since) filter.date.$gte = scope.since;
+    if (scope.until) filter.date.$lte = scope.until;
+  }
+
+  if (scope.category !== undefined) {
+    filter.category = scope.category === '' ? { $in: [null, ''] } : scope.category;
+  }
+  if (!force && scope.category === undefined) {
+    filter.category = { $in: [null, ''] };
+  }
+  return filter;
+}
+
+export async function startRecategorization(scope: IRecategorizationScope, force: boolean): Promise<IRecategorization> {
+  const total = await Email.countDocuments(buildRecategorizationFilter(scope, force));
+  const run = await Recategorization.create({ scope, force, total });
+
+  console.log(`🏷️ Recategorization ${run.id} started: ${total} email(s)${force ? ' (forced)' : ''}`);
+  runRecategorization(run);
+  return run;
+}
+
+export async function cancelRecategorization(id: string): Promise<boolean> {
+  const job = activeRuns.get(id);
+  if (job) {
+    job.cancelled = true;
+    return true;
+  }
+
+  // A run left 'running' by a crash that has not been resumed yet
+  const result = await Recategorization.updateOne(
+    { _id: id, status: 'running' },
+    { $set: { status: 'cancelled', finishedAt: new Date() } }
+  );
+  return result.modifiedCount > 0;
+}
+
+// Pick up runs that were still going when the server stopped
+export async function resumeRecategorizations() {
+  const runs = await Recategorization.find({ status: 'running' });
+
+  for (const run of runs) {
+    if (activeRuns.has(run.id)) continue;
+    console.log(`⏯️ Resuming recategorization ${run.id} (${run.processed}/${run.total})`);
+    runRecategorization(run);
+  }
+}
+
+async function runRecategorization(run: IRecategorization) {
+  const job = { cancelled: false };
+  activeRuns.set(run.id, job);
+
+  const filter = buildRecategorizationFilter(run.scope, run.force);
+
+  const report = () => {
+    io.emit('recategorize-progress', run.toObject());
+    return run.save().catch(err => console.error('Failed to save recategorization progress:', err));
+  };
+
+  try {
+    while (!job.cancelled) {
+      const batch = await Email.find(run.lastEmailId ? { ...filter, _id: { $gt: run.lastEmailId } } : filter)
+        .sort({ _id: 1 })
+        .limit(BATCH_SIZE);
+      if (!batch.length) break;
+
+      for (const email of batch) {
+        if (job.cancelled) break;
+        await recategorizeOne(run, email);
+        run.lastEmailId = email._id;
+        run.processed++;
+      }
+      await report();
+    }
+
+    run.status = job.cancelled ? 'cancelled' : 'completed';
+    run.finishedAt = new Date();
+    await report();
+    console.log(`✅ Recategorization ${run.id} ${run.status}: ${run.changed} changed, ${run.unchanged} unchanged, ${run.failed} failed`);
+  } catch (error) {
+    console.error(`❌ Recategorization ${run.id} failed:`, error);
+    run.status = 'failed';
+    run.finishedAt = new Date();
+    run.error = error instanceof Error ? error.message : 'Unknown error';
+    await report();
+  } finally {
+    activeRuns.delete(run.id);
+  }
+}
+
+async function recategorizeOne(run: IRecategorization, email: IEmail) {
+  const previous = email.category || null;
+
+  try {
+    const { category, categorization } = await categorizeEmail(email);
+    if (!category) {
+      run.failed++;
+      console.warn(`⚠️ Could not categorize: ${email.subject?.substring(0, 50)}`);
+      return;
+    }
+
+    // Saved even when the category stays the same so the provenance reflects the current model
+    email.category = category;
+    email.categorization = categorization;
+    await email.save();
+
+    if (category === previous) {
+      run.unchanged++;
+      return;
+    }
+
+    run.changed++;
+    const transition = run.transitions.find(t => t.from === previous && t.to === category);
+    if (transition) {
+      transition.count++;
+    } else {
+      run.transitions.push({ from: previous, to: category, count: 1 });
+    }
+
+    await indexEmail(email);
+    io.emit('email-updated', email);
+  } catch (error) {
+    run.failed++;
+    console.error(`❌ Error categorizing email ${email._id}:`, error);
+  }
+}
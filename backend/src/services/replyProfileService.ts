@@ -0,0 +1,58 @@
+import Account, { IReplyProfile } from '../models/Account';
+import { isDummyMode } from '../config/runtime';
+import { dummyAccounts } from '../mock/dummyData';
+import { DEFAULT_REPLY_PROFILE } from '../config/defaultReplyProfile';
+
+const TEXT_FIELDS = ['productName', 'productDescription', 'tone', 'signature', 'meetingLink'] as const;
+
+// Pick the profile fields out of a request body; returns an error message for invalid values.
+// Empty strings are kept and mean "use the default".
+export function parseReplyProfile(body: any): Partial<IReplyProfile> | string {
+  const profile: Partial<IReplyProfile> = {};
+
+  for (const field of TEXT_FIELDS) {
+    const value = body?.[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'string') return `${field} must be a string`;
+    profile[field] = value.trim();
+  }
+
+  if (profile.meetingLink && !/^https?:\/\/\S+$/.test(profile.meetingLink)) {
+    return 'meetingLink must be an http(s) URL';
+  }
+
+  if (body?.forbiddenPhrases !== undefined && body.forbiddenPhrases !== null) {
+    const list = Array.isArray(body.forbiddenPhrases) ? body.forbiddenPhrases : String(body.forbiddenPhrases).split('\n');
+    profile.forbiddenPhrases = [...new Set(list.map((p: unknown) => String(p).trim()).filter(Boolean))] as string[];
+  }
+
+  return profile;
+}
+
+// The stored profile merged over the defaults
+export function resolveReplyProfile(stored: Partial<IReplyProfile> | undefined): IReplyProfile {
+  const profile: IReplyProfile = { ...DEFAULT_REPLY_PROFILE };
+  for (const field of TEXT_FIELDS) {
+    if (stored?.[field]) profile[field] = stored[field]!;
+  }
+  if (stored?.forbiddenPhrases?.length) profile.forbiddenPhrases = stored.forbiddenPhrases;
+  return profile;
+}
+
+// Profile of the account (by email address) an email was received on
+export async function getReplyProfile(accountEmail: string | undefined): Promise<IReplyProfile> {
+  if (!accountEmail) return resolveReplyProfile(undefined);
+
+  if (isDummyMode) {
+    return resolveReplyProfile(dummyAccounts.find(a => a.email === accountEmail)?.replyProfile);
+  }
+
+  const account = await Account.findOne({ email: accountEmail }).select('replyProfile');
+  return resolveReplyProfile(account?.replyProfile);
+}
+
+// Forbidden phrases present in `text`, compared case-insensitively
+export function findForbiddenPhrases(text: string, profile: IReplyProfile): string[] {
+  const lower = text.toLowerCase();
+  return profile.forbiddenPhrases.filter(phrase => lower.includes(phrase.toLowerCase()));
+}
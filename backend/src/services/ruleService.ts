@@ -0,0 +1,100 @@
+import Rule from '../models/Rule';
+import { IEmail } from '../models/Email';
+import { isDummyMode } from '../config/runtime';
+import { DEFAULT_RULES, RuleDefinition } from '../config/defaultRules';
+import { dummyRules } from '../mock/dummyData';
+
+export type RuleTarget = Partial<Pick<IEmail, 'subject' | 'body' | 'html' | 'from' | 'to' | 'headers'>>;
+export type StoredRule = RuleDefinition & { _id?: any };
+
+export interface RuleMatch {
+  rule: StoredRule;
+  category: RuleDefinition['category'];
+}
+
+// Enabled rules ordered for evaluation; cleared whenever a rule is created, edited or deleted
+let cachedRules: StoredRule[] | null = null;
+
+export function invalidateRuleCache() {
+  cachedRules = null;
+}
+
+async function loadRules(): Promise<StoredRule[]> {
+  if (isDummyMode) {
+    return dummyRules.filter(r => r.enabled).sort((a, b) => b.priority - a.priority);
+  }
+
+  if (!cachedRules) {
+    cachedRules = await Rule.find({ enabled: true }).sort({ priority: -1, createdAt: 1 }).lean() as StoredRule[];
+  }
+  return cachedRules;
+}
+
+// Returns a message describing what is wrong with a rule definition, or null if it is usable
+export function validateRule(rule: Partial<RuleDefinition>): string | null {
+  if (!rule.value || !String(rule.value).trim()) return 'value is required';
+  if (rule.matchType === 'header' && !rule.header) return 'header is required for header rules';
+  if (rule.matchType === 'regex' || rule.matchType === 'header') {
+    try {
+      new RegExp(rule.value, 'i');
+    } catch (error) {
+      return `Invalid regular expression: ${error instanceof Error ? error.message : rule.value}`;
+    }
+  }
+  return null;
+}
+
+function senderDomain(from: string): string {
+  const address = from.match(/<([^>]+)>/)?.[1] || from;
+  return (address.split('@')[1] || '').trim().toLowerCase();
+}
+
+function fieldText(rule: RuleDefinition, email: RuleTarget): string {
+  switch (rule.field) {
+    case 'subject': return email.subject || '';
+    case 'body': return email.body || email.html || '';
+    case 'from': return email.from || '';
+    case 'to': return (email.to || []).join(', ');
+    default: return `${email.subject || ''}\n${email.body || email.html || ''}\n${email.from || ''}`;
+  }
+}
+
+export function ruleMatches(rule: RuleDefinition, email: RuleTarget): boolean {
+  try {
+    switch (rule.matchType) {
+      case 'contains':
+        return fieldText(rule, email).toLowerCase().includes(rule.value.toLowerCase());
+      case 'regex':
+        return new RegExp(rule.value, 'i').test(fieldText(rule, email));
+      case 'senderDomain': {
+        const domain = senderDomain(email.from || '');
+        const wanted = rule.value.trim().toLowerCase().replace(/^@/, '');
+        return domain === wanted || domain.endsWith(`.${wanted}`);
+      }
+      case 'header': {
+        const value = email.headers?.[(rule.header || '').toLowerCase()];
+        return value !== undefined && new RegExp(rule.value, 'i').test(value);
+      }
+      default:
+        return false;
+    }
+  } catch {
+    // A rule saved with a bad pattern should not break categorization for everything else
+    return false;
+  }
+}
+
+// First matching enabled rule of the given stage, by priority
+export async function evaluateRules(email: RuleTarget, stage: RuleDefinition['stage']): Promise<RuleMatch | null> {
+  const rules = await loadRules();
+  const rule = rules.find(r => r.stage === stage && ruleMatches(r, email));
+  return rule ? { rule, category: rule.category } : null;
+}
+
+// Install the built-in heuristics the first time the app runs against a database
+export async function seedDefaultRules() {
+  if (await Rule.estimatedDocumentCount() > 0) return;
+  await Rule.insertMany(DEFAULT_RULES);
+  invalidateRuleCache();
+  console.log(`📐 Seeded ${DEFAULT_RULES.length} default categorization rules`);
+}
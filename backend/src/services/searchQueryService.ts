@@ -0,0 +1,330 @@
+// Gmail-style search syntax, e.g.  from:alice subject:"q3 budget" -category:Spam is:unread after:2024/01/01
+// Space-separated terms must all match, OR (upper case) between terms matches either side, a leading '-'
+// negates, parentheses group and "quoted text" is matched as a phrase. Unknown `word:` prefixes are
+// treated as plain text so searches like "re:" or URLs still work.
+
+export type TextField = 'from' | 'to' | 'subject';
+
+export type QueryNode =
+  | { type: 'text'; value: string; phrase: boolean; field?: TextField }
+  | { type: 'category'; value: string }
+  | { type: 'account'; value: string }
+  | { type: 'folder'; value: string }
+  | { type: 'attachment' }
+  | { type: 'read'; value: boolean }
+  | { type: 'flagged' }
+  | { type: 'date'; op: 'before' | 'after'; value: Date }
+  | { type: 'not'; node: QueryNode }
+  | { type: 'and'; nodes: QueryNode[] }
+  | { type: 'or'; nodes: QueryNode[] };
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'not' }
+  | { kind: 'term'; negated: boolean; operator?: string; value: string; quoted: boolean };
+
+const OPERATORS = ['from', 'to', 'subject', 'category', 'account', 'in', 'has', 'is', 'before', 'after'];
+
+export class SearchQueryError extends Error {}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'lparen' : 'rparen' });
+      i++;
+      continue;
+    }
+
+    // -(a OR b) negates a whole group
+    if (ch === '-' && input[i + 1] === '(') {
+      tokens.push({ kind: 'not' });
+      i++;
+      continue;
+    }
+
+    const negated = ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    // An operator prefix is only recognized for known names, so "http://..." stays text
+    let operator: string | undefined;
+    const prefix = /^([a-zA-Z]+):/.exec(input.slice(i));
+    if (prefix && OPERATORS.includes(prefix[1].toLowerCase())) {
+      operator = prefix[1].toLowerCase();
+      i += prefix[0].length;
+    }
+
+    let value = '';
+    let quoted = false;
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) throw new SearchQueryError('Unclosed quote');
+      value = input.slice(i + 1, end);
+      quoted = true;
+      i = end + 1;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()]/.test(input[i])) i++;
+      value = input.slice(start, i);
+    }
+
+    if (operator && !value) throw new SearchQueryError(`Missing value after "${operator}:"`);
+    if (!negated && !operator && !quoted && value === 'OR') {
+      tokens.push({ kind: 'or' });
+      continue;
+    }
+    if (value) tokens.push({ kind: 'term', negated, operator, value, quoted });
+  }
+
+  return tokens;
+}
+
+// Accepts 2024-01-31, 2024/01/31 and 2024/1/31; interpreted as UTC midnight
+function parseDate(operator: string, value: string): Date {
+  const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(value);
+  const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+  // Date.UTC rolls 2024/02/31 over into March; reject instead
+  if (!date || date.getUTCMonth() !== Number(match![2]) - 1 || date.getUTCDate() !== Number(match![3])) {
+    throw new SearchQueryError(`Invalid date "${value}" for ${operator}: (use YYYY/MM/DD)`);
+  }
+  return date;
+}
+
+function termNode(token: Extract<Token, { kind: 'term' }>): QueryNode {
+  const { operator, value, quoted } = token;
+
+  switch (operator) {
+    case undefined:
+      return { type: 'text', value, phrase: quoted };
+    case 'from':
+    case 'to':
+    case 'subject':
+      return { type: 'text', field: operator, value, phrase: quoted };
+    case 'category':
+      return { type: 'category', value };
+    case 'account':
+      return { type: 'account', value };
+    case 'in':
+      return { type: 'folder', value };
+    case 'has':
+      if (value.toLowerCase() === 'attachment') return { type: 'attachment' };
+      throw new SearchQueryError(`Unknown value "has:${value}" (expected has:attachment)`);
+    case 'is':
+      switch (value.toLowerCase()) {
+        case 'unread': return { type: 'read', value: false };
+        case 'read': return { type: 'read', value: true };
+        case 'flagged':
+        case 'starred': return { type: 'flagged' };
+      }
+      throw new SearchQueryError(`Unknown value "is:${value}" (expected unread, read or flagged)`);
+    case 'before':
+    case 'after':
+      return { type: 'date', op: operator, value: parseDate(operator, value) };
+    default:
+      throw new SearchQueryError(`Unknown operator "${operator}:"`);
+  }
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): QueryNode | undefined {
+    if (!this.tokens.length) return undefined;
+    const node = this.parseAnd();
+    if (this.tokens[this.pos]) throw new SearchQueryError('Unexpected ")"');
+    return node;
+  }
+
+  // Terms side by side must all match; runs until the end of input or of the current group
+  private parseAnd(): QueryNode {
+    const nodes: QueryNode[] = [];
+    for (let token = this.tokens[this.pos]; token && token.kind !== 'rparen'; token = this.tokens[this.pos]) {
+      nodes.push(this.parseOr());
+    }
+    if (!nodes.length) {
+      throw new SearchQueryError(this.tokens[this.pos] ? 'Unexpected ")"' : 'Missing ")"');
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+  }
+
+  // As in Gmail, OR binds tighter than the implicit AND: "a OR b c" is "(a OR b) c"
+  private parseOr(): QueryNode {
+    if (this.tokens[this.pos].kind === 'or') throw new SearchQueryError('OR needs a search term on both sides');
+
+    const nodes = [this.parsePrimary()];
+    while (this.tokens[this.pos]?.kind === 'or') {
+      this.pos++;
+      const next = this.tokens[this.pos];
+      if (!next || next.kind === 'or' || next.kind === 'rparen') {
+        throw new SearchQueryError('OR needs a search term on both sides');
+      }
+      nodes.push(this.parsePrimary());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'or', nodes };
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.tokens[this.pos++];
+
+    if (token.kind === 'not') {
+      return { type: 'not', node: this.parsePrimary() };
+    }
+
+    if (token.kind === 'lparen') {
+      if (this.tokens[this.pos]?.kind === 'rparen') throw new SearchQueryError('Empty group');
+      const node = this.parseAnd();
+      if (this.tokens[this.pos]?.kind !== 'rparen') throw new SearchQueryError('Missing ")"');
+      this.pos++;
+      return node;
+    }
+
+    const term = token as Extract<Token, { kind: 'term' }>;
+    const node = termNode(term);
+    return term.negated ? { type: 'not', node } : node;
+  }
+}
+
+// Throws SearchQueryError with a user-facing message; an empty query parses to undefined (match everything)
+export function parseSearchQuery(input: string | undefined): QueryNode | undefined {
+  return new Parser(tokenize((input || '').trim())).parse();
+}
+
+// Free text (no operator) is looked up in these fields
+const TEXT_FIELDS = ['subject', 'body', 'from'];
+
+// Elasticsearch bool query equivalent of the parsed query
+export function toElasticsearchQuery(node: QueryNode): any {
+  switch (node.type) {
+    case 'text': {
+      if (node.field) {
+        return { [node.phrase ? 'match_phrase' : 'match']: { [node.field]: node.phrase ? node.value : { query: node.value, operator: 'and' } } };
+      }
+      return {
+        multi_match: {
+          query: node.value,
+          fields: ['subject^2', 'body', 'from'],
+          ...(node.phrase ? { type: 'phrase' } : { operator: 'and' })
+        }
+      };
+    }
+    case 'category':
+      return { term: { category: { value: node.value, case_insensitive: true } } };
+    case 'account':
+      return { term: { account: { value: node.value, case_insensitive: true } } };
+    case 'folder':
+      return { term: { folder: { value: node.value, case_insensitive: true } } };
+    case 'attachment':
+      return { term: { hasAttachments: true } };
+    case 'read':
+      return { term: { isRead: node.value } };
+    case 'flagged':
+      return { term: { isFlagged: true } };
+    case 'date':
+      return { range: { date: node.op === 'before' ? { lt: node.value.toISOString() } : { gte: node.value.toISOString() } } };
+    case 'not':
+      return { bool: { must_not: [toElasticsearchQuery(node.node)] } };
+    case 'and':
+      return { bool: { must: node.nodes.map(toElasticsearchQuery) } };
+    case 'or':
+      return { bool: { should: node.nodes.map(toElasticsearchQuery), minimum_should_match: 1 } };
+  }
+}
+
+// Text worth highlighting in subject and body: positive free-text and subject: terms (excluded ones are skipped)
+export function highlightTerms(node: QueryNode | undefined): { subject: string[]; body: string[] } {
+  const terms = { subject: [] as string[], body: [] as string[] };
+
+  const visit = (n: QueryNode) => {
+    if (n.type === 'and' || n.type === 'or') n.nodes.forEach(visit);
+    if (n.type !== 'text') return;
+    if (!n.field || n.field === 'subject') terms.subject.push(n.value);
+    if (!n.field) terms.body.push(n.value);
+  };
+  if (node) visit(node);
+
+  return terms;
+}
+
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function exact(value: string) {
+  return { $regex: `^${escapeRegex(value)}$`, $options: 'i' };
+}
+
+// MongoDB filter for the fallback path. Text terms become case-insensitive substring matches, so they are
+// looser than Elasticsearch's analyzed matching but select the same kind of mail.
+export function toMongoFilter(node: QueryNode): any {
+  switch (node.type) {
+    case 'text': {
+      const pattern = { $regex: escapeRegex(node.value), $options: 'i' };
+      if (node.field) return { [node.field]: pattern };
+      return { $or: TEXT_FIELDS.map(field => ({ [field]: pattern })) };
+    }
+    case 'category':
+      return { category: exact(node.value) };
+    case 'account':
+      return { account: exact(node.value) };
+    case 'folder':
+      return { folder: exact(node.value) };
+    case 'attachment':
+      return { 'attachments.0': { $exists: true } };
+    case 'read':
+      return node.value ? { isRead: true } : { isRead: { $ne: true } };
+    case 'flagged':
+      return { isFlagged: true };
+    case 'date':
+      return { date: node.op === 'before' ? { $lt: node.value } : { $gte: node.value } };
+    case 'not':
+      return { $nor: [toMongoFilter(node.node)] };
+    case 'and':
+      return { $and: node.nodes.map(toMongoFilter) };
+    case 'or':
+      return { $or: node.nodes.map(toMongoFilter) };
+  }
+}
+
+// In-memory evaluation for dummy mode, mirroring the MongoDB semantics
+export function matchesQuery(node: QueryNode, email: any): boolean {
+  const contains = (value: unknown, needle: string) =>
+    (Array.isArray(value) ? value : [value]).some(v => String(v ?? '').toLowerCase().includes(needle.toLowerCase()));
+  const same = (value: unknown, expected: string) => String(value ?? '').toLowerCase() === expected.toLowerCase();
+
+  switch (node.type) {
+    case 'text':
+      return node.field
+        ? contains(email[node.field], node.value)
+        : TEXT_FIELDS.some(field => contains(email[field], node.value));
+    case 'category':
+      return same(email.category, node.value);
+    case 'account':
+      return same(email.account, node.value);
+    case 'folder':
+      return same(email.folder, node.value);
+    case 'attachment':
+      return (email.attachments?.length || 0) > 0;
+    case 'read':
+      return Boolean(email.isRead) === node.value;
+    case 'flagged':
+      return Boolean(email.isFlagged);
+    case 'date': {
+      const time = new Date(email.date).getTime();
+      return node.op === 'before' ? time < node.value.getTime() : time >= node.value.getTime();
+    }
+    case 'not':
+      return !matchesQuery(node.node, email);
+    case 'and':
+      return node.nodes.every(n => matchesQuery(n, email));
+    case 'or':
+      return node.nodes.some(n => matchesQuery(n, email));
+  }
+}
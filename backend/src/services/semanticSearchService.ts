@@ -0,0 +1,87 @@
+import Email, { IEmail } from '../models/Email';
+import { isDummyMode } from '../config/runtime';
+import { dummyEmails } from '../mock/dummyData';
+import { getLLMProvider } from './llmProvider';
+import { getVectorStore, rankBySimilarity, VectorMatch, VectorRecord } from './vectorStore';
+
+export type SemanticSearchMode = 'semantic' | 'hybrid';
+
+// Constant from the original reciprocal rank fusion paper; dampens the advantage of the very first ranks
+const RRF_K = 60;
+// Only the start of long bodies is embedded; the opening usually says what the email is about
+const EMBED_BODY_CHARS = 2000;
+
+export function parseSemanticSearchMode(value: unknown): SemanticSearchMode | null {
+  if (value === undefined || value === '') return 'semantic';
+  return value === 'semantic' || value === 'hybrid' ? value : null;
+}
+
+function embeddingText(email: { subject?: string; from?: string; body?: string }): string {
+  return `${email.subject || ''}\n${email.from || ''}\n${(email.body || '').substring(0, EMBED_BODY_CHARS)}`;
+}
+
+// Embed and store vectors for these emails, recording the model so a model change can be detected
+export async function embedEmails(emails: IEmail[]) {
+  if (!emails.length) return;
+
+  const llm = getLLMProvider();
+  const vectors = await llm.embed(emails.map(embeddingText));
+  await getVectorStore().upsert(
+    emails.map((email, i) => ({ id: email.id, account: email.account, vector: vectors[i] })),
+    llm.embeddingModel
+  );
+  // Not a content change, so leave updatedAt (and with it the search index version) alone
+  await Email.updateMany(
+    { _id: { $in: emails.map(e => e._id) } },
+    { $set: { embeddedWith: llm.embeddingModel } },
+    { timestamps: false }
+  );
+}
+
+export async function removeEmailVectors(ids: string[]) {
+  try {
+    if (isDummyMode || !ids.length) return;
+    await getVectorStore().remove(ids, getLLMProvider().embeddingModel);
+  } catch (error) {
+    // Orphaned vectors only cost a wasted search candidate; results are loaded from MongoDB
+    console.error('Vector removal error:', error);
+  }
+}
+
+// Dummy mode has no vector store; the mock emails are embedded on first use and kept in memory
+let dummyVectors: { model: string; records: VectorRecord[] } | null = null;
+
+async function dummyMatches(vector: number[], topK: number, account?: string): Promise<VectorMatch[]> {
+  const llm = getLLMProvider();
+  if (dummyVectors?.model !== llm.embeddingModel) {
+    const vectors = await llm.embed(dummyEmails.map(embeddingText));
+    dummyVectors = {
+      model: llm.embeddingModel,
+      records: dummyEmails.map((email, i) => ({ id: email._id, account: email.account || '', vector: vectors[i] }))
+    };
+  }
+  const records = dummyVectors!.records.filter(record => !account || record.account === account);
+  return rankBySimilarity(vector, records, topK);
+}
+
+// Emails closest in meaning to the query, best first
+export async function semanticMatches(query: string, options: { topK: number; account?: string }): Promise<VectorMatch[]> {
+  const llm = getLLMProvider();
+  const [vector] = await llm.embed([query]);
+
+  if (isDummyMode) {
+    return dummyMatches(vector, options.topK, options.account);
+  }
+  return getVectorStore().query(vector, { ...options, model: llm.embeddingModel });
+}
+
+// Merge ranked id lists: each list contributes 1 / (RRF_K + rank) for every id it contains
+export function reciprocalRankFusion(rankings: string[][]): Array<{ id: string; score: number }> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, i) => scores.set(id, (scores.get(id) || 0) + 1 / (RRF_K + i + 1)));
+  }
+  return [...scores]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
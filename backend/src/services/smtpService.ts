@@ -0,0 +1,78 @@
+import nodemailer from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import { IEmail } from '../models/Email';
+import Account, { IAccount } from '../models/Account';
+import { decryptSecret } from './credentialService';
+import { appendToSent } from './imapService';
+
+export interface ReplyResult {
+  messageId: string;
+  to: string;
+  sentFolder?: string;
+}
+
+// Gmail already files SMTP submissions under "Sent Mail"; appending would duplicate them
+const SERVER_SAVES_SENT = [/(^|\.)gmail\.com$/i, /(^|\.)googlemail\.com$/i];
+
+function getSmtpSettings(account: IAccount) {
+  return {
+    host: account.smtpHost || account.host.replace(/^imap\./i, 'smtp.'),
+    port: account.smtpPort || 587,
+    // Implicit TLS on 465, STARTTLS (when offered) everywhere else
+    secure: account.smtpSecure ?? (account.smtpPort === 465)
+  };
+}
+
+function replySubject(subject: string): string {
+  return /^re:/i.test(subject.trim()) ? subject : `Re: ${subject}`;
+}
+
+// Send a reply to an email from the account that received it, threaded onto the original message
+export async function sendReply(email: IEmail, text: string, subject?: string): Promise<ReplyResult> {
+  const account = await Account.findOne({ email: email.account }).select('+password');
+  if (!account) {
+    throw new Error(`Account ${email.account} is not configured`);
+  }
+
+  const smtp = getSmtpSettings(account);
+  const transporter = nodemailer.createTransport({
+    ...smtp,
+    auth: { user: account.email, pass: decryptSecret(account.password) },
+    // DEV ONLY — accepts self-signed certs, matching the IMAP connection settings
+    tls: { rejectUnauthorized: false }
+  });
+
+  const message = {
+    from: account.email,
+    to: email.from,
+    subject: replySubject(subject || email.subject || ''),
+    text,
+    inReplyTo: email.messageId,
+    references: [...(email.references || []), email.messageId]
+  };
+
+  // Compose once so the exact bytes sent are the ones stored in the Sent folder
+  const compiled = new MailComposer(message).compile();
+  const raw = await compiled.build();
+  await transporter.sendMail({
+    envelope: { from: account.email, to: email.from },
+    raw
+  });
+  console.log(`📤 Reply sent from ${account.email} to ${email.from}`);
+
+  let sentFolder: string | undefined;
+  if (!SERVER_SAVES_SENT.some(re => re.test(account.host))) {
+    try {
+      sentFolder = await appendToSent(account, raw);
+    } catch (error) {
+      // The reply went out; a missing Sent copy should not turn this into a failure
+      console.error(`⚠️ Could not append reply to Sent for ${account.email}:`, error);
+    }
+  }
+
+  return {
+    messageId: compiled.messageId(),
+    to: email.from,
+    sentFolder
+  };
+}
@@ -0,0 +1,97 @@
+import Email, { IEmail } from '../models/Email';
+
+// Reply/forward prefixes in the common client languages (Re, Fwd, Fw, AW, WG, SV, VS, Antw, Rif, TR)
+const SUBJECT_PREFIX = /^\s*((re|fwd?|aw|wg|sv|vs|antw|rif|tr)(\[\d+\])?\s*:\s*)+/i;
+
+// Subject matching only links messages this close together, so recurring subjects stay separate
+const SUBJECT_MATCH_WINDOW_DAYS = 30;
+
+export function normalizeSubject(subject: string | undefined): string {
+  let normalized = (subject || '').trim();
+
+  // Prefixes can be interleaved with list tags, e.g. "Re: [sales] Fwd: Pricing"
+  let previous;
+  do {
+    previous = normalized;
+    normalized = normalized.replace(SUBJECT_PREFIX, '').replace(/^\[[^\]]*\]\s*/, '');
+  } while (normalized !== previous);
+
+  return normalized.replace(/\s+/g, ' ').toLowerCase();
+}
+
+function isReplySubject(subject: string | undefined): boolean {
+  return SUBJECT_PREFIX.test(subject || '');
+}
+
+// Pick a threadId for an email: follow In-Reply-To/References to a known message, else adopt the thread
+// of a message that already references this one, else fall back to normalized subject matching for
+// replies whose headers were stripped. Anything else starts a new thread named after its Message-ID.
+export async function assignThread(email: IEmail): Promise<string> {
+  const refs = [...(email.references || []), email.inReplyTo].filter(Boolean) as string[];
+  let threadId: string | undefined;
+
+  if (refs.length) {
+    const parent = await Email.findOne({
+      messageId: { $in: refs },
+      threadId: { $exists: true }
+    }).sort({ date: 1 });
+    threadId = parent?.threadId;
+  }
+
+  if (!threadId) {
+    const child = await Email.findOne({
+      $or: [{ inReplyTo: email.messageId }, { references: email.messageId }],
+      threadId: { $exists: true }
+    }).sort({ date: 1 });
+    threadId = child?.threadId;
+  }
+
+  const subject = normalizeSubject(email.subject);
+  if (!threadId && subject && (refs.length || isReplySubject(email.subject))) {
+    const windowStart = new Date(email.date.getTime() - SUBJECT_MATCH_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const match = await Email.findOne({
+      _id: { $ne: email._id },
+      account: email.account,
+      normalizedSubject: subject,
+      date: { $gte: windowStart, $lte: email.date },
+      threadId: { $exists: true }
+    }).sort({ date: -1 });
+    threadId = match?.threadId;
+  }
+
+  threadId = threadId || email.messageId;
+
+  // Replies that arrived before this message may have opened their own thread; fold them in
+  const orphans = await Email.distinct('threadId', {
+    $or: [{ inReplyTo: email.messageId }, { references: email.messageId }],
+    threadId: { $exists: true, $ne: threadId }
+  });
+  if (orphans.length) {
+    await Email.updateMany({ threadId: { $in: orphans } }, { $set: { threadId } });
+  }
+
+  email.normalizedSubject = subject;
+  email.threadId = threadId;
+  await email.save();
+
+  return threadId;
+}
+
+// Give emails stored before threading existed a threadId, oldest first so parents are placed before replies
+export async function assignMissingThreads() {
+  const cursor = Email.find({ threadId: { $exists: false } }).sort({ date: 1 }).cursor();
+  let assigned = 0;
+
+  for await (const email of cursor) {
+    try {
+      await assignThread(email);
+      assigned++;
+    } catch (error) {
+      console.error(`❌ Failed to assign thread for ${email.messageId}:`, error);
+    }
+  }
+
+  if (assigned) {
+    console.log(`🧵 Assigned threads to ${assigned} existing email(s)`);
+  }
+}
@@ -0,0 +1,236 @@
+import { Pinecone } from '@pinecone-database/pinecone';
+import Email from '../models/Email';
+import { isDummyMode } from '../config/runtime';
+import { getElasticsearchClient } from './elasticsearchService';
+
+export type VectorStoreName = 'local' | 'elasticsearch' | 'pinecone';
+
+export interface VectorRecord {
+  // MongoDB id of the email
+  id: string;
+  account: string;
+  vector: number[];
+}
+
+export interface VectorMatch {
+  id: string;
+  // Cosine similarity, higher is closer
+  score: number;
+}
+
+export interface VectorQueryOptions {
+  topK: number;
+  account?: string;
+  // Only vectors made by this embedding model are comparable with the query vector
+  model: string;
+}
+
+export interface VectorStore {
+  name: VectorStoreName;
+  upsert(records: VectorRecord[], model: string): Promise<void>;
+  query(vector: number[], options: VectorQueryOptions): Promise<VectorMatch[]>;
+  // `model` is the current embedding model; stores that can cheaply do so remove every model's vectors
+  remove(ids: string[], model: string): Promise<void>;
+}
+
+const STORES: VectorStoreName[] = ['local', 'elasticsearch', 'pinecone'];
+
+let store: VectorStore | null = null;
+
+// Chosen once from VECTOR_STORE; defaults to local in dummy mode and Elasticsearch otherwise
+export function getVectorStore(): VectorStore {
+  if (!store) {
+    store = createVectorStore();
+    console.log(`🧭 Vector store: ${store.name}`);
+  }
+  return store;
+}
+
+function createVectorStore(): VectorStore {
+  const requested = (process.env.VECTOR_STORE || (isDummyMode ? 'local' : 'elasticsearch')).toLowerCase() as VectorStoreName;
+
+  if (!STORES.includes(requested)) {
+    console.error(`❌ Unknown VECTOR_STORE "${requested}". Expected one of: ${STORES.join(', ')}. Using local.`);
+    return createLocalStore();
+  }
+
+  switch (requested) {
+    case 'elasticsearch':
+      return createElasticsearchStore();
+    case 'pinecone': {
+      const { PINECONE_API_KEY, PINECONE_ENVIRONMENT, PINECONE_INDEX_NAME } = process.env;
+      if (!PINECONE_API_KEY || !PINECONE_ENVIRONMENT || !PINECONE_INDEX_NAME) {
+        console.warn('⚠️ PINECONE_API_KEY, PINECONE_ENVIRONMENT and PINECONE_INDEX_NAME are required - using the local vector store');
+        return createLocalStore();
+      }
+      return createPineconeStore(PINECONE_API_KEY, PINECONE_ENVIRONMENT, PINECONE_INDEX_NAME);
+    }
+    default:
+      return createLocalStore();
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Brute-force nearest neighbours; fine for a single mailbox-sized collection
+export function rankBySimilarity(vector: number[], records: VectorRecord[], topK: number): VectorMatch[] {
+  return records
+    .map(record => ({ id: record.id, score: cosineSimilarity(vector, record.vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+// Vectors are stored on the email documents and held in memory per model, loaded on first query
+function createLocalStore(): VectorStore {
+  const cache = new Map<string, Map<string, VectorRecord>>();
+
+  const load = async (model: string) => {
+    let records = cache.get(model);
+    if (!records) {
+      records = new Map();
+      const emails = await Email.find({ 'embedding.model': model }).select('+embedding account');
+      for (const email of emails) {
+        records.set(email.id, { id: email.id, account: email.account, vector: email.embedding!.vector });
+      }
+      cache.set(model, records);
+    }
+    return records;
+  };
+
+  return {
+    name: 'local',
+    async upsert(records, model) {
+      // Not a content change, so leave updatedAt (and with it the search index version) alone
+      await Email.bulkWrite(records.map(record => ({
+        updateOne: {
+          filter: { _id: record.id },
+          update: { $set: { embedding: { model, vector: record.vector } } },
+          timestamps: false
+        }
+      })));
+      for (const [cachedModel, cached] of cache) {
+        records.forEach(record => cachedModel === model ? cached.set(record.id, record) : cached.delete(record.id));
+      }
+    },
+    async query(vector, { topK, account, model }) {
+      const records = [...(await load(model)).values()].filter(record => !account || record.account === account);
+      return rankBySimilarity(vector, records, topK);
+    },
+    async remove(ids) {
+      // The vector is deleted along with its email; only the cache needs updating
+      for (const cached of cache.values()) {
+        ids.forEach(id => cached.delete(id));
+      }
+    }
+  };
+}
+
+// One index per embedding model, since dense_vector dimensions are fixed at creation
+function createElasticsearchStore(): VectorStore {
+  const client = getElasticsearchClient();
+  const ready = new Set<string>();
+  const indexFor = (model: string) => `email_vectors_${model.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
+
+  const ensureIndex = async (index: string, dims: number) => {
+    if (ready.has(index)) return;
+    if (!(await client.indices.exists({ index }))) {
+      await client.indices.create({
+        index,
+        mappings: {
+          properties: {
+            emailId: { type: 'keyword' },
+            account: { type: 'keyword' },
+            vector: { type: 'dense_vector', dims, index: true, similarity: 'cosine' }
+          }
+        }
+      });
+      console.log(`✅ Elasticsearch vector index "${index}" created`);
+    }
+    ready.add(index);
+  };
+
+  return {
+    name: 'elasticsearch',
+    async upsert(records, model) {
+      if (!records.length) return;
+      const index = indexFor(model);
+      await ensureIndex(index, records[0].vector.length);
+      const result = await client.bulk({
+        operations: records.flatMap(record => [
+          { index: { _index: index, _id: record.id } },
+          { emailId: record.id, account: record.account, vector: record.vector }
+        ])
+      });
+      if (result.errors) {
+        const failed = result.items.find(item => item.index?.error);
+        throw new Error(`Vector indexing failed: ${JSON.stringify(failed?.index?.error)}`);
+      }
+    },
+    async query(vector, { topK, account, model }) {
+      const index = indexFor(model);
+      if (!(await client.indices.exists({ index }))) return [];
+
+      const result = await client.search({
+        index,
+        _source: false,
+        knn: {
+          field: 'vector',
+          query_vector: vector,
+          k: topK,
+          num_candidates: Math.max(topK * 10, 100),
+          ...(account ? { filter: { term: { account } } } : {})
+        }
+      });
+      // Elasticsearch reports cosine as (1 + cos) / 2
+      return result.hits.hits.map(hit => ({ id: hit._id as string, score: (hit._score || 0) * 2 - 1 }));
+    },
+    async remove(ids) {
+      if (!ids.length) return;
+      await client.deleteByQuery({
+        index: 'email_vectors_*',
+        query: { terms: { emailId: ids } },
+        ignore_unavailable: true,
+        allow_no_indices: true
+      });
+    }
+  };
+}
+
+// One namespace per embedding model inside PINECONE_INDEX_NAME; the index must be created with matching dimensions
+function createPineconeStore(apiKey: string, environment: string, indexName: string): VectorStore {
+  const index = new Pinecone({ apiKey, environment }).index(indexName);
+
+  return {
+    name: 'pinecone',
+    async upsert(records, model) {
+      if (!records.length) return;
+      await index.namespace(model).upsert(records.map(record => ({
+        id: record.id,
+        values: record.vector,
+        metadata: { account: record.account }
+      })));
+    },
+    async query(vector, { topK, account, model }) {
+      const result = await index.namespace(model).query({
+        vector,
+        topK,
+        ...(account ? { filter: { account: { $eq: account } } } : {})
+      });
+      return (result.matches || []).map(match => ({ id: match.id, score: match.score || 0 }));
+    },
+    async remove(ids, model) {
+      if (!ids.length) return;
+      await index.namespace(model).deleteMany(ids);
+    }
+  };
+}
@@ -0,0 +1,91 @@
+import Email from '../src/models/Email';
+import Account, { IAccount } from '../src/models/Account';
+import { openMailbox, searchMailbox, fetchMessages } from '../src/services/imapService';
+import { startBackfill, isBackfillRunning } from '../src/services/backfillService';
+
+jest.mock('../src/server', () => ({ io: { emit: jest.fn() } }));
+jest.mock('../src/models/Email', () => ({ __esModule: true, default: { distinct: jest.fn() } }));
+jest.mock('../src/models/Account', () => ({ __esModule: true, default: { updateOne: jest.fn() } }));
+jest.mock('../src/services/imapService', () => {
+  const imap = { state: 'authenticated' };
+  return {
+    withTemporaryConnection: (_account: unknown, fn: (imap: unknown) => Promise<unknown>) => fn(imap),
+    listMailboxes: async () => [{ path: 'INBOX', name: 'INBOX', delimiter: '/', attribs: [] }],
+    resolveMailbox: (mailboxes: any[], wanted: string) => mailboxes.find(m => m.path === wanted),
+    getSyncFolders: () => ['INBOX'],
+    openMailbox: jest.fn(),
+    searchMailbox: jest.fn(),
+    fetchMessages: jest.fn()
+  };
+});
+
+const account = { id: 'acc1', _id: 'acc1', email: 'me@example.com' } as unknown as IAccount;
+const updateOne = Account.updateOne as jest.Mock;
+
+// The import runs in the background; wait until it has released the account
+async function finished() {
+  while (isBackfillRunning(account.id)) await new Promise(resolve => setImmediate(resolve));
+  return updateOne.mock.calls[updateOne.mock.calls.length - 1][1].$set.backfill;
+}
+
+describe('backfill', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    updateOne.mockResolvedValue({});
+    (openMailbox as jest.Mock).mockResolvedValue({ uidvalidity: 7 });
+    (searchMailbox as jest.Mock).mockResolvedValue([1, 2, 3, 4]);
+    (Email.distinct as jest.Mock).mockResolvedValue([]);
+    (fetchMessages as jest.Mock).mockImplementation(async (_imap, uids: number[]) => ({
+      highestUid: Math.max(...uids),
+      failed: uids.filter(uid => uid === 3)
+    }));
+  });
+
+  it('counts messages that could not be stored and keeps going', async () => {
+    await startBackfill(account, new Date('2024-01-01'), 2);
+    const state = await finished();
+
+    expect(fetchMessages).toHaveBeenCalledTimes(2);
+    expect(state).toMatchObject({
+      status: 'completed',
+      processed: 4,
+      total: 4,
+      failed: 1,
+      skipped: [{ folder: 'INBOX', uidValidity: 7, uid: 3 }]
+    });
+  });
+
+  it('treats a failed batch as skipped while the connection is up', async () => {
+    (fetchMessages as jest.Mock).mockRejectedValueOnce(new Error('BAD fetch'));
+
+    await startBackfill(account, new Date('2024-01-01'), 2);
+    const state = await finished();
+
+    expect(state).toMatchObject({ status: 'completed', processed: 4, failed: 2 });
+    expect(state.skipped.map((s: { uid: number }) => s.uid)).toEqual([4, 3]);
+  });
+
+  it('fails the import when the connection drops so it can be resumed', async () => {
+    let session: { state: string } | undefined;
+    (fetchMessages as jest.Mock).mockImplementationOnce(async (imap: { state: string }) => {
+      session = imap;
+      imap.state = 'disconnected';
+      throw new Error('Connection ended');
+    });
+
+    await startBackfill(account, new Date('2024-01-01'), 2);
+    const state = await finished();
+    session!.state = 'authenticated';
+
+    expect(state).toMatchObject({ status: 'failed', error: 'Connection ended', processed: 0 });
+  });
+
+  it('only trusts stored UIDs from the current UIDVALIDITY', async () => {
+    await startBackfill(account, new Date('2024-01-01'), 50);
+    await finished();
+
+    expect(Email.distinct).toHaveBeenCalledWith('uid', expect.objectContaining({ folder: 'INBOX', uidValidity: 7 }));
+  });
+});
@@ -0,0 +1,33 @@
+import { mapLabelsToCategory, findCategoryName } from '../src/services/categoryService';
+
+// Read the seeded default categories from the in-memory data rather than MongoDB
+jest.mock('../src/config/runtime', () => ({ isDummyMode: true }));
+
+describe('mapLabelsToCategory', () => {
+  it('maps whole labels, ignoring case and Gmail system prefixes', async () => {
+    expect(await mapLabelsToCategory(['Interested'])).toBe('Interested');
+    expect(await mapLabelsToCategory(['\\Spam'])).toBe('Spam');
+    expect(await mapLabelsToCategory(['[Gmail]/Junk'])).toBe('Spam');
+  });
+
+  it('does not match a label that only contains a category label', async () => {
+    expect(await mapLabelsToCategory(['Not Interested'])).toBeUndefined();
+    expect(await mapLabelsToCategory(['spammy-vendor'])).toBeUndefined();
+  });
+
+  it('gives Spam precedence over other categories', async () => {
+    expect(await mapLabelsToCategory(['Interested', 'Spam'])).toBe('Spam');
+  });
+
+  it('leaves unmapped and missing labels to the rules and the LLM', async () => {
+    expect(await mapLabelsToCategory(['\\Inbox', 'Promotions'])).toBeUndefined();
+    expect(await mapLabelsToCategory(undefined)).toBeUndefined();
+  });
+});
+
+describe('findCategoryName', () => {
+  it('resolves names case-insensitively to the configured spelling', async () => {
+    expect(await findCategoryName(' meeting booked ')).toBe('Meeting Booked');
+    expect(await findCategoryName('Maybe')).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  encryptSecret,
+  decryptSecret,
+  isEncrypted,
+  needsReEncryption,
+  assertCredentialKey
+} from '../src/services/credentialService';
+
+describe('credentialService', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.CREDENTIALS_MASTER_KEY = 'current-master-key';
+    delete process.env.CREDENTIALS_PREVIOUS_KEYS;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('round-trips a secret', () => {
+    const stored = encryptSecret('app-password-123');
+    expect(isEncrypted(stored)).toBe(true);
+    expect(stored).not.toContain('app-password-123');
+    expect(decryptSecret(stored)).toBe('app-password-123');
+  });
+
+  it('uses a fresh IV for every encryption', () => {
+    expect(encryptSecret('same')).not.toBe(encryptSecret('same'));
+  });
+
+  it('passes through plain-text values stored before encryption existed', () => {
+    expect(isEncrypted('legacy-password')).toBe(false);
+    expect(decryptSecret('legacy-password')).toBe('legacy-password');
+    expect(needsReEncryption('legacy-password')).toBe(true);
+  });
+
+  it('reads values written with a retired key listed in CREDENTIALS_PREVIOUS_KEYS', () => {
+    process.env.CREDENTIALS_MASTER_KEY = 'old-master-key';
+    const stored = encryptSecret('rotate-me');
+
+    process.env.CREDENTIALS_MASTER_KEY = 'new-master-key';
+    process.env.CREDENTIALS_PREVIOUS_KEYS = 'older-key, old-master-key';
+    expect(decryptSecret(stored)).toBe('rotate-me');
+    expect(needsReEncryption(stored)).toBe(true);
+
+    const rotated = encryptSecret(decryptSecret(stored));
+    expect(needsReEncryption(rotated)).toBe(false);
+    expect(decryptSecret(rotated)).toBe('rotate-me');
+  });
+
+  it('refuses values from an unknown key', () => {
+    process.env.CREDENTIALS_MASTER_KEY = 'someone-elses-key';
+    const stored = encryptSecret('secret');
+
+    process.env.CREDENTIALS_MASTER_KEY = 'current-master-key';
+    expect(() => decryptSecret(stored)).toThrow('No master key available');
+  });
+
+  it('detects tampered ciphertext', () => {
+    const parts = encryptSecret('secret').split(':');
+    parts[5] = Buffer.from('tampered').toString('base64');
+    expect(() => decryptSecret(parts.join(':'))).toThrow();
+  });
+
+  it('requires a master key', () => {
+    delete process.env.CREDENTIALS_MASTER_KEY;
+    expect(() => assertCredentialKey()).toThrow('CREDENTIALS_MASTER_KEY is not set');
+  });
+});
@@ -0,0 +1,32 @@
+import { parseDraft, suggestionKey } from '../src/services/draftService';
+
+describe('suggestionKey', () => {
+  it('is the same for equivalent options', () => {
+    expect(suggestionKey({ tone: 'formal', language: 'German', variants: 2 }))
+      .toBe(suggestionKey({ tone: 'formal', language: 'german', variants: 2 }));
+    expect(suggestionKey({ variants: 1 })).toBe(suggestionKey({ tone: undefined, variants: 1 }));
+  });
+
+  it('differs when the tone, intent, language or number of variants changes', () => {
+    const base = suggestionKey({ variants: 1 });
+    expect(suggestionKey({ tone: 'casual', variants: 1 })).not.toBe(base);
+    expect(suggestionKey({ intent: 'decline', variants: 1 })).not.toBe(base);
+    expect(suggestionKey({ language: 'French', variants: 1 })).not.toBe(base);
+    expect(suggestionKey({ variants: 3 })).not.toBe(base);
+  });
+});
+
+describe('parseDraft', () => {
+  it('keeps valid fields and known options only', () => {
+    expect(parseDraft({
+      body: 'Hi there',
+      status: 'discarded',
+      options: { tone: 'short', language: '', extra: 'x' }
+    })).toEqual({ body: 'Hi there', status: 'discarded', options: { tone: 'short' } });
+  });
+
+  it('rejects empty bodies and unknown statuses', () => {
+    expect(parseDraft({ body: '  ' })).toBe('body must be a non-empty string');
+    expect(parseDraft({ status: 'archived' })).toBe('status must be one of: draft, sent, discarded');
+  });
+});
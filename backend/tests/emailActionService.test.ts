@@ -0,0 +1,55 @@
+import Correction from '../src/models/Correction';
+import { sendSlackNotification } from '../src/services/slackService';
+import { triggerWebhook } from '../src/services/webhookService';
+import { setManualCategory } from '../src/services/emailActionService';
+
+jest.mock('../src/server', () => ({ io: { emit: jest.fn() } }));
+jest.mock('../src/models/Correction', () => ({ __esModule: true, default: { create: jest.fn() } }));
+jest.mock('../src/services/elasticsearchService', () => ({ indexEmail: jest.fn(), removeEmailFromIndex: jest.fn() }));
+jest.mock('../src/services/semanticSearchService', () => ({ removeEmailVectors: jest.fn() }));
+jest.mock('../src/services/imapService', () => ({}));
+jest.mock('../src/services/slackService', () => ({ sendSlackNotification: jest.fn() }));
+jest.mock('../src/services/webhookService', () => ({ triggerWebhook: jest.fn() }));
+
+function email(category?: string): any {
+  return {
+    _id: 'e1',
+    account: 'me@example.com',
+    from: 'Alice <alice@example.com>',
+    subject: 'Pricing',
+    body: 'What does it cost?',
+    category,
+    categorization: category ? { source: 'llm', confidence: 0.4 } : undefined,
+    save: jest.fn()
+  };
+}
+
+describe('setManualCategory', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('marks the choice as manual and records it as a correction', async () => {
+    const updated = await setManualCategory(email('Spam'), 'Interested');
+
+    expect(updated.category).toBe('Interested');
+    expect(updated.categorization).toMatchObject({ source: 'manual', confidence: 1 });
+    expect(Correction.create).toHaveBeenCalledWith(expect.objectContaining({
+      email: 'e1',
+      snippet: 'What does it cost?',
+      previousCategory: 'Spam',
+      previousSource: 'llm',
+      category: 'Interested'
+    }));
+  });
+
+  it('notifies only when an email newly becomes Interested', async () => {
+    await setManualCategory(email('Spam'), 'Interested');
+    expect(sendSlackNotification).toHaveBeenCalledTimes(1);
+    expect(triggerWebhook).toHaveBeenCalledTimes(1);
+
+    await setManualCategory(email('Interested'), 'Interested');
+    await setManualCategory(email(), 'Spam');
+    expect(sendSlackNotification).toHaveBeenCalledTimes(1);
+  });
+});
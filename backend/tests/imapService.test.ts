@@ -0,0 +1,263 @@
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import Imap from 'imap';
+import Email from '../src/models/Email';
+import Account from '../src/models/Account';
+import { enqueueJob } from '../src/services/jobQueue';
+import {
+  fetchMessages,
+  fallbackMessageId,
+  ingestMessages,
+  reconcileExpunged,
+  applyServerFlags,
+  createIncrementalSync
+} from '../src/services/imapService';
+
+jest.mock('imap', () => jest.fn());
+jest.mock('../src/server', () => ({ io: { emit: jest.fn() } }));
+jest.mock('../src/models/Email', () => ({ __esModule: true, default: {
+  findOne: jest.fn(),
+  create: jest.fn(),
+  find: jest.fn(),
+  deleteMany: jest.fn(),
+  findOneAndUpdate: jest.fn()
+} }));
+jest.mock('../src/models/Account', () => ({ __esModule: true, default: { findById: jest.fn(), updateOne: jest.fn() } }));
+jest.mock('../src/services/elasticsearchService', () => ({ indexEmail: jest.fn(), removeEmailFromIndex: jest.fn() }));
+jest.mock('../src/services/semanticSearchService', () => ({ removeEmailVectors: jest.fn() }));
+jest.mock('../src/services/categoryService', () => ({ mapLabelsToCategory: jest.fn() }));
+jest.mock('../src/services/credentialService', () => ({ decryptSecret: (value: string) => value }));
+jest.mock('../src/services/threadService', () => ({ assignThread: jest.fn() }));
+jest.mock('../src/services/jobQueue', () => ({ enqueueJob: jest.fn() }));
+
+const findOne = Email.findOne as jest.Mock;
+const create = Email.create as jest.Mock;
+
+// Stands in for an Imap session whose fetch streams the given raw messages, keyed by UID
+function fakeImap(messages: Record<number, string>, uidvalidity = 7): any {
+  const imap = new EventEmitter();
+  return Object.assign(imap, {
+    connect: () => setImmediate(() => imap.emit('ready')),
+    end: jest.fn(),
+    openBox: (_path: string, _readOnly: boolean, cb: (err: Error | null, box: any) => void) => cb(null, { uidvalidity }),
+    fetch: (uids: number[]) => {
+      const fetch = new EventEmitter();
+      setImmediate(() => {
+        uids.forEach((uid, i) => {
+          const msg = new EventEmitter();
+          fetch.emit('message', msg, i + 1);
+          msg.emit('attributes', { uid, flags: [] });
+          msg.emit('body', Readable.from([messages[uid]]));
+          msg.emit('end');
+        });
+        fetch.emit('end');
+      });
+      return fetch;
+    }
+  });
+}
+
+function raw(headers: string, body: string): string {
+  return `From: alice@example.com\r\nSubject: Hello\r\n${headers}\r\n${body}`;
+}
+
+describe('fetchMessages', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findOne.mockResolvedValue(null);
+    create.mockImplementation(async (doc: any) => ({ ...doc, id: `id-${doc.uid}` }));
+  });
+
+  it('stores HTML-only and attachment-only mail with a body', async () => {
+    const imap = fakeImap({
+      1: raw('Message-ID: <a@x>\r\nContent-Type: text/html\r\n', '<p>Hi <b>there</b></p>'),
+      2: raw('Message-ID: <b@x>\r\nContent-Type: application/pdf\r\nContent-Disposition: attachment; filename=a.pdf\r\n', 'AAAA')
+    });
+
+    const result = await fetchMessages(imap, [1, 2], 'me@example.com', 'INBOX', 7);
+
+    expect(result).toEqual({ highestUid: 2, failed: [] });
+    expect(create.mock.calls.map(([doc]) => doc.body)).toEqual(['Hi there', '']);
+    expect(enqueueJob).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports messages that could not be stored without failing the rest', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    create.mockImplementation(async (doc: any) => {
+      if (doc.uid === 2) throw new Error('validation failed');
+      return { ...doc, id: `id-${doc.uid}` };
+    });
+    const imap = fakeImap({
+      1: raw('Message-ID: <a@x>\r\n', 'one'),
+      2: raw('Message-ID: <b@x>\r\n', 'two'),
+      3: raw('Message-ID: <c@x>\r\n', 'three')
+    });
+
+    const result = await fetchMessages(imap, [1, 2, 3], 'me@example.com', 'INBOX', 7);
+
+    expect(result).toEqual({ highestUid: 3, failed: [2] });
+    expect(enqueueJob).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives mail without a Message-ID the same id on every fetch', async () => {
+    const imap = fakeImap({ 5: raw('', 'no id') });
+
+    await fetchMessages(imap, [5], 'me@example.com', 'INBOX', 7);
+    await fetchMessages(imap, [5], 'me@example.com', 'INBOX', 7);
+
+    const ids = create.mock.calls.map(([doc]) => doc.messageId);
+    expect(ids).toEqual([fallbackMessageId('me@example.com', 'INBOX', 7, 5), fallbackMessageId('me@example.com', 'INBOX', 7, 5)]);
+    expect(fallbackMessageId('me@example.com', 'INBOX', 8, 5)).not.toBe(ids[0]);
+  });
+});
+
+describe('ingestMessages', () => {
+  const account = { id: 'acc1', email: 'me@example.com', password: 'secret', host: 'imap.example.com', port: 993, tls: true };
+  const messages = {
+    1: raw('Message-ID: <a@x>\r\n', 'one'),
+    2: raw('Message-ID: <b@x>\r\n', 'two')
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    (Account.findById as jest.Mock).mockReturnValue({ select: async () => account });
+    (Imap as unknown as jest.Mock).mockImplementation(() => fakeImap(messages));
+    findOne.mockResolvedValue(null);
+    create.mockImplementation(async (doc: any) => {
+      if (doc.uid === 2) throw new Error('validation failed');
+      return { ...doc, id: `id-${doc.uid}` };
+    });
+  });
+
+  it('splits messages that failed off into single-UID jobs', async () => {
+    const result = await ingestMessages({ accountId: 'acc1', folder: 'INBOX', uidValidity: 7, uids: [1, 2] });
+
+    expect(result.failed).toEqual([2]);
+    expect(enqueueJob).toHaveBeenCalledWith('ingest', { accountId: 'acc1', folder: 'INBOX', uidValidity: 7, uids: [2] });
+  });
+
+  it('fails a single-UID job so it is retried', async () => {
+    await expect(ingestMessages({ accountId: 'acc1', folder: 'INBOX', uidValidity: 7, uids: [2] }))
+      .rejects.toThrow('UID 2 in INBOX could not be stored');
+    expect(enqueueJob).not.toHaveBeenCalledWith('ingest', expect.anything());
+  });
+
+  it('drops the job when the folder was renumbered', async () => {
+    (Imap as unknown as jest.Mock).mockImplementation(() => fakeImap(messages, 8));
+
+    await expect(ingestMessages({ accountId: 'acc1', folder: 'INBOX', uidValidity: 7, uids: [1, 2] }))
+      .resolves.toEqual({ highestUid: 0, failed: [] });
+    expect(create).not.toHaveBeenCalled();
+  });
+});
+
+describe('reconcileExpunged', () => {
+  const searching = (uids: number[]): any => ({ search: (_criteria: unknown, cb: Function) => cb(null, uids) });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    (Email.find as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('only considers UIDs the search could have returned, in the current UIDVALIDITY', async () => {
+    await reconcileExpunged(searching([3, 5]), 'me@example.com', 'INBOX', { uidValidity: 7, lastUid: 4 });
+
+    expect(Email.find).toHaveBeenCalledWith({
+      account: 'me@example.com',
+      folder: 'INBOX',
+      uidValidity: 7,
+      uid: { $lte: 5, $nin: [3, 5] }
+    });
+  });
+
+  it('removes everything up to the checkpoint when the folder was emptied', async () => {
+    const gone = [{ _id: 'a', id: 'a' }, { _id: 'b', id: 'b' }];
+    (Email.find as jest.Mock).mockResolvedValue(gone);
+
+    await reconcileExpunged(searching([]), 'me@example.com', 'INBOX', { uidValidity: 7, lastUid: 9 });
+
+    expect((Email.find as jest.Mock).mock.calls[0][0].uid).toEqual({ $lte: 9, $nin: [] });
+    expect(Email.deleteMany).toHaveBeenCalledWith({ _id: { $in: ['a', 'b'] } });
+  });
+});
+
+describe('applyServerFlags', () => {
+  it('only updates the message in the current UIDVALIDITY', async () => {
+    (Email.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+    await applyServerFlags('me@example.com', 'INBOX', 7, 3, ['\\Seen']);
+
+    expect((Email.findOneAndUpdate as jest.Mock).mock.calls[0][0]).toMatchObject({ folder: 'INBOX', uidValidity: 7, uid: 3 });
+    expect((Email.findOneAndUpdate as jest.Mock).mock.calls[0][1]).toEqual({ $set: { isRead: true, isFlagged: false } });
+  });
+});
+
+describe('createIncrementalSync', () => {
+  // Answers each UID search with the given results, after the caller's callback is registered
+  const searching = (...responses: number[][]): any => ({
+    search: jest.fn((_criteria: unknown, cb: Function) => setImmediate(() => cb(null, responses.shift() ?? [])))
+  });
+  const run = (sync: (done?: () => void) => void) => new Promise<void>(resolve => sync(resolve));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (enqueueJob as jest.Mock).mockResolvedValue({});
+    (Account.updateOne as jest.Mock).mockResolvedValue({ matchedCount: 1 });
+  });
+
+  it('queues mail above the checkpoint in batches and then advances it', async () => {
+    const fresh = Array.from({ length: 60 }, (_, i) => 101 + i);
+    const imap = searching(fresh);
+    const checkpoint = { uidValidity: 7, lastUid: 100 };
+
+    await run(createIncrementalSync(imap, 'acc1', 'me@example.com', 'INBOX', checkpoint));
+
+    expect(imap.search.mock.calls[0][0]).toEqual([['UID', '101:*']]);
+    expect((enqueueJob as jest.Mock).mock.calls.map(([, payload]) => payload.uids.length)).toEqual([50, 10]);
+    expect(checkpoint.lastUid).toBe(160);
+    expect((Account.updateOne as jest.Mock).mock.calls[0][1].$set).toMatchObject({
+      'syncState.$.uidValidity': 7,
+      'syncState.$.lastUid': 160
+    });
+  });
+
+  it('ignores the last message that "n:*" returns when nothing is new', async () => {
+    const checkpoint = { uidValidity: 7, lastUid: 100 };
+
+    await run(createIncrementalSync(searching([90]), 'acc1', 'me@example.com', 'INBOX', checkpoint));
+
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(checkpoint.lastUid).toBe(100);
+  });
+
+  it('keeps the checkpoint when the mail could not be queued', async () => {
+    (enqueueJob as jest.Mock).mockRejectedValue(new Error('database down'));
+    const checkpoint = { uidValidity: 7, lastUid: 100 };
+
+    await run(createIncrementalSync(searching([101]), 'acc1', 'me@example.com', 'INBOX', checkpoint));
+
+    expect(checkpoint.lastUid).toBe(100);
+    expect(Account.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('folds triggers that arrive mid-run into one follow-up run', async () => {
+    const imap = searching([101], [102]);
+    const checkpoint = { uidValidity: 7, lastUid: 100 };
+    const sync = createIncrementalSync(imap, 'acc1', 'me@example.com', 'INBOX', checkpoint);
+
+    const first = run(sync);
+    sync();
+    sync();
+    await first;
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(imap.search).toHaveBeenCalledTimes(2);
+    expect(imap.search.mock.calls[1][0]).toEqual([['UID', '102:*']]);
+    expect(checkpoint.lastUid).toBe(102);
+  });
+});
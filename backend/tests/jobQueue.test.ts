@@ -0,0 +1,98 @@
+import Job from '../src/models/Job';
+import { registerJobHandler, startJobWorkers, requeueExpiredJobs } from '../src/services/jobQueue';
+
+jest.mock('../src/models/Job', () => ({
+  __esModule: true,
+  default: { findOneAndUpdate: jest.fn(), updateOne: jest.fn(), updateMany: jest.fn() }
+}));
+
+const findOneAndUpdate = Job.findOneAndUpdate as jest.Mock;
+const updateOne = Job.updateOne as jest.Mock;
+const updateMany = Job.updateMany as jest.Mock;
+
+// Let queued promise callbacks (claims, handlers, outcome updates) run
+const settle = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe('requeueExpiredJobs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    updateMany.mockResolvedValue({ modifiedCount: 0 });
+  });
+
+  it('only requeues running jobs whose lease has lapsed', async () => {
+    await requeueExpiredJobs();
+
+    const [filter, update] = updateMany.mock.calls[0];
+    expect(filter.status).toBe('running');
+    expect(filter.$or[0]).toEqual({ lockedUntil: { $lt: expect.any(Date) } });
+    // Jobs claimed before leases existed get one lease from when they were claimed
+    expect(filter.$or[1]).toEqual({ lockedUntil: { $exists: false }, lockedAt: { $lt: expect.any(Date) } });
+    expect(Date.now() - filter.$or[1].lockedAt.$lt.getTime()).toBeGreaterThanOrEqual(60 * 1000);
+    expect(update).toEqual({ $set: { status: 'queued', runAt: expect.any(Date) }, $unset: { lockedAt: 1, lockedUntil: 1 } });
+  });
+});
+
+describe('job workers', () => {
+  const job = { id: 'job1', _id: 'job1', stage: 'notify', payload: { n: 1 }, attempts: 1, maxAttempts: 5 };
+  let finishJob: (error?: Error) => void;
+  const handler = jest.fn(() => new Promise<void>((resolve, reject) => {
+    finishJob = error => (error ? reject(error) : resolve());
+  }));
+
+  beforeAll(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    updateMany.mockResolvedValue({ modifiedCount: 0 });
+    updateOne.mockResolvedValue({});
+    findOneAndUpdate.mockResolvedValue(null);
+    findOneAndUpdate.mockResolvedValueOnce(job);
+
+    registerJobHandler('notify', handler);
+    await startJobWorkers();
+    await settle();
+  });
+
+  afterAll(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('claims a job with a lease', () => {
+    const [filter, update] = findOneAndUpdate.mock.calls[0];
+    expect(filter).toMatchObject({ stage: 'notify', status: 'queued' });
+    expect(update.$set.lockedUntil.getTime() - update.$set.lockedAt.getTime()).toBe(60 * 1000);
+    expect(handler).toHaveBeenCalledWith({ n: 1 }, job);
+  });
+
+  it('renews the lease while the handler runs', async () => {
+    updateMany.mockClear();
+    jest.advanceTimersByTime(20 * 1000);
+    await settle();
+
+    const renewal = updateMany.mock.calls.find(([filter]) => filter.$or?.[0]?._id === 'job1');
+    expect(renewal).toBeDefined();
+    expect(renewal![0].$or[0]).toMatchObject({ status: 'running', lockedAt: expect.any(Date) });
+    expect(renewal![1].$set.lockedUntil.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('only records the outcome while the claim is still its own', async () => {
+    finishJob(new Error('Slack is down'));
+    await settle();
+
+    const [filter, update] = updateOne.mock.calls[0];
+    expect(filter).toEqual({ _id: 'job1', status: 'running', lockedAt: findOneAndUpdate.mock.calls[0][1].$set.lockedAt });
+    expect(update.$set).toMatchObject({ status: 'queued', lastError: 'Slack is down' });
+    expect(update.$unset).toEqual({ lockedAt: 1, lockedUntil: 1 });
+  });
+
+  it('stops renewing once the job is done', async () => {
+    updateMany.mockClear();
+    jest.advanceTimersByTime(20 * 1000);
+    await settle();
+
+    expect(updateMany.mock.calls.some(([filter]) => filter.$or?.[0]?._id === 'job1')).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  DEFAULT_PAGE_SIZE,
+  parsePageSize,
+  encodeCursor,
+  decodeCursor,
+  mongoAfterCursor,
+  nextCursorFor,
+  paginateInMemory
+} from '../src/services/paginationService';
+
+describe('parsePageSize', () => {
+  it('falls back to the default for missing or non-numeric limits', () => {
+    expect(parsePageSize(undefined)).toBe(DEFAULT_PAGE_SIZE);
+    expect(parsePageSize('abc')).toBe(DEFAULT_PAGE_SIZE);
+    expect(parsePageSize('0')).toBe(DEFAULT_PAGE_SIZE);
+  });
+
+  it('clamps to 1..200 and rounds down', () => {
+    expect(parsePageSize('-5')).toBe(1);
+    expect(parsePageSize('10000')).toBe(200);
+    expect(parsePageSize('12.9')).toBe(12);
+  });
+});
+
+describe('cursors', () => {
+  it('round-trips through encode and decode', () => {
+    const cursor = encodeCursor([1700000000000, '65a1b2c3d4e5f6a7b8c9d0e1']);
+    expect(decodeCursor(cursor)).toEqual([1700000000000, '65a1b2c3d4e5f6a7b8c9d0e1']);
+  });
+
+  it('treats a missing cursor as the first page', () => {
+    expect(decodeCursor(undefined)).toBeUndefined();
+    expect(decodeCursor('')).toBeUndefined();
+  });
+
+  it('returns null for malformed cursors', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('{"a":1}').toString('base64url'))).toBeNull();
+    expect(decodeCursor(Buffer.from('["x","id"]').toString('base64url'))).toBeNull();
+  });
+
+  it('builds a strictly-after condition on date and the tiebreaker', () => {
+    expect(mongoAfterCursor([1000, 'b'], '_id')).toEqual({
+      $or: [
+        { date: { $lt: new Date(1000) } },
+        { date: new Date(1000), _id: { $lt: 'b' } }
+      ]
+    });
+  });
+
+  it('only returns a next cursor for a full page', () => {
+    const valuesOf = (n: number): [number, string] => [n, String(n)];
+    expect(nextCursorFor([3, 2], 3, valuesOf)).toBeNull();
+    expect(decodeCursor(nextCursorFor([3, 2, 1], 3, valuesOf)!)).toEqual([1, '1']);
+  });
+});
+
+describe('paginateInMemory', () => {
+  const items = [
+    { _id: 'a', date: '2024-01-01T00:00:00Z' },
+    { _id: 'c', date: '2024-01-03T00:00:00Z' },
+    { _id: 'b', date: '2024-01-03T00:00:00Z' },
+    { _id: 'd', date: '2024-01-02T00:00:00Z' }
+  ];
+
+  it('pages newest first, breaking ties by id, without skipping or repeating items', () => {
+    const first = paginateInMemory(items, undefined, 2);
+    expect(first.items.map(i => i._id)).toEqual(['c', 'b']);
+    expect(first.total).toBe(4);
+
+    const second = paginateInMemory(items, decodeCursor(first.nextCursor!) || undefined, 2);
+    expect(second.items.map(i => i._id)).toEqual(['d', 'a']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('keeps pages stable when newer items arrive', () => {
+    const first = paginateInMemory(items, undefined, 2);
+    const grown = [...items, { _id: 'e', date: '2024-02-01T00:00:00Z' }];
+
+    const second = paginateInMemory(grown, decodeCursor(first.nextCursor!) || undefined, 2);
+    expect(second.items.map(i => i._id)).toEqual(['d', 'a']);
+  });
+});
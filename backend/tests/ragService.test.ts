@@ -0,0 +1,30 @@
+import { generateSuggestedReply } from '../src/services/ragService';
+
+jest.mock('../src/config/runtime', () => ({ isDummyMode: true }));
+jest.mock('../src/services/knowledgeService', () => ({ retrieveKnowledge: async () => [] }));
+jest.mock('../src/services/replyProfileService', () => ({
+  getReplyProfile: async () => ({ ...jest.requireActual('../src/config/defaultReplyProfile').DEFAULT_REPLY_PROFILE }),
+  findForbiddenPhrases: () => []
+}));
+
+const email = { from: 'Alice <alice@example.com>', subject: 'Pricing', body: 'What does it cost?', account: 'me@example.com' } as any;
+
+describe('generateSuggestedReply with the offline stub', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('is deterministic for the same generation', async () => {
+    const first = await generateSuggestedReply(email, { variants: 2 }, undefined, 3);
+    const again = await generateSuggestedReply(email, { variants: 2 }, undefined, 3);
+    expect(again.variants.map(v => v.reply)).toEqual(first.variants.map(v => v.reply));
+  });
+
+  it('varies the drafts within a request and between regenerations', async () => {
+    const first = await generateSuggestedReply(email, { variants: 2 }, undefined, 0);
+    const next = await generateSuggestedReply(email, { variants: 2 }, undefined, 1);
+
+    expect(first.variants[0].reply).not.toBe(first.variants[1].reply);
+    expect(next.variants[0].reply).toBe(first.variants[1].reply);
+  });
+});
@@ -0,0 +1,117 @@
+import Email from '../src/models/Email';
+import Recategorization from '../src/models/Recategorization';
+import { categorizeEmail } from '../src/services/aiCategorizationService';
+import {
+  buildRecategorizationFilter,
+  startRecategorization,
+  isRecategorizationRunning
+} from '../src/services/recategorizationService';
+
+jest.mock('../src/server', () => ({ io: { emit: jest.fn() } }));
+jest.mock('../src/models/Email', () => ({ __esModule: true, default: { countDocuments: jest.fn(), find: jest.fn() } }));
+jest.mock('../src/models/Recategorization', () => ({ __esModule: true, default: { create: jest.fn() } }));
+jest.mock('../src/services/aiCategorizationService', () => ({ categorizeEmail: jest.fn() }));
+jest.mock('../src/services/elasticsearchService', () => ({ indexEmail: jest.fn() }));
+
+describe('buildRecategorizationFilter', () => {
+  it('only covers uncategorized emails unless forced, and never manual choices', () => {
+    expect(buildRecategorizationFilter({ account: 'me@example.com' }, false)).toEqual({
+      'categorization.source': { $ne: 'manual' },
+      account: 'me@example.com',
+      category: { $in: [null, ''] }
+    });
+    expect(buildRecategorizationFilter({}, true)).toEqual({ 'categorization.source': { $ne: 'manual' } });
+  });
+
+  it('narrows by folder, date range and current category', () => {
+    const since = new Date('2024-01-01');
+    const until = new Date('2024-02-01');
+    expect(buildRecategorizationFilter({ folder: 'INBOX', since, until, category: 'Spam' }, false)).toEqual({
+      'categorization.source': { $ne: 'manual' },
+      folder: 'INBOX',
+      date: { $gte: since, $lte: until },
+      category: 'Spam'
+    });
+    expect(buildRecategorizationFilter({ category: '' }, true).category).toEqual({ $in: [null, ''] });
+  });
+});
+
+describe('startRecategorization', () => {
+  // Emails as returned by Email.find
+  const email = (id: string, category?: string): any => ({
+    _id: id,
+    subject: `Email ${id}`,
+    category,
+    save: jest.fn()
+  });
+
+  // Email.find(...).sort(...).limit(...) serving the pages in order
+  function pages(...batches: any[][]) {
+    (Email.find as jest.Mock).mockImplementation(() => ({
+      sort: () => ({ limit: async () => batches.shift() ?? [] })
+    }));
+  }
+
+  function fakeRun(overrides: object = {}): any {
+    return {
+      id: 'run1',
+      scope: {},
+      force: true,
+      status: 'running',
+      processed: 0,
+      changed: 0,
+      unchanged: 0,
+      failed: 0,
+      transitions: [],
+      ...overrides,
+      save: jest.fn().mockResolvedValue(undefined),
+      toObject() {
+        return { ...this };
+      }
+    };
+  }
+
+  async function finished() {
+    while (isRecategorizationRunning()) await new Promise(resolve => setImmediate(resolve));
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (Email.countDocuments as jest.Mock).mockResolvedValue(3);
+  });
+
+  it('counts changes, transitions and failures over every page', async () => {
+    const run = fakeRun();
+    (Recategorization.create as jest.Mock).mockResolvedValue(run);
+    pages([email('a', 'Spam'), email('b')], [email('c', 'Interested')]);
+    (categorizeEmail as jest.Mock)
+      .mockResolvedValueOnce({ category: 'Interested', categorization: { source: 'llm' } })
+      .mockResolvedValueOnce({ category: 'Interested', categorization: { source: 'llm' } })
+      .mockRejectedValueOnce(new Error('rate limited'));
+
+    await startRecategorization({}, true);
+    await finished();
+
+    expect(run).toMatchObject({ status: 'completed', processed: 3, changed: 2, unchanged: 0, failed: 1, lastEmailId: 'c' });
+    expect(run.transitions).toEqual([
+      { from: 'Spam', to: 'Interested', count: 1 },
+      { from: null, to: 'Interested', count: 1 }
+    ]);
+  });
+
+  it('continues after the last email a resumed run handled', async () => {
+    const run = fakeRun({ lastEmailId: 'b', processed: 2 });
+    (Recategorization.create as jest.Mock).mockResolvedValue(run);
+    pages([email('c', 'Interested')]);
+    (categorizeEmail as jest.Mock).mockResolvedValue({ category: 'Interested', categorization: { source: 'llm' } });
+
+    await startRecategorization({}, true);
+    await finished();
+
+    expect((Email.find as jest.Mock).mock.calls[0][0]._id).toEqual({ $gt: 'b' });
+    expect(run).toMatchObject({ status: 'completed', processed: 3, unchanged: 1 });
+  });
+});
@@ -0,0 +1,62 @@
+import { parseReplyProfile, resolveReplyProfile, findForbiddenPhrases } from '../src/services/replyProfileService';
+import { ensureSignature } from '../src/services/ragService';
+import { DEFAULT_REPLY_PROFILE } from '../src/config/defaultReplyProfile';
+
+describe('parseReplyProfile', () => {
+  it('trims text fields and de-duplicates forbidden phrases', () => {
+    expect(parseReplyProfile({
+      productName: '  Onebox ',
+      signature: 'Cheers,\nSam',
+      forbiddenPhrases: ['guarantee', ' guarantee ', '', 'free trial']
+    })).toEqual({
+      productName: 'Onebox',
+      signature: 'Cheers,\nSam',
+      forbiddenPhrases: ['guarantee', 'free trial']
+    });
+  });
+
+  it('accepts forbidden phrases as newline-separated text', () => {
+    expect(parseReplyProfile({ forbiddenPhrases: 'guarantee\n\nrisk-free' })).toEqual({
+      forbiddenPhrases: ['guarantee', 'risk-free']
+    });
+  });
+
+  it('rejects non-string fields and meeting links that are not http(s) URLs', () => {
+    expect(parseReplyProfile({ tone: 5 })).toBe('tone must be a string');
+    expect(parseReplyProfile({ meetingLink: 'javascript:alert(1)' })).toBe('meetingLink must be an http(s) URL');
+  });
+});
+
+describe('resolveReplyProfile', () => {
+  it('uses the defaults for empty fields', () => {
+    expect(resolveReplyProfile(undefined)).toEqual(DEFAULT_REPLY_PROFILE);
+    expect(resolveReplyProfile({ productName: 'Onebox', tone: '' })).toEqual({
+      ...DEFAULT_REPLY_PROFILE,
+      productName: 'Onebox'
+    });
+  });
+});
+
+describe('findForbiddenPhrases', () => {
+  it('finds phrases regardless of case', () => {
+    const profile = { ...DEFAULT_REPLY_PROFILE, forbiddenPhrases: ['Guarantee', 'free trial'] };
+    expect(findForbiddenPhrases('We GUARANTEE results.', profile)).toEqual(['Guarantee']);
+  });
+});
+
+describe('ensureSignature', () => {
+  const signature = 'Best regards,\nSam';
+
+  it('appends a missing signature after a blank line', () => {
+    expect(ensureSignature('Thanks for reaching out.  \n', signature)).toBe(`Thanks for reaching out.\n\n${signature}`);
+  });
+
+  it('leaves a reply that already ends with the signature alone', () => {
+    const reply = `Thanks!\n\n${signature}`;
+    expect(ensureSignature(reply, signature)).toBe(reply);
+  });
+
+  it('does nothing without a signature', () => {
+    expect(ensureSignature('Thanks!', '')).toBe('Thanks!');
+  });
+});
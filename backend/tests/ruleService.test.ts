@@ -0,0 +1,87 @@
+import { ruleMatches, validateRule } from '../src/services/ruleService';
+import { DEFAULT_RULES, RuleDefinition } from '../src/config/defaultRules';
+
+function rule(overrides: Partial<RuleDefinition>): RuleDefinition {
+  return {
+    name: 'test',
+    field: 'any',
+    matchType: 'contains',
+    value: '',
+    category: 'Spam',
+    priority: 0,
+    stage: 'fallback',
+    enabled: true,
+    ...overrides
+  };
+}
+
+// What evaluateRules does with the seeded rules: the first match by priority
+function firstDefaultMatch(email: Parameters<typeof ruleMatches>[1], stage: RuleDefinition['stage']) {
+  return [...DEFAULT_RULES]
+    .sort((a, b) => b.priority - a.priority)
+    .find(r => r.enabled && r.stage === stage && ruleMatches(r, email))?.category;
+}
+
+describe('ruleMatches', () => {
+  it('matches text case-insensitively in the chosen field', () => {
+    const email = { subject: 'Pricing question', body: 'Can you send a QUOTE?' };
+    expect(ruleMatches(rule({ field: 'body', value: 'quote' }), email)).toBe(true);
+    expect(ruleMatches(rule({ field: 'subject', value: 'quote' }), email)).toBe(false);
+    expect(ruleMatches(rule({ field: 'any', value: 'pricing' }), email)).toBe(true);
+  });
+
+  it('falls back to the HTML when there is no text body', () => {
+    expect(ruleMatches(rule({ field: 'body', value: 'unsubscribe' }), { html: '<a>Unsubscribe</a>' })).toBe(true);
+  });
+
+  it('matches recipients', () => {
+    expect(ruleMatches(rule({ field: 'to', value: 'sales@' }), { to: ['a@x.com', 'sales@acme.com'] })).toBe(true);
+  });
+
+  it('matches regular expressions', () => {
+    expect(ruleMatches(rule({ matchType: 'regex', value: '\\bdemo\\b' }), { body: 'Book a demo today' })).toBe(true);
+    expect(ruleMatches(rule({ matchType: 'regex', value: '\\bdemo\\b' }), { body: 'demonstration' })).toBe(false);
+  });
+
+  it('matches sender domains and their subdomains', () => {
+    const domainRule = rule({ matchType: 'senderDomain', value: '@acme.com' });
+    expect(ruleMatches(domainRule, { from: 'Bob <bob@acme.com>' })).toBe(true);
+    expect(ruleMatches(domainRule, { from: 'bob@mail.acme.com' })).toBe(true);
+    expect(ruleMatches(domainRule, { from: 'bob@notacme.com' })).toBe(false);
+  });
+
+  it('matches header values by lower-cased header name', () => {
+    const headerRule = rule({ matchType: 'header', header: 'Auto-Submitted', value: '^auto-replied' });
+    expect(ruleMatches(headerRule, { headers: { 'auto-submitted': 'auto-replied' } })).toBe(true);
+    expect(ruleMatches(headerRule, { headers: { 'auto-submitted': 'no' } })).toBe(false);
+    expect(ruleMatches(headerRule, {})).toBe(false);
+  });
+
+  it('treats a broken pattern as no match instead of throwing', () => {
+    expect(ruleMatches(rule({ matchType: 'regex', value: '(' }), { body: '(' })).toBe(false);
+  });
+});
+
+describe('validateRule', () => {
+  it('accepts a complete rule', () => {
+    expect(validateRule(rule({ value: 'promo' }))).toBeNull();
+  });
+
+  it('requires a value, a header for header rules and a valid pattern', () => {
+    expect(validateRule(rule({ value: '  ' }))).toBe('value is required');
+    expect(validateRule(rule({ matchType: 'header', value: 'x' }))).toBe('header is required for header rules');
+    expect(validateRule(rule({ matchType: 'regex', value: '(' }))).toMatch(/^Invalid regular expression/);
+  });
+});
+
+describe('default rules', () => {
+  it('put declines ahead of buying signals', () => {
+    expect(firstDefaultMatch({ body: 'Thanks, but we are not interested.' }, 'fallback')).toBe('Not Interested');
+    expect(firstDefaultMatch({ body: 'We are interested, what is the pricing?' }, 'fallback')).toBe('Interested');
+  });
+
+  it('recognize auto-replies before the LLM runs', () => {
+    expect(firstDefaultMatch({ headers: { 'auto-submitted': 'auto-replied' } }, 'before')).toBe('Out of Office');
+    expect(firstDefaultMatch({ body: 'I am out of office until Monday' }, 'before')).toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  parseSearchQuery,
+  toMongoFilter,
+  toElasticsearchQuery,
+  matchesQuery,
+  highlightTerms,
+  SearchQueryError
+} from '../src/services/searchQueryService';
+
+describe('parseSearchQuery', () => {
+  it('parses an empty query to undefined', () => {
+    expect(parseSearchQuery('')).toBeUndefined();
+    expect(parseSearchQuery('   ')).toBeUndefined();
+    expect(parseSearchQuery(undefined)).toBeUndefined();
+  });
+
+  it('joins side-by-side terms with AND', () => {
+    expect(parseSearchQuery('budget review')).toEqual({
+      type: 'and',
+      nodes: [
+        { type: 'text', value: 'budget', phrase: false },
+        { type: 'text', value: 'review', phrase: false }
+      ]
+    });
+  });
+
+  it('reads field operators, phrases and negation', () => {
+    expect(parseSearchQuery('from:alice subject:"q3 budget" -category:Spam')).toEqual({
+      type: 'and',
+      nodes: [
+        { type: 'text', field: 'from', value: 'alice', phrase: false },
+        { type: 'text', field: 'subject', value: 'q3 budget', phrase: true },
+        { type: 'not', node: { type: 'category', value: 'Spam' } }
+      ]
+    });
+  });
+
+  it('binds OR tighter than the implicit AND', () => {
+    expect(parseSearchQuery('a OR b c')).toEqual({
+      type: 'and',
+      nodes: [
+        {
+          type: 'or',
+          nodes: [
+            { type: 'text', value: 'a', phrase: false },
+            { type: 'text', value: 'b', phrase: false }
+          ]
+        },
+        { type: 'text', value: 'c', phrase: false }
+      ]
+    });
+  });
+
+  it('groups with parentheses and negates a whole group', () => {
+    expect(parseSearchQuery('-(in:Archive OR is:read)')).toEqual({
+      type: 'not',
+      node: {
+        type: 'or',
+        nodes: [
+          { type: 'folder', value: 'Archive' },
+          { type: 'read', value: true }
+        ]
+      }
+    });
+  });
+
+  it('maps is:, has: and date operators', () => {
+    expect(parseSearchQuery('is:unread')).toEqual({ type: 'read', value: false });
+    expect(parseSearchQuery('is:starred')).toEqual({ type: 'flagged' });
+    expect(parseSearchQuery('has:attachment')).toEqual({ type: 'attachment' });
+    expect(parseSearchQuery('after:2024/1/31')).toEqual({
+      type: 'date',
+      op: 'after',
+      value: new Date(Date.UTC(2024, 0, 31))
+    });
+  });
+
+  it('keeps unknown prefixes and URLs as plain text', () => {
+    expect(parseSearchQuery('re:')).toEqual({ type: 'text', value: 're:', phrase: false });
+    expect(parseSearchQuery('https://example.com/a')).toEqual({
+      type: 'text',
+      value: 'https://example.com/a',
+      phrase: false
+    });
+  });
+
+  it.each([
+    ['"unclosed', 'Unclosed quote'],
+    ['(a b', 'Missing ")"'],
+    ['a b)', 'Unexpected ")"'],
+    ['()', 'Empty group'],
+    ['a OR', 'OR needs a search term on both sides'],
+    ['OR a', 'OR needs a search term on both sides'],
+    ['from:', 'Missing value after "from:"'],
+    ['is:maybe', 'Unknown value "is:maybe" (expected unread, read or flagged)'],
+    ['has:link', 'Unknown value "has:link" (expected has:attachment)'],
+    ['before:2024/02/31', 'Invalid date "2024/02/31" for before: (use YYYY/MM/DD)']
+  ])('rejects %s', (query, message) => {
+    expect(() => parseSearchQuery(query)).toThrow(SearchQueryError);
+    expect(() => parseSearchQuery(query)).toThrow(message);
+  });
+});
+
+describe('query translation', () => {
+  const email = {
+    from: 'Alice <alice@example.com>',
+    subject: 'Q3 budget review',
+    body: 'Numbers attached',
+    category: 'Interested',
+    folder: 'INBOX',
+    isRead: false,
+    attachments: [{ filename: 'q3.xlsx', size: 10 }],
+    date: new Date('2024-03-01T10:00:00Z')
+  };
+
+  it('matches in memory the way the MongoDB filter does', () => {
+    const matches = (query: string) => matchesQuery(parseSearchQuery(query)!, email);
+
+    expect(matches('from:alice budget')).toBe(true);
+    expect(matches('subject:"budget review" is:unread has:attachment')).toBe(true);
+    expect(matches('category:interested after:2024/03/01')).toBe(true);
+    expect(matches('-in:inbox')).toBe(false);
+    expect(matches('before:2024/03/01 OR from:bob')).toBe(false);
+  });
+
+  it('builds a MongoDB filter with escaped, case-insensitive patterns', () => {
+    expect(toMongoFilter(parseSearchQuery('subject:a.b -is:read')!)).toEqual({
+      $and: [
+        { subject: { $regex: 'a\\.b', $options: 'i' } },
+        { $nor: [{ isRead: true }] }
+      ]
+    });
+  });
+
+  it('builds an Elasticsearch bool query', () => {
+    expect(toElasticsearchQuery(parseSearchQuery('"budget review" OR is:flagged')!)).toEqual({
+      bool: {
+        should: [
+          { multi_match: { query: 'budget review', fields: ['subject^2', 'body', 'from'], type: 'phrase' } },
+          { term: { isFlagged: true } }
+        ],
+        minimum_should_match: 1
+      }
+    });
+  });
+
+  it('highlights positive free text and subject terms only', () => {
+    expect(highlightTerms(parseSearchQuery('budget subject:q3 from:alice -draft'))).toEqual({
+      subject: ['budget', 'q3'],
+      body: ['budget']
+    });
+  });
+});
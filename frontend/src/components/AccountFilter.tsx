@@ -0,0 +1,30 @@
+import { FacetBucket } from '../types';
+
+interface Props {
+  selected: string;
+  onChange: (account: string) => void;
+  accounts: FacetBucket[];
+}
+
+// Accounts come from the listing's facet counts, so only mailboxes with matching mail are offered
+const AccountFilter: React.FC<Props> = ({ selected, onChange, accounts }) => {
+  const options = selected !== 'all' && !accounts.some(a => a.value === selected)
+    ? [...accounts, { value: selected, count: 0 }]
+    : accounts;
+
+  return (
+    <div className="account-filter">
+      <h3>Accounts</h3>
+      <select value={selected} onChange={(e) => onChange(e.target.value)}>
+        <option value="all">All accounts</option>
+        {options.map(account => (
+          <option key={account.value} value={account.value}>
+            {account.value} ({account.count})
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default AccountFilter;
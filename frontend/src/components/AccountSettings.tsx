@@ -0,0 +1,375 @@
+import { useState, useEffect } from 'react';
+import { Account, Mailbox, ReplyProfile } from '../types';
+import {
+  fetchAccounts,
+  fetchAccountFolders,
+  createAccount,
+  updateAccount,
+  deleteAccount,
+  startBackfill,
+  cancelBackfill,
+  fetchReplyProfile,
+  updateReplyProfile
+} from '../services/api';
+
+const emptyForm = { email: '', password: '', host: '', port: '993', tls: true, smtpHost: '', smtpPort: '' };
+
+interface FolderPickerProps {
+  account: Account;
+  onSaved: () => void;
+}
+
+// Lists the server's mailboxes and lets the user choose which ones to sync
+const FolderPicker: React.FC<FolderPickerProps> = ({ account, onSaved }) => {
+  const [mailboxes, setMailboxes] = useState<Mailbox[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const data = await fetchAccountFolders(account._id);
+        setMailboxes(data.filter(m => m.selectable));
+        setSelected(data.filter(m => m.synced).map(m => m.path));
+      } catch (err: any) {
+        setError(err?.response?.data?.error || err?.message || 'Unable to load folders');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [account._id]);
+
+  const toggle = (path: string) => {
+    setSelected(selected.includes(path) ? selected.filter(p => p !== path) : [...selected, path]);
+  };
+
+  const save = async () => {
+    try {
+      await updateAccount(account._id, { folders: selected });
+      onSaved();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to save folders');
+    }
+  };
+
+  if (loading) return <p>Loading folders...</p>;
+
+  return (
+    <div className="folder-picker">
+      {mailboxes.map(m => (
+        <label key={m.path} className="settings-check">
+          <input type="checkbox" checked={selected.includes(m.path)} onChange={() => toggle(m.path)} />
+          {m.path}
+          {m.specialUse && <span className="settings-muted"> {m.specialUse.replace('\\', '')}</span>}
+        </label>
+      ))}
+      {error && <p className="error">{error}</p>}
+      <button className="link-btn" onClick={save} disabled={selected.length === 0}>Save folders</button>
+    </div>
+  );
+};
+
+interface ReplyProfileEditorProps {
+  accountId: string;
+  onSaved: () => void;
+}
+
+type ProfileForm = Omit<ReplyProfile, 'forbiddenPhrases'> & { forbiddenPhrases: string };
+
+const emptyProfile: ProfileForm = { productName: '', productDescription: '', tone: '', signature: '', meetingLink: '', forbiddenPhrases: '' };
+
+// Persona used for this account's suggested replies; the defaults show as placeholders
+const ReplyProfileEditor: React.FC<ReplyProfileEditorProps> = ({ accountId, onSaved }) => {
+  const [form, setForm] = useState<ProfileForm>(emptyProfile);
+  const [defaults, setDefaults] = useState<ReplyProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const data = await fetchReplyProfile(accountId);
+        setDefaults(data.defaults);
+        setForm({
+          ...emptyProfile,
+          ...data.profile,
+          forbiddenPhrases: (data.profile.forbiddenPhrases || []).join('\n')
+        });
+      } catch (err: any) {
+        setError(err?.response?.data?.error || err?.message || 'Unable to load reply profile');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [accountId]);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await updateReplyProfile(accountId, {
+        ...form,
+        forbiddenPhrases: form.forbiddenPhrases.split('\n').map(p => p.trim()).filter(Boolean)
+      });
+      onSaved();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to save reply profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return <p>Loading reply profile...</p>;
+
+  return (
+    <form className="reply-profile-form" onSubmit={save}>
+      <input
+        type="text"
+        placeholder={`Product name (${defaults?.productName})`}
+        value={form.productName}
+        onChange={(e) => setForm({ ...form, productName: e.target.value })}
+      />
+      <textarea
+        placeholder={`Product description (${defaults?.productDescription})`}
+        value={form.productDescription}
+        onChange={(e) => setForm({ ...form, productDescription: e.target.value })}
+        rows={3}
+      />
+      <input
+        type="text"
+        placeholder={`Tone (${defaults?.tone})`}
+        value={form.tone}
+        onChange={(e) => setForm({ ...form, tone: e.target.value })}
+      />
+      <input
+        type="url"
+        placeholder={`Meeting link (${defaults?.meetingLink})`}
+        value={form.meetingLink}
+        onChange={(e) => setForm({ ...form, meetingLink: e.target.value })}
+      />
+      <textarea
+        placeholder={`Signature\n${defaults?.signature}`}
+        value={form.signature}
+        onChange={(e) => setForm({ ...form, signature: e.target.value })}
+        rows={3}
+      />
+      <textarea
+        placeholder="Forbidden phrases, one per line"
+        value={form.forbiddenPhrases}
+        onChange={(e) => setForm({ ...form, forbiddenPhrases: e.target.value })}
+        rows={3}
+      />
+      {error && <p className="error">{error}</p>}
+      <button className="link-btn" type="submit" disabled={saving}>
+        {saving ? 'Saving...' : 'Save reply profile'}
+      </button>
+    </form>
+  );
+};
+
+const AccountSettings: React.FC = () => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingFolders, setEditingFolders] = useState<string | null>(null);
+  const [editingProfile, setEditingProfile] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const loadAccounts = async () => {
+    try {
+      const data = await fetchAccounts();
+      setAccounts(data);
+    } catch (err) {
+      console.error('Error loading accounts:', err);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await createAccount({
+        email: form.email,
+        password: form.password,
+        host: form.host,
+        port: Number(form.port),
+        tls: form.tls,
+        smtpHost: form.smtpHost || undefined,
+        smtpPort: form.smtpPort ? Number(form.smtpPort) : undefined
+      });
+      setForm(emptyForm);
+      await loadAccounts();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to add account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBackfill = async (account: Account) => {
+    const input = prompt(`Import history for ${account.email} — how many days back?`, '365');
+    const days = Number(input);
+    if (!input || !days || days < 1) return;
+    try {
+      await startBackfill(account._id, days);
+      await loadAccounts();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to start import');
+    }
+  };
+
+  const handleCancelBackfill = async (account: Account) => {
+    try {
+      await cancelBackfill(account._id);
+      await loadAccounts();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to cancel import');
+    }
+  };
+
+  const handleRemove = async (account: Account) => {
+    if (!confirm(`Remove ${account.email}? Synced emails are kept.`)) return;
+    try {
+      await deleteAccount(account._id);
+      await loadAccounts();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to remove account');
+    }
+  };
+
+  return (
+    <div className="settings-section">
+      <h3>Email Accounts</h3>
+      {accounts.length === 0 ? (
+        <p>No accounts connected yet</p>
+      ) : (
+        <ul>
+          {accounts.map(account => (
+            <li key={account._id || account.email}>
+              <div className="settings-row">
+                <span>
+                  {account.isConnected ? '🟢' : '⚪'} {account.email}
+                  <span className="settings-muted"> — {account.host}:{account.port} · {(account.folders || ['INBOX']).join(', ')}</span>
+                </span>
+                <span>
+                  <button
+                    className="link-btn"
+                    onClick={() => setEditingProfile(editingProfile === account.email ? null : account.email)}
+                  >
+                    Reply profile
+                  </button>
+                  {account._id && (
+                    <>
+                      <button
+                        className="link-btn"
+                        onClick={() => setEditingFolders(editingFolders === account._id ? null : account._id)}
+                      >
+                        Folders
+                      </button>
+                      {account.backfill?.status === 'running' ? (
+                        <button className="link-btn" onClick={() => handleCancelBackfill(account)}>Cancel import</button>
+                      ) : (
+                        <button className="link-btn" onClick={() => handleBackfill(account)}>Import history</button>
+                      )}
+                      <button className="link-btn" onClick={() => handleRemove(account)}>Remove</button>
+                    </>
+                  )}
+                </span>
+              </div>
+              {account.backfill?.status && (
+                <div className="settings-muted">
+                  History import {account.backfill.status}: {account.backfill.processed}/{account.backfill.total} emails
+                  {!!account.backfill.failed && ` (${account.backfill.failed} could not be imported)`}
+                  {account.backfill.error && ` — ${account.backfill.error}`}
+                </div>
+              )}
+              {editingFolders === account._id && (
+                <FolderPicker
+                  account={account}
+                  onSaved={() => {
+                    setEditingFolders(null);
+                    loadAccounts();
+                  }}
+                />
+              )}
+              {editingProfile === account.email && (
+                <ReplyProfileEditor
+                  // Demo accounts have no id; the demo API looks them up by address
+                  accountId={account._id || account.email}
+                  onSaved={() => setEditingProfile(null)}
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="settings-form" onSubmit={handleSubmit}>
+        <input
+          type="email"
+          placeholder="Email address"
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+          required
+        />
+        <input
+          type="password"
+          placeholder="Password / app password"
+          value={form.password}
+          onChange={(e) => setForm({ ...form, password: e.target.value })}
+          required
+        />
+        <input
+          type="text"
+          placeholder="IMAP host"
+          value={form.host}
+          onChange={(e) => setForm({ ...form, host: e.target.value })}
+          required
+        />
+        <input
+          type="number"
+          placeholder="Port"
+          value={form.port}
+          onChange={(e) => setForm({ ...form, port: e.target.value })}
+          required
+        />
+        <input
+          type="text"
+          placeholder="SMTP host (optional)"
+          value={form.smtpHost}
+          onChange={(e) => setForm({ ...form, smtpHost: e.target.value })}
+        />
+        <input
+          type="number"
+          placeholder="SMTP port (587)"
+          value={form.smtpPort}
+          onChange={(e) => setForm({ ...form, smtpPort: e.target.value })}
+        />
+        <label className="settings-check">
+          <input
+            type="checkbox"
+            checked={form.tls}
+            onChange={(e) => setForm({ ...form, tls: e.target.checked })}
+          />
+          TLS
+        </label>
+        <button type="submit" disabled={saving}>
+          {saving ? 'Connecting...' : '➕ Add Account'}
+        </button>
+      </form>
+      {error && <p className="error">{error}</p>}
+    </div>
+  );
+};
+
+export default AccountSettings;
@@ -1,25 +1,28 @@
- 
+import { Category } from '../types';
+
+export const REVIEW_FILTER = '__review__';
 
 interface Props {
   selected: string;
   onChange: (category: string) => void;
+  categories: Category[];
+  // Emails per category for the current search and account, when known
+  counts?: Record<string, number>;
 }
 
-const CategoryFilter: React.FC<Props> = ({ selected, onChange }) => {
-  const categories = [
-    { id: 'all', label: '📧 All', icon: '📧' },
-    { id: 'Interested', label: '🎯 Interested', icon: '🎯' },
-    { id: 'Meeting Booked', label: '📅 Meeting Booked', icon: '📅' },
-    { id: 'Not Interested', label: '❌ Not Interested', icon: '❌' },
-    { id: 'Spam', label: '🗑️ Spam', icon: '🗑️' },
-    { id: 'Out of Office', label: '🏖️ Out of Office', icon: '🏖️' }
+const CategoryFilter: React.FC<Props> = ({ selected, onChange, categories, counts }) => {
+  const options = [
+    { id: 'all', icon: '📧', label: 'All' },
+    ...categories.map(c => ({ id: c.name, icon: c.icon, label: c.name })),
+    // Low-confidence and uncategorized emails waiting for a human decision
+    { id: REVIEW_FILTER, icon: '🔍', label: 'Needs review' }
   ];
 
   return (
     <div className="category-filter">
       <h3>Categories</h3>
       <div className="categories-row">
-        {categories.map(cat => (
+        {options.map(cat => (
           <button
             key={cat.id}
             className={`category-btn ${selected === cat.id ? 'active' : ''}`}
@@ -27,7 +30,8 @@ const CategoryFilter: React.FC<Props> = ({ selected, onChange }) => {
             aria-pressed={selected === cat.id}
           >
             <span>{cat.icon}</span>
-            <span>{cat.id === 'all' ? 'All' : cat.id}</span>
+            <span>{cat.label}</span>
+            {counts && cat.id in counts && <span className="category-count">{counts[cat.id]}</span>}
           </button>
         ))}
       </div>
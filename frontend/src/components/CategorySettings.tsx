@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { Category } from '../types';
+import { fetchCategories, createCategory, deleteCategory } from '../services/api';
+
+const emptyForm = { name: '', description: '', icon: '🏷️', color: '#8a90ad' };
+
+const CategorySettings: React.FC = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      const data = await fetchCategories();
+      setCategories(data);
+    } catch (err) {
+      console.error('Error loading categories:', err);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await createCategory(form);
+      setForm(emptyForm);
+      await loadCategories();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to add category');
+    }
+  };
+
+  const handleRemove = async (category: Category) => {
+    if (!confirm(`Delete category "${category.name}"? Emails already in it keep the label.`)) return;
+    try {
+      await deleteCategory(category._id);
+      await loadCategories();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to delete category');
+    }
+  };
+
+  return (
+    <div className="settings-section">
+      <h3>Categories</h3>
+      <p className="settings-muted">The description is given to the AI model to explain when a category applies</p>
+      <ul>
+        {categories.map(category => (
+          <li key={category._id}>
+            <div className="settings-row">
+              <span>
+                <span style={{ color: category.color }}>{category.icon} {category.name}</span>
+                {category.description && <span className="settings-muted"> — {category.description}</span>}
+              </span>
+              <button className="link-btn" onClick={() => handleRemove(category)}>Delete</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <form className="settings-form" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          placeholder="Name (e.g. Referral)"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          required
+        />
+        <input
+          type="text"
+          placeholder="When does it apply?"
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+        />
+        <input
+          type="text"
+          placeholder="Icon"
+          value={form.icon}
+          onChange={(e) => setForm({ ...form, icon: e.target.value })}
+        />
+        <input
+          type="color"
+          value={form.color}
+          onChange={(e) => setForm({ ...form, color: e.target.value })}
+        />
+        <button type="submit">➕ Add Category</button>
+      </form>
+      {error && <p className="error">{error}</p>}
+    </div>
+  );
+};
+
+export default CategorySettings;
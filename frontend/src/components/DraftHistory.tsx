@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { Draft } from '../types';
+import { fetchDrafts, updateDraft } from '../services/api';
+
+interface Props {
+  emailId: string;
+  // Changes whenever drafts may have changed elsewhere, e.g. after the reply panel saves one
+  reloadKey: number;
+  onResume: (draft: Draft) => void;
+}
+
+const STATUS_LABELS: Record<Draft['status'], string> = {
+  draft: '📝 Draft',
+  sent: '📤 Sent',
+  discarded: '🗑️ Discarded'
+};
+
+// Saved drafts and sent replies for an email, newest first
+const DraftHistory: React.FC<Props> = ({ emailId, reloadKey, onResume }) => {
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDrafts();
+  }, [emailId, reloadKey]);
+
+  const loadDrafts = async () => {
+    try {
+      setDrafts(await fetchDrafts(emailId));
+      setError(null);
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to load drafts');
+    }
+  };
+
+  const handleDiscard = async (draft: Draft) => {
+    try {
+      await updateDraft(emailId, draft._id, { status: 'discarded' });
+      await loadDrafts();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to discard draft');
+    }
+  };
+
+  if (drafts.length === 0 && !error) return null;
+
+  return (
+    <div className="draft-history">
+      <h4>Drafts &amp; replies ({drafts.length})</h4>
+      {error && <p className="error">{error}</p>}
+      {drafts.map(draft => (
+        <details key={draft._id} className={draft.status}>
+          <summary>
+            {STATUS_LABELS[draft.status]}
+            <span className="settings-muted">
+              {' '}— {draft.author} · {new Date(draft.sentAt || draft.updatedAt).toLocaleString()}
+              {draft.generated && draft.generated !== draft.body && ' · edited'}
+            </span>
+          </summary>
+          <p>{draft.body}</p>
+          {draft.status === 'draft' && (
+            <div className="draft-actions">
+              <button className="link-btn" onClick={() => onResume(draft)}>Continue editing</button>
+              <button className="link-btn" onClick={() => handleDiscard(draft)}>Discard</button>
+            </div>
+          )}
+        </details>
+      ))}
+    </div>
+  );
+};
+
+export default DraftHistory;
@@ -1,11 +1,25 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import SuggestedReply from './SuggestedReply';
-import { Email } from '../types';
+import DraftHistory from './DraftHistory';
+import ThreadView from './ThreadView';
+import Highlight from './Highlight';
+import { Email, Category, Draft } from '../types';
+import { updateEmail, deleteEmail, setEmailCategory } from '../services/api';
 
 interface Props {
   email: Email;
+  categories?: Category[];
+  onUpdated?: (email: Email) => void;
+  onDeleted?: (id: string) => void;
 }
 
+const SOURCE_LABELS: Record<string, string> = {
+  label: '🏷️ From mailbox label',
+  llm: '🤖 AI model',
+  rule: '📐 Rule',
+  manual: '✋ Set manually'
+};
+
 // Helper function to format plain text email body
 const formatPlainText = (text: string): string => {
   if (!text) return '';
@@ -13,7 +27,7 @@ const formatPlainText = (text: string): string => {
   // Convert line breaks to <br> tags
   return text
     .split('\n')
-    .map((line, index) => {
+    .map((line) => {
       // Handle quoted text (common in email replies)
       if (line.trim().startsWith('>')) {
         return `<div class="email-quote">${line}</div>`;
@@ -80,8 +94,57 @@ const extractName = (emailString: string): string => {
   return emailString;
 };
 
-const EmailDetail: React.FC<Props> = ({ email }) => {
+const EmailDetail: React.FC<Props> = ({ email, categories = [], onUpdated, onDeleted }) => {
   const [showReply, setShowReply] = useState(false);
+  const [showThread, setShowThread] = useState(false);
+  const [resumeDraft, setResumeDraft] = useState<Draft | undefined>();
+  const [draftsVersion, setDraftsVersion] = useState(0);
+
+  // A draft being continued belongs to the email it was opened from
+  useEffect(() => {
+    setResumeDraft(undefined);
+  }, [email._id]);
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setActionError(err?.response?.data?.details || err?.response?.data?.error || err?.message || 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleChange = (changes: { isRead?: boolean; isFlagged?: boolean; folder?: string }) =>
+    runAction(async () => {
+      const updated = await updateEmail(email._id, changes);
+      onUpdated?.(updated);
+    });
+
+  const handleCategory = (name: string) =>
+    runAction(async () => {
+      const updated = await setEmailCategory(email._id, name);
+      onUpdated?.(updated);
+    });
+
+  const handleMove = () => {
+    const folder = prompt('Move to folder (e.g. Archive, or a full mailbox path):', 'Archive');
+    if (folder) handleChange({ folder });
+  };
+
+  const handleDelete = () => {
+    if (!confirm('Delete this email? It will be moved to Trash on the mail server.')) return;
+    runAction(async () => {
+      await deleteEmail(email._id);
+      onDeleted?.(email._id);
+    });
+  };
+
+  const category = categories.find(c => c.name === email.category);
 
   const formattedDate = new Date(email.date).toLocaleString('en-US', {
     weekday: 'short',
@@ -99,12 +162,33 @@ const EmailDetail: React.FC<Props> = ({ email }) => {
   return (
     <div className="email-detail">
       <div className="email-detail-header">
-        <h2>{email.subject || '(No Subject)'}</h2>
-        <span className={`category-badge ${email.category?.toLowerCase().replace(/ /g, '-') || 'uncategorized'}`}>
-          {email.category || 'Uncategorized'}
+        <h2>
+          {email.highlights?.subject
+            ? <Highlight text={email.highlights.subject[0]} />
+            : email.subject || '(No Subject)'}
+        </h2>
+        <span
+          className={`category-badge ${category ? '' : 'uncategorized'}`}
+          style={category ? { background: `${category.color}26`, color: category.color } : undefined}
+          title={category?.description}
+        >
+          {category ? `${category.icon} ${category.name}` : email.category || 'Uncategorized'}
         </span>
       </div>
 
+      {email.categorization && (
+        <div className="categorization-info">
+          <span>{SOURCE_LABELS[email.categorization.source]}</span>
+          {email.categorization.model && <span className="settings-muted">{email.categorization.model}</span>}
+          {email.categorization.confidence !== undefined && (
+            <span className={email.categorization.confidence < 0.7 ? 'low-confidence' : ''}>
+              {Math.round(email.categorization.confidence * 100)}% confident
+            </span>
+          )}
+          {email.categorization.rationale && <span className="settings-muted">— {email.categorization.rationale}</span>}
+        </div>
+      )}
+
       <div className="email-meta">
         <div className="meta-item">
           <span className="meta-label">From:</span>
@@ -132,6 +216,15 @@ const EmailDetail: React.FC<Props> = ({ email }) => {
         </div>
       </div>
 
+      {email.highlights?.body && (
+        <div className="search-matches">
+          <h4>🔎 Matches</h4>
+          {email.highlights.body.map((fragment, idx) => (
+            <p key={idx}>…<Highlight text={fragment} />…</p>
+          ))}
+        </div>
+      )}
+
       <div className="email-body">
         {email.html ? (
           <div 
@@ -172,13 +265,66 @@ const EmailDetail: React.FC<Props> = ({ email }) => {
         </div>
       )}
 
+      <div className="email-toolbar">
+        <button disabled={busy} onClick={() => handleChange({ isRead: !email.isRead })}>
+          {email.isRead ? '✉️ Mark unread' : '📖 Mark read'}
+        </button>
+        <button disabled={busy} onClick={() => handleChange({ isFlagged: !email.isFlagged })}>
+          {email.isFlagged ? '🏳️ Unflag' : '🚩 Flag'}
+        </button>
+        <button disabled={busy} onClick={handleMove}>📁 Move</button>
+        <button disabled={busy} onClick={handleDelete}>🗑️ Delete</button>
+        {categories.length > 0 && (
+          <select
+            disabled={busy}
+            value={email.categorization?.source === 'manual' ? email.category : ''}
+            onChange={(e) => e.target.value && handleCategory(e.target.value)}
+            title="Set the category by hand; the AI learns from these corrections"
+          >
+            <option value="">{email.categorization?.source === 'manual' ? 'Category' : '🏷️ Set category...'}</option>
+            {categories.map(c => (
+              <option key={c._id} value={c.name}>{c.icon} {c.name}</option>
+            ))}
+          </select>
+        )}
+        <span className="settings-muted">{email.folder}</span>
+      </div>
+      {actionError && <p className="error">{actionError}</p>}
+
       <div className="actions">
-        <button onClick={() => setShowReply(!showReply)}>
+        <button
+          onClick={() => {
+            setResumeDraft(undefined);
+            setShowReply(!showReply);
+          }}
+        >
           {showReply ? '✖️ Hide' : '🤖 Show'} AI Suggested Reply
         </button>
+        {email.threadId && (
+          <button onClick={() => setShowThread(!showThread)}>
+            {showThread ? '✖️ Hide' : '🧵 Show'} Conversation
+          </button>
+        )}
       </div>
 
-      {showReply && <SuggestedReply emailId={email._id} />}
+      {showThread && email.threadId && <ThreadView threadId={email.threadId} currentEmailId={email._id} />}
+
+      <DraftHistory
+        emailId={email._id}
+        reloadKey={draftsVersion}
+        onResume={(draft) => {
+          setResumeDraft(draft);
+          setShowReply(true);
+        }}
+      />
+
+      {showReply && (
+        <SuggestedReply
+          emailId={email._id}
+          resumeDraft={resumeDraft}
+          onDraftsChanged={() => setDraftsVersion(v => v + 1)}
+        />
+      )}
     </div>
   );
 };
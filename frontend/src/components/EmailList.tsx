@@ -1,27 +1,44 @@
- 
-import { Email } from '../types';
+import { Email, Category } from '../types';
+import Highlight from './Highlight';
 
 interface Props {
   emails: Email[];
   onSelectEmail: (email: Email) => void;
   selectedEmail: Email | null;
   loading?: boolean;
+  categories?: Category[];
+  total?: number;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-const EmailList: React.FC<Props> = ({ emails, onSelectEmail, selectedEmail, loading }) => {
-  const getCategoryIcon = (category?: string) => {
-    switch (category) {
-      case 'Interested': return '🎯';
-      case 'Meeting Booked': return '📅';
-      case 'Not Interested': return '❌';
-      case 'Spam': return '🗑️';
-      case 'Out of Office': return '🏖️';
-      default: return '📧';
+// Start fetching the next page this close to the bottom, so scrolling rarely has to wait
+const LOAD_MORE_THRESHOLD_PX = 300;
+
+const EmailList: React.FC<Props> = ({
+  emails,
+  onSelectEmail,
+  selectedEmail,
+  loading,
+  categories = [],
+  total,
+  hasMore,
+  loadingMore,
+  onLoadMore
+}) => {
+  const getCategoryIcon = (category?: string) =>
+    categories.find(c => c.name === category)?.icon || '📧';
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const list = e.currentTarget;
+    if (hasMore && !loadingMore && list.scrollHeight - list.scrollTop - list.clientHeight < LOAD_MORE_THRESHOLD_PX) {
+      onLoadMore?.();
     }
   };
 
   return (
-    <div className="email-list">
+    <div className="email-list" onScroll={handleScroll}>
       {loading ? (
         <p>Loading emails...</p>
       ) : emails.length === 0 ? (
@@ -30,24 +47,29 @@ const EmailList: React.FC<Props> = ({ emails, onSelectEmail, selectedEmail, load
         emails.map(email => (
           <div
             key={email._id}
-            className={`email-item ${selectedEmail?._id === email._id ? 'selected' : ''}`}
+            className={`email-item ${selectedEmail?._id === email._id ? 'selected' : ''} ${email.isRead ? '' : 'unread'}`}
             onClick={() => onSelectEmail(email)}
           >
             <div className="email-header">
-              <span className="category-icon">{getCategoryIcon(email.category)}</span>
+              <span className="category-icon" title={email.category}>{getCategoryIcon(email.category)}</span>
               <span className="from" title={email.from}>
                 {email.from?.includes('<') 
                   ? email.from.split('<')[0].trim().replace(/['"]/g, '') || email.from.split('<')[1]?.replace('>', '') || 'Unknown'
                   : email.from || 'Unknown'}
               </span>
+              {email.isFlagged && <span className="flag-icon" title="Flagged">🚩</span>}
             </div>
             <div className="subject" title={email.subject}>
-              {email.subject || '(No Subject)'}
+              {email.highlights?.subject
+                ? <Highlight text={email.highlights.subject[0]} />
+                : email.subject || '(No Subject)'}
             </div>
             <div className="preview" title={email.body}>
-              {email.body 
-                ? (email.body.length > 80 ? `${email.body.substring(0, 80)}...` : email.body)
-                : '(No preview available)'}
+              {email.highlights?.body
+                ? <>…<Highlight text={email.highlights.body[0]} />…</>
+                : email.body
+                  ? (email.body.length > 80 ? `${email.body.substring(0, 80)}...` : email.body)
+                  : '(No preview available)'}
             </div>
             <div className="date" title={new Date(email.date).toLocaleString()}>
               {new Date(email.date).toLocaleDateString('en-US', {
@@ -59,6 +81,15 @@ const EmailList: React.FC<Props> = ({ emails, onSelectEmail, selectedEmail, load
           </div>
         ))
       )}
+      {!loading && emails.length > 0 && (
+        <div className="email-list-footer">
+          {loadingMore
+            ? 'Loading more...'
+            : hasMore
+              ? <button className="link-btn" onClick={onLoadMore}>Load more</button>
+              : total !== undefined && `${emails.length} of ${total} emails`}
+        </div>
+      )}
     </div>
   );
 };
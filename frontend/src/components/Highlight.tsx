@@ -0,0 +1,13 @@
+// Renders a search fragment from the server, where matched terms are wrapped in <mark></mark>.
+// The text is split rather than injected as HTML, so email content is never interpreted as markup.
+interface Props {
+  text: string;
+}
+
+const Highlight: React.FC<Props> = ({ text }) => (
+  <>
+    {text.split(/<\/?mark>/).map((part, i) => (i % 2 === 1 ? <mark key={i}>{part}</mark> : part))}
+  </>
+);
+
+export default Highlight;
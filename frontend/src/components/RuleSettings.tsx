@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { Rule, RuleTestResult, Category } from '../types';
+import { fetchRules, createRule, updateRule, deleteRule, testRules, fetchCategories } from '../services/api';
+
+const MATCH_LABELS: Record<Rule['matchType'], string> = {
+  contains: 'contains',
+  regex: 'matches regex',
+  senderDomain: 'sender domain is',
+  header: 'header matches'
+};
+
+const emptyForm = {
+  name: '',
+  field: 'any' as Rule['field'],
+  matchType: 'contains' as Rule['matchType'],
+  header: '',
+  value: '',
+  category: 'Interested',
+  priority: '0',
+  stage: 'before' as Rule['stage']
+};
+
+const describeRule = (rule: Rule) => {
+  if (rule.matchType === 'senderDomain') return `sender domain is ${rule.value}`;
+  if (rule.matchType === 'header') return `header ${rule.header} matches /${rule.value}/`;
+  return `${rule.field} ${MATCH_LABELS[rule.matchType]} ${rule.matchType === 'regex' ? `/${rule.value}/` : `"${rule.value}"`}`;
+};
+
+const RuleSettings: React.FC = () => {
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const [sample, setSample] = useState({ from: '', subject: '', body: '' });
+  const [testResult, setTestResult] = useState<RuleTestResult | null>(null);
+
+  useEffect(() => {
+    loadRules();
+    fetchCategories()
+      .then(setCategories)
+      .catch(err => console.error('Error loading categories:', err));
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      const data = await fetchRules();
+      setRules(data);
+    } catch (err) {
+      console.error('Error loading rules:', err);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await createRule({
+        name: form.name || undefined,
+        field: form.field,
+        matchType: form.matchType,
+        header: form.matchType === 'header' ? form.header : undefined,
+        value: form.value,
+        category: form.category,
+        priority: Number(form.priority) || 0,
+        stage: form.stage
+      });
+      setForm(emptyForm);
+      await loadRules();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to add rule');
+    }
+  };
+
+  const handleToggle = async (rule: Rule) => {
+    try {
+      await updateRule(rule._id, { enabled: !rule.enabled });
+      await loadRules();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to update rule');
+    }
+  };
+
+  const handleRemove = async (rule: Rule) => {
+    if (!confirm(`Delete rule "${rule.name}"?`)) return;
+    try {
+      await deleteRule(rule._id);
+      await loadRules();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to delete rule');
+    }
+  };
+
+  const handleTest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setTestResult(await testRules(sample));
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to test rules');
+    }
+  };
+
+  return (
+    <div className="settings-section">
+      <h3>Categorization Rules</h3>
+      <p className="settings-muted">
+        Higher priority runs first and the first match wins. "Before AI" rules skip the model;
+        "Fallback" rules only apply when the model gives no answer.
+      </p>
+      {rules.length === 0 ? (
+        <p>No rules yet</p>
+      ) : (
+        <ul>
+          {rules.map(rule => (
+            <li key={rule._id} className={rule.enabled ? '' : 'rule-disabled'}>
+              <div className="settings-row">
+                <span>
+                  <strong>{rule.priority}</strong> · {rule.name} → {rule.category}
+                  <span className="settings-muted"> — {describeRule(rule)} · {rule.stage === 'before' ? 'before AI' : 'fallback'}</span>
+                </span>
+                <span>
+                  <button className="link-btn" onClick={() => handleToggle(rule)}>
+                    {rule.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button className="link-btn" onClick={() => handleRemove(rule)}>Delete</button>
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="settings-form" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          placeholder="Rule name (optional)"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+        />
+        <select
+          value={form.matchType}
+          onChange={(e) => setForm({ ...form, matchType: e.target.value as Rule['matchType'] })}
+        >
+          {Object.entries(MATCH_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        {(form.matchType === 'contains' || form.matchType === 'regex') && (
+          <select value={form.field} onChange={(e) => setForm({ ...form, field: e.target.value as Rule['field'] })}>
+            <option value="any">Subject, body or sender</option>
+            <option value="subject">Subject</option>
+            <option value="body">Body</option>
+            <option value="from">From</option>
+            <option value="to">To</option>
+          </select>
+        )}
+        {form.matchType === 'header' && (
+          <input
+            type="text"
+            placeholder="Header name (e.g. List-Id)"
+            value={form.header}
+            onChange={(e) => setForm({ ...form, header: e.target.value })}
+            required
+          />
+        )}
+        <input
+          type="text"
+          placeholder={form.matchType === 'senderDomain' ? 'example.com' : 'Value or pattern'}
+          value={form.value}
+          onChange={(e) => setForm({ ...form, value: e.target.value })}
+          required
+        />
+        <select
+          value={form.category}
+          onChange={(e) => setForm({ ...form, category: e.target.value })}
+        >
+          {categories.map(c => <option key={c._id} value={c.name}>{c.icon} {c.name}</option>)}
+        </select>
+        <select value={form.stage} onChange={(e) => setForm({ ...form, stage: e.target.value as Rule['stage'] })}>
+          <option value="before">Before AI</option>
+          <option value="fallback">Fallback</option>
+        </select>
+        <input
+          type="number"
+          placeholder="Priority"
+          value={form.priority}
+          onChange={(e) => setForm({ ...form, priority: e.target.value })}
+        />
+        <button type="submit">➕ Add Rule</button>
+      </form>
+
+      <form className="settings-form" onSubmit={handleTest}>
+        <input
+          type="text"
+          placeholder="From"
+          value={sample.from}
+          onChange={(e) => setSample({ ...sample, from: e.target.value })}
+        />
+        <input
+          type="text"
+          placeholder="Subject"
+          value={sample.subject}
+          onChange={(e) => setSample({ ...sample, subject: e.target.value })}
+        />
+        <textarea
+          placeholder="Body"
+          value={sample.body}
+          onChange={(e) => setSample({ ...sample, body: e.target.value })}
+        />
+        <button type="submit">🧪 Test Rules</button>
+      </form>
+      {testResult && (
+        <p className="settings-muted">
+          {testResult.matched
+            ? `Rule "${testResult.rule?.name}" fired → ${testResult.category}`
+            : 'No rule matched; the AI model would decide'}
+        </p>
+      )}
+      {error && <p className="error">{error}</p>}
+    </div>
+  );
+};
+
+export default RuleSettings;
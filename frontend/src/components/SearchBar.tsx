@@ -1,26 +1,41 @@
 import { useState } from 'react';
+import { SearchMode } from '../types';
 
 interface Props {
-  onSearch: (query: string) => void;
+  onSearch: (query: string, mode: SearchMode) => void;
+  error?: string | null;
 }
 
-const SearchBar: React.FC<Props> = ({ onSearch }) => {
+const SYNTAX_HINT = 'from: to: subject: category: account: in: has:attachment is:unread is:flagged ' +
+  'before:/after:YYYY/MM/DD, "exact phrase", -exclude, a OR b';
+
+const SearchBar: React.FC<Props> = ({ onSearch, error }) => {
   const [query, setQuery] = useState('');
+  const [mode, setMode] = useState<SearchMode>('keyword');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSearch(query);
+    onSearch(query, mode);
   };
 
   return (
     <form className="search-bar" onSubmit={handleSubmit}>
       <input
         type="text"
-        placeholder="Search emails..."
+        placeholder={mode === 'keyword'
+          ? 'Search emails... (e.g. from:alice is:unread)'
+          : 'Ask... (e.g. who asked about pricing for 50 seats?)'}
+        title={mode === 'keyword' ? SYNTAX_HINT : undefined}
         value={query}
         onChange={(e) => setQuery(e.target.value)}
       />
+      <select value={mode} onChange={(e) => setMode(e.target.value as SearchMode)} title="Search mode">
+        <option value="keyword">Keyword</option>
+        <option value="semantic">Semantic</option>
+        <option value="hybrid">Hybrid</option>
+      </select>
       <button type="submit">Search</button>
+      {error && <p className="search-error">{error}</p>}
     </form>
   );
 };
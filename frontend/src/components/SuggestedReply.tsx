@@ -1,38 +1,172 @@
-import { useState, useEffect } from 'react';
-import { getSuggestedReply } from '../services/api';
+import { useState, useEffect, useRef } from 'react';
+import { streamSuggestedReply, rewriteSuggestedReply, sendReply, createDraft, updateDraft } from '../services/api';
+import { Citation, Draft, ReplyIntent, ReplyOptions, ReplyTone, ReplyVariant } from '../types';
 
 interface Props {
   emailId: string;
+  // Continue a saved draft instead of generating a suggestion
+  resumeDraft?: Draft;
+  // Called after a draft is saved or a reply sent, so the list of drafts can be reloaded
+  onDraftsChanged?: () => void;
 }
 
-const SuggestedReply: React.FC<Props> = ({ emailId }) => {
-  const [reply, setReply] = useState<string>('');
+const TONES: { value: ReplyTone | ''; label: string }[] = [
+  { value: '', label: 'Profile tone' },
+  { value: 'formal', label: 'Formal' },
+  { value: 'casual', label: 'Casual' },
+  { value: 'short', label: 'Short' }
+];
+
+const INTENTS: { value: ReplyIntent | ''; label: string }[] = [
+  { value: '', label: 'Any intent' },
+  { value: 'book_meeting', label: 'Book a meeting' },
+  { value: 'answer_question', label: 'Answer the question' },
+  { value: 'decline', label: 'Polite decline' }
+];
+
+const SuggestedReply: React.FC<Props> = ({ emailId, resumeDraft, onDraftsChanged }) => {
+  const [options, setOptions] = useState<ReplyOptions>({ variants: 1 });
+  const [variants, setVariants] = useState<ReplyVariant[]>([]);
+  // Drafts as edited by the rep, one per variant
+  const [drafts, setDrafts] = useState<string[]>([]);
+  const [selected, setSelected] = useState(0);
+  // Saved draft behind each variant, once saved
+  const [savedIds, setSavedIds] = useState<(string | undefined)[]>([]);
+  const [cachedAt, setCachedAt] = useState<string | undefined>();
+  const [saving, setSaving] = useState(false);
+  const [sources, setSources] = useState<Citation[]>([]);
+  const [instruction, setInstruction] = useState('');
   const [loading, setLoading] = useState(true);
+  const [rewriting, setRewriting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  // Stops the reply being generated, if any
+  const cancelRef = useRef<(() => void) | null>(null);
 
   useEffect(() => {
-    loadSuggestedReply();
-  }, [emailId]);
+    if (resumeDraft) {
+      stopGenerating();
+      setError(null);
+      setSentTo(null);
+      setSources([]);
+      setVariants([]);
+      setDrafts([resumeDraft.body]);
+      setSavedIds([resumeDraft._id]);
+      setSelected(0);
+      setCachedAt(undefined);
+    } else {
+      loadSuggestedReply(false);
+    }
+    // Closing the panel or switching emails cancels generation on the server
+    return () => stopGenerating();
+  }, [emailId, resumeDraft?._id]);
 
-  const loadSuggestedReply = async () => {
+  const stopGenerating = () => {
+    cancelRef.current?.();
+    cancelRef.current = null;
+    setLoading(false);
+  };
+
+  const loadSuggestedReply = (refresh: boolean) => {
+    cancelRef.current?.();
     setLoading(true);
     setError(null);
-    try {
-      if (!emailId) {
-        throw new Error('Email ID is required');
-      }
-      const data = await getSuggestedReply(emailId);
-      if (data && data.reply) {
-        setReply(data.reply);
-      } else {
-        throw new Error('No reply received from server');
+    setSentTo(null);
+    setSources([]);
+    setVariants([]);
+    setDrafts(Array(options.variants || 1).fill(''));
+    setSavedIds([]);
+    setSelected(0);
+    setCachedAt(undefined);
+
+    if (!emailId) {
+      setError('Email ID is required');
+      setLoading(false);
+      return;
+    }
+
+    cancelRef.current = streamSuggestedReply(emailId, { ...options, refresh }, {
+      onSources: setSources,
+      onToken: (variant, text) => {
+        setDrafts(prev => prev.map((d, i) => (i === variant ? d + text : d)));
+      },
+      onVariant: (variant, draft) => {
+        setDrafts(prev => prev.map((d, i) => (i === variant ? draft.reply : d)));
+        setVariants(prev => {
+          const next = [...prev];
+          next[variant] = draft;
+          return next;
+        });
+      },
+      onDone: (data) => {
+        cancelRef.current = null;
+        setVariants(data.variants);
+        setDrafts(data.variants.map(v => v.reply));
+        setSources(data.sources || []);
+        setCachedAt(data.cachedAt);
+        setLoading(false);
+      },
+      onError: (message) => {
+        cancelRef.current = null;
+        // Keep whatever was streamed before the failure
+        setDrafts(prev => (prev.some(Boolean) ? prev : []));
+        setError(message);
+        setLoading(false);
       }
+    });
+  };
+
+  const reply = drafts[selected] || '';
+
+  const setReply = (text: string) => {
+    setDrafts(drafts.map((d, i) => (i === selected ? text : d)));
+  };
+
+  const handleRewrite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim() || !reply.trim()) return;
+    setRewriting(true);
+    setError(null);
+    try {
+      const { variants: [rewritten], sources: rewriteSources } = await rewriteSuggestedReply(emailId, reply, instruction, {
+        tone: options.tone,
+        intent: options.intent,
+        language: options.language
+      });
+      setVariants(variants.map((v, i) => (i === selected ? rewritten : v)));
+      setDrafts(drafts.map((d, i) => (i === selected ? rewritten.reply : d)));
+      setSources(rewriteSources);
+      setInstruction('');
     } catch (err: any) {
-      const errorMessage = err?.response?.data?.error || err?.message || 'Unable to generate reply';
-      setError(errorMessage);
-      console.error('Error loading suggested reply:', err);
+      setError(err?.response?.data?.error || err?.message || 'Unable to rewrite reply');
     } finally {
-      setLoading(false);
+      setRewriting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!reply.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const savedId = savedIds[selected];
+      const draft = savedId
+        ? await updateDraft(emailId, savedId, { body: reply })
+        : await createDraft(emailId, {
+            body: reply,
+            generated: variants[selected]?.reply || '',
+            options: { tone: options.tone, intent: options.intent, language: options.language }
+          });
+      const next = [...savedIds];
+      next[selected] = draft._id;
+      setSavedIds(next);
+      onDraftsChanged?.();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || 'Unable to save draft');
+    } finally {
+      setSaving(false);
     }
   };
 
@@ -41,21 +175,139 @@ const SuggestedReply: React.FC<Props> = ({ emailId }) => {
     alert('Copied to clipboard!');
   };
 
+  const handleSend = async () => {
+    if (!reply.trim()) return;
+    setSending(true);
+    setError(null);
+    try {
+      const result = await sendReply(emailId, reply, undefined, savedIds[selected]);
+      setSentTo(result.to);
+      onDraftsChanged?.();
+    } catch (err: any) {
+      setError(err?.response?.data?.details || err?.response?.data?.error || err?.message || 'Unable to send reply');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const variant = variants[selected];
+
   return (
     <div className="suggested-reply">
       <h3>🤖 AI-Suggested Reply (RAG-Powered)</h3>
-      {loading ? (
+      <div className="reply-options">
+        <select
+          value={options.tone || ''}
+          onChange={(e) => setOptions({ ...options, tone: (e.target.value || undefined) as ReplyTone | undefined })}
+        >
+          {TONES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+        </select>
+        <select
+          value={options.intent || ''}
+          onChange={(e) => setOptions({ ...options, intent: (e.target.value || undefined) as ReplyIntent | undefined })}
+        >
+          {INTENTS.map(i => <option key={i.value} value={i.value}>{i.label}</option>)}
+        </select>
+        <input
+          type="text"
+          placeholder="Language (e.g. German)"
+          value={options.language || ''}
+          onChange={(e) => setOptions({ ...options, language: e.target.value || undefined })}
+        />
+        <select
+          value={options.variants || 1}
+          onChange={(e) => setOptions({ ...options, variants: Number(e.target.value) })}
+        >
+          {[1, 2, 3].map(n => <option key={n} value={n}>{n} draft{n > 1 ? 's' : ''}</option>)}
+        </select>
+        {loading ? (
+          <button onClick={stopGenerating}>⏹ Stop</button>
+        ) : (
+          <button onClick={() => loadSuggestedReply(true)} disabled={rewriting}>
+            🔄 {variants.length ? 'Regenerate' : 'Generate'}
+          </button>
+        )}
+      </div>
+      {loading && !drafts.some(Boolean) ? (
         <p>Generating reply...</p>
-      ) : error ? (
-        <p className="error">{error}</p>
+      ) : sentTo ? (
+        <p>✅ Reply sent to {sentTo}</p>
       ) : (
         <div className="reply-content">
-          <pre>{reply}</pre>
-          <button onClick={copyToClipboard}>📋 Copy to Clipboard</button>
+          {cachedAt && (
+            <p className="settings-muted">Suggested earlier ({new Date(cachedAt).toLocaleString()}); Regenerate for a fresh one.</p>
+          )}
+          {drafts.length > 1 && (
+            <div className="reply-variants">
+              {drafts.map((_d, i) => (
+                <button key={i} className={i === selected ? 'active' : ''} onClick={() => setSelected(i)}>
+                  Draft {i + 1}
+                </button>
+              ))}
+            </div>
+          )}
+          {drafts.length > 0 && (
+            <>
+              <textarea
+                className="reply-editor"
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                rows={10}
+                readOnly={loading}
+                disabled={rewriting}
+              />
+              <form className="reply-rewrite" onSubmit={handleRewrite}>
+                <input
+                  type="text"
+                  placeholder='Rewrite with an instruction, e.g. "mention the annual discount"'
+                  value={instruction}
+                  onChange={(e) => setInstruction(e.target.value)}
+                  maxLength={500}
+                />
+                <button type="submit" disabled={loading || rewriting || !instruction.trim() || !reply.trim()}>
+                  {rewriting ? 'Rewriting...' : '✍️ Rewrite'}
+                </button>
+              </form>
+            </>
+          )}
+          {variant?.warnings.map(warning => (
+            <p key={warning} className="reply-warning">⚠️ {warning}</p>
+          ))}
+          {error && <p className="error">{error}</p>}
+          {drafts.length > 0 && (
+            <div className="reply-actions">
+              <button onClick={handleSend} disabled={loading || sending || !reply.trim()}>
+                {sending ? 'Sending...' : '📤 Send'}
+              </button>
+              <button onClick={handleSave} disabled={loading || saving || !reply.trim()}>
+                {saving ? 'Saving...' : savedIds[selected] ? '💾 Update draft' : '💾 Save draft'}
+              </button>
+              <button onClick={copyToClipboard}>📋 Copy to Clipboard</button>
+            </div>
+          )}
+          {sources.length > 0 && (
+            <div className="reply-sources">
+              <h4>Sources</h4>
+              {sources.map(source => {
+                const cited = variant ? variant.cited.includes(source.n) : source.cited;
+                return (
+                  <details key={source.n} className={cited ? 'cited' : ''}>
+                    <summary>
+                      [{source.n}] {source.title}
+                      <span className="source-type">{source.type}</span>
+                      {!cited && <span className="source-unused">not cited</span>}
+                    </summary>
+                    <p>{source.text}</p>
+                    {source.source && <p className="source-origin">{source.source}</p>}
+                  </details>
+                );
+              })}
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 };
 
-export default SuggestedReply;
\ No newline at end of file
+export default SuggestedReply;
@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+import { Email } from '../types';
+import { getThread } from '../services/api';
+
+interface Props {
+  threadId: string;
+  currentEmailId: string;
+}
+
+// Shows every message in a conversation, oldest first, with the open email highlighted
+const ThreadView: React.FC<Props> = ({ threadId, currentEmailId }) => {
+  const [emails, setEmails] = useState<Email[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(currentEmailId);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await getThread(threadId);
+        setEmails(data.emails);
+      } catch (err: any) {
+        setError(err?.response?.data?.error || err?.message || 'Unable to load conversation');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [threadId]);
+
+  useEffect(() => {
+    setExpanded(currentEmailId);
+  }, [currentEmailId]);
+
+  if (loading) return <p className="settings-muted">Loading conversation...</p>;
+  if (error) return <p className="error">{error}</p>;
+
+  return (
+    <div className="thread-view">
+      <h4>🧵 Conversation ({emails.length} message{emails.length === 1 ? '' : 's'})</h4>
+      {emails.map(message => (
+        <div
+          key={message._id}
+          className={`thread-message ${message._id === currentEmailId ? 'current' : ''}`}
+          onClick={() => setExpanded(expanded === message._id ? null : message._id)}
+        >
+          <div className="thread-message-header">
+            <span className="thread-from">{message.from}</span>
+            <span className="settings-muted">{new Date(message.date).toLocaleString()}</span>
+          </div>
+          {expanded === message._id ? (
+            <pre className="thread-body">{message.body || '(No content)'}</pre>
+          ) : (
+            <div className="thread-preview">{message.body?.substring(0, 120)}</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ThreadView;
@@ -2,72 +2,154 @@ import { useState, useEffect } from 'react';
 import EmailList from '../components/EmailList';
 import EmailDetail from '../components/EmailDetail';
 import SearchBar from '../components/SearchBar';
-import CategoryFilter from '../components/CategoryFilter';
-import { Email } from '../types';
-import { fetchEmails, searchEmails } from '../services/api';
+import CategoryFilter, { REVIEW_FILTER } from '../components/CategoryFilter';
+import AccountFilter from '../components/AccountFilter';
+import { Email, Category, Facets, SearchMode } from '../types';
+import { fetchEmails, searchEmails, semanticSearch, fetchCategories, fetchReviewQueue } from '../services/api';
 
 const Dashboard: React.FC = () => {
   const [emails, setEmails] = useState<Email[]>([]);
   const [selectedEmail, setSelectedEmail] = useState<Email | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [categories, setCategories] = useState<Category[]>([]);
+  // Paging state for whichever listing is shown: the inbox or the current search
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchMode, setSearchMode] = useState<SearchMode>('keyword');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [selectedAccount, setSelectedAccount] = useState<string>('all');
+  const [facets, setFacets] = useState<Facets | null>(null);
+
+  useEffect(() => {
+    fetchCategories()
+      .then(setCategories)
+      .catch(error => console.error('Error loading categories:', error));
+  }, []);
 
   useEffect(() => {
     loadEmails();
-  }, [selectedCategory]);
+  }, [selectedCategory, selectedAccount]);
+
+  // Facet counts are only needed with the first page; later pages share them
+  const fetchPage = (query: string, cursor?: string, mode = searchMode) => {
+    // Semantic results are one ranked page, filtered by account only
+    if (query && mode !== 'keyword') {
+      return semanticSearch(query, mode, selectedAccount !== 'all' ? { account: selectedAccount } : undefined);
+    }
 
-  const loadEmails = async () => {
+    const params: any = cursor ? { cursor } : { facets: true };
+    if (selectedCategory !== 'all' && selectedCategory !== REVIEW_FILTER) {
+      params.category = selectedCategory;
+    }
+    if (selectedAccount !== 'all') {
+      params.account = selectedAccount;
+    }
+    return query ? searchEmails(query, params) : fetchEmails(params);
+  };
+
+  const loadEmails = async (query = searchQuery, mode = searchMode) => {
     setLoading(true);
+    setSearchError(null);
     try {
-      const params: any = {};
-      if (selectedCategory !== 'all') {
-        params.category = selectedCategory;
+      if (selectedCategory === REVIEW_FILTER && !query) {
+        const queue = await fetchReviewQueue(selectedAccount !== 'all' ? { account: selectedAccount } : undefined);
+        setEmails(queue.items);
+        setNextCursor(null);
+        setTotal(queue.items.length);
+        return;
       }
-      const data = await fetchEmails(params);
-      setEmails(data);
-    } catch (error) {
+
+      const page = await fetchPage(query, undefined, mode);
+      setEmails(page.items);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
+      setFacets(page.facets || null);
+    } catch (error: any) {
       console.error('Error loading emails:', error);
+      // The server explains malformed search syntax
+      if (error?.response?.status === 400) {
+        setSearchError(error.response.data?.details || error.response.data?.error);
+      }
     } finally {
       setLoading(false);
     }
   };
 
-  const handleSearch = async (query: string) => {
-    if (!query) {
-      loadEmails();
-      return;
-    }
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
 
-    setLoading(true);
+    setLoadingMore(true);
     try {
-      const results = await searchEmails(query);
-      setEmails(results);
+      const page = await fetchPage(searchQuery, nextCursor);
+      setEmails(current => [...current, ...page.items]);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
     } catch (error) {
-      console.error('Search error:', error);
+      console.error('Error loading more emails:', error);
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
     }
   };
 
+  const handleSearch = (query: string, mode: SearchMode) => {
+    setSearchQuery(query);
+    setSearchMode(mode);
+    loadEmails(query, mode);
+  };
+
+  const handleEmailUpdated = (updated: Email) => {
+    setEmails(emails.map(e => (e._id === updated._id ? updated : e)));
+    setSelectedEmail(updated);
+  };
+
+  const handleEmailDeleted = (id: string) => {
+    setEmails(emails.filter(e => e._id !== id));
+    setSelectedEmail(null);
+  };
+
+  const categoryCounts = facets
+    ? Object.fromEntries(facets.category.map(bucket => [bucket.value, bucket.count]))
+    : undefined;
+
   return (
     <div className="dashboard">
       <div className="sidebar">
-        <SearchBar onSearch={handleSearch} />
+        <SearchBar onSearch={handleSearch} error={searchError} />
         <CategoryFilter
           selected={selectedCategory}
           onChange={setSelectedCategory}
+          categories={categories}
+          counts={categoryCounts}
+        />
+        <AccountFilter
+          selected={selectedAccount}
+          onChange={setSelectedAccount}
+          accounts={facets?.account || []}
         />
         <EmailList
           emails={emails}
           onSelectEmail={setSelectedEmail}
           selectedEmail={selectedEmail}
           loading={loading}
+          categories={categories}
+          total={total}
+          hasMore={Boolean(nextCursor)}
+          loadingMore={loadingMore}
+          onLoadMore={loadMore}
         />
       </div>
 
       <div className="main-content">
         {selectedEmail ? (
-          <EmailDetail email={selectedEmail} />
+          <EmailDetail
+            email={selectedEmail}
+            categories={categories}
+            onUpdated={handleEmailUpdated}
+            onDeleted={handleEmailDeleted}
+          />
         ) : (
           <div className="no-selection">
             <p>📧 Select an email to view details</p>
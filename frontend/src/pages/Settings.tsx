@@ -1,4 +1,6 @@
- 
+import AccountSettings from '../components/AccountSettings';
+import RuleSettings from '../components/RuleSettings';
+import CategorySettings from '../components/CategorySettings';
 
 const Settings: React.FC = () => {
   return (
@@ -6,19 +8,19 @@ const Settings: React.FC = () => {
       <h2>⚙️ Settings</h2>
       <div className="settings-section">
         <h3>API Configuration</h3>
-        <p>Configure your email accounts and API keys in the .env file</p>
+        <p>Configure API keys in the .env file; email accounts are managed below</p>
         <ul>
-          <li>IMAP_ACCOUNTS - Email addresses (comma separated)</li>
           <li>OPENAI_API_KEY - Your OpenAI API key</li>
           <li>SLACK_WEBHOOK_URL - Slack integration</li>
           <li>EXTERNAL_WEBHOOK_URL - External automation webhook</li>
         </ul>
       </div>
 
-      <div className="settings-section">
-        <h3>Email Accounts</h3>
-        <p>Currently connected accounts will appear here</p>
-      </div>
+      <AccountSettings />
+
+      <CategorySettings />
+
+      <RuleSettings />
 
       <div className="settings-section">
         <h3>Integrations</h3>
@@ -1,10 +1,10 @@
 import axios from 'axios';
-import { Email } from '../types';
+import { Email, Account, Mailbox, BackfillState, Thread, Rule, RuleTestResult, Category, Page, SuggestedReply, ReplyOptions, ReplyVariant, Citation, Draft, ReplyProfile, ReplyProfileSettings } from '../types';
 
 // Prefer Vite env var in production; fallback to local dev default
 const API_BASE = (import.meta as any).env?.VITE_API_BASE || 'http://localhost:5000/api';
 
-export const fetchEmails = async (params?: any): Promise<Email[]> => {
+export const fetchEmails = async (params?: any): Promise<Page<Email>> => {
   try {
     const response = await axios.get(`${API_BASE}/emails`, { params });
     return response.data;
@@ -14,7 +14,7 @@ export const fetchEmails = async (params?: any): Promise<Email[]> => {
   }
 };
 
-export const searchEmails = async (query: string, params?: any): Promise<any[]> => {
+export const searchEmails = async (query: string, params?: any): Promise<Page<Email>> => {
   try {
     const response = await axios.get(`${API_BASE}/emails/search`, {
       params: { q: query, ...params }
@@ -26,6 +26,29 @@ export const searchEmails = async (query: string, params?: any): Promise<any[]>
   }
 };
 
+// Ranked by relevance rather than date, in a single page (nextCursor is always null)
+export const semanticSearch = async (query: string, mode: 'semantic' | 'hybrid', params?: any): Promise<Page<Email>> => {
+  try {
+    const response = await axios.get(`${API_BASE}/emails/semantic-search`, {
+      params: { q: query, mode, ...params }
+    });
+    return response.data;
+  } catch (error) {
+    console.error('Semantic search error:', error);
+    throw error;
+  }
+};
+
+export const fetchReviewQueue = async (params?: any): Promise<{ threshold: number; items: Email[] }> => {
+  try {
+    const response = await axios.get(`${API_BASE}/emails/review`, { params });
+    return response.data;
+  } catch (error) {
+    console.error('Fetch review queue error:', error);
+    throw error;
+  }
+};
+
 export const getEmailById = async (id: string): Promise<Email> => {
   try {
     const response = await axios.get(`${API_BASE}/emails/${id}`);
@@ -36,12 +59,347 @@ export const getEmailById = async (id: string): Promise<Email> => {
   }
 };
 
-export const getSuggestedReply = async (emailId: string): Promise<{ reply: string }> => {
+export const updateEmail = async (
+  id: string,
+  changes: { isRead?: boolean; isFlagged?: boolean; folder?: string }
+): Promise<Email> => {
+  try {
+    const response = await axios.patch(`${API_BASE}/emails/${id}`, changes);
+    return response.data;
+  } catch (error) {
+    console.error('Update email error:', error);
+    throw error;
+  }
+};
+
+export const setEmailCategory = async (id: string, category: string): Promise<Email> => {
+  try {
+    const response = await axios.put(`${API_BASE}/emails/${id}/category`, { category });
+    return response.data;
+  } catch (error) {
+    console.error('Set category error:', error);
+    throw error;
+  }
+};
+
+export const deleteEmail = async (id: string): Promise<void> => {
   try {
-    const response = await axios.get(`${API_BASE}/emails/${emailId}/suggested-reply`);
+    await axios.delete(`${API_BASE}/emails/${id}`);
+  } catch (error) {
+    console.error('Delete email error:', error);
+    throw error;
+  }
+};
+
+export const getThread = async (threadId: string): Promise<Thread> => {
+  try {
+    const response = await axios.get(`${API_BASE}/threads/${encodeURIComponent(threadId)}`);
+    return response.data;
+  } catch (error) {
+    console.error('Get thread error:', error);
+    throw error;
+  }
+};
+
+export const getSuggestedReply = async (emailId: string, options: ReplyOptions = {}): Promise<SuggestedReply> => {
+  try {
+    const response = await axios.get(`${API_BASE}/emails/${emailId}/suggested-reply`, { params: options });
     return response.data;
   } catch (error) {
     console.error('Get suggested reply error:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export interface ReplyStreamHandlers {
+  onSources: (sources: Citation[]) => void;
+  onToken: (variant: number, text: string) => void;
+  // A finished draft; it replaces the streamed text
+  onVariant: (variant: number, draft: ReplyVariant) => void;
+  onDone: (result: SuggestedReply) => void;
+  onError: (message: string) => void;
+}
+
+// Streams the drafts over server-sent events; returns a function that stops generation.
+// Without `refresh` the last suggestion for the same options comes back from the cache.
+export const streamSuggestedReply = (
+  emailId: string,
+  options: ReplyOptions & { refresh?: boolean },
+  handlers: ReplyStreamHandlers
+): (() => void) => {
+  const params = new URLSearchParams();
+  Object.entries(options).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const source = new EventSource(`${API_BASE}/emails/${emailId}/suggested-reply/stream?${params}`);
+  const data = (event: Event) => JSON.parse((event as MessageEvent).data);
+
+  source.addEventListener('sources', (event) => handlers.onSources(data(event)));
+  source.addEventListener('token', (event) => {
+    const { variant, text } = data(event);
+    handlers.onToken(variant, text);
+  });
+  source.addEventListener('variant', (event) => {
+    const { variant, ...draft } = data(event);
+    handlers.onVariant(variant, draft);
+  });
+  source.addEventListener('done', (event) => {
+    source.close();
+    handlers.onDone(data(event));
+  });
+  source.addEventListener('error', (event) => {
+    // Errors sent by the server carry a message; without one the connection failed or was refused.
+    // Closing stops EventSource from reconnecting and generating all over again.
+    const message = (event as MessageEvent).data ? data(event).error : 'Unable to generate reply';
+    source.close();
+    console.error('Stream suggested reply error:', message);
+    handlers.onError(message);
+  });
+
+  return () => source.close();
+};
+
+export const rewriteSuggestedReply = async (
+  emailId: string,
+  draft: string,
+  instruction: string,
+  options: ReplyOptions = {}
+): Promise<SuggestedReply> => {
+  try {
+    const response = await axios.post(`${API_BASE}/emails/${emailId}/suggested-reply/rewrite`, { draft, instruction, ...options });
+    return response.data;
+  } catch (error) {
+    console.error('Rewrite reply error:', error);
+    throw error;
+  }
+};
+
+export const fetchAccounts = async (): Promise<Account[]> => {
+  try {
+    const response = await axios.get(`${API_BASE}/accounts`);
+    return response.data;
+  } catch (error) {
+    console.error('Fetch accounts error:', error);
+    throw error;
+  }
+};
+
+export const fetchAccountFolders = async (id: string): Promise<Mailbox[]> => {
+  try {
+    const response = await axios.get(`${API_BASE}/accounts/${id}/folders`);
+    return response.data;
+  } catch (error) {
+    console.error('Fetch account folders error:', error);
+    throw error;
+  }
+};
+
+export const createAccount = async (data: {
+  email: string;
+  password: string;
+  host: string;
+  port: number;
+  tls?: boolean;
+  smtpHost?: string;
+  smtpPort?: number;
+}): Promise<Account> => {
+  try {
+    const response = await axios.post(`${API_BASE}/accounts`, data);
+    return response.data;
+  } catch (error) {
+    console.error('Create account error:', error);
+    throw error;
+  }
+};
+
+export const updateAccount = async (id: string, data: Partial<Account> & { password?: string }): Promise<Account> => {
+  try {
+    const response = await axios.patch(`${API_BASE}/accounts/${id}`, data);
+    return response.data;
+  } catch (error) {
+    console.error('Update account error:', error);
+    throw error;
+  }
+};
+
+export const deleteAccount = async (id: string): Promise<void> => {
+  try {
+    await axios.delete(`${API_BASE}/accounts/${id}`);
+  } catch (error) {
+    console.error('Delete account error:', error);
+    throw error;
+  }
+};
+
+export const startBackfill = async (id: string, days: number): Promise<BackfillState> => {
+  try {
+    const response = await axios.post(`${API_BASE}/accounts/${id}/backfill`, { days });
+    return response.data;
+  } catch (error) {
+    console.error('Start backfill error:', error);
+    throw error;
+  }
+};
+
+export const cancelBackfill = async (id: string): Promise<void> => {
+  try {
+    await axios.delete(`${API_BASE}/accounts/${id}/backfill`);
+  } catch (error) {
+    console.error('Cancel backfill error:', error);
+    throw error;
+  }
+};
+
+export const fetchReplyProfile = async (id: string): Promise<ReplyProfileSettings> => {
+  try {
+    const response = await axios.get(`${API_BASE}/accounts/${encodeURIComponent(id)}/reply-profile`);
+    return response.data;
+  } catch (error) {
+    console.error('Fetch reply profile error:', error);
+    throw error;
+  }
+};
+
+export const updateReplyProfile = async (id: string, profile: Partial<ReplyProfile>): Promise<ReplyProfileSettings> => {
+  try {
+    const response = await axios.put(`${API_BASE}/accounts/${encodeURIComponent(id)}/reply-profile`, profile);
+    return response.data;
+  } catch (error) {
+    console.error('Update reply profile error:', error);
+    throw error;
+  }
+};
+
+export const fetchDrafts = async (emailId: string): Promise<Draft[]> => {
+  try {
+    const response = await axios.get(`${API_BASE}/emails/${emailId}/drafts`);
+    return response.data;
+  } catch (error) {
+    console.error('Fetch drafts error:', error);
+    throw error;
+  }
+};
+
+export const createDraft = async (
+  emailId: string,
+  data: { body: string; generated?: string; options?: Draft['options'] }
+): Promise<Draft> => {
+  try {
+    const response = await axios.post(`${API_BASE}/emails/${emailId}/drafts`, data);
+    return response.data;
+  } catch (error) {
+    console.error('Create draft error:', error);
+    throw error;
+  }
+};
+
+export const updateDraft = async (
+  emailId: string,
+  draftId: string,
+  changes: Partial<Pick<Draft, 'body' | 'status'>>
+): Promise<Draft> => {
+  try {
+    const response = await axios.patch(`${API_BASE}/emails/${emailId}/drafts/${draftId}`, changes);
+    return response.data;
+  } catch (error) {
+    console.error('Update draft error:', error);
+    throw error;
+  }
+};
+
+export const sendReply = async (
+  emailId: string,
+  body: string,
+  subject?: string,
+  draftId?: string
+): Promise<{ messageId: string; to: string; sentFolder?: string; draftId?: string }> => {
+  try {
+    const response = await axios.post(`${API_BASE}/emails/${emailId}/reply`, { body, subject, draftId });
+    return response.data;
+  } catch (error) {
+    console.error('Send reply error:', error);
+    throw error;
+  }
+};
+export const fetchRules = async (): Promise<Rule[]> => {
+  try {
+    const response = await axios.get(`${API_BASE}/rules`);
+    return response.data;
+  } catch (error) {
+    console.error('Fetch rules error:', error);
+    throw error;
+  }
+};
+
+export const createRule = async (data: Partial<Rule>): Promise<Rule> => {
+  try {
+    const response = await axios.post(`${API_BASE}/rules`, data);
+    return response.data;
+  } catch (error) {
+    console.error('Create rule error:', error);
+    throw error;
+  }
+};
+
+export const updateRule = async (id: string, data: Partial<Rule>): Promise<Rule> => {
+  try {
+    const response = await axios.patch(`${API_BASE}/rules/${id}`, data);
+    return response.data;
+  } catch (error) {
+    console.error('Update rule error:', error);
+    throw error;
+  }
+};
+
+export const deleteRule = async (id: string): Promise<void> => {
+  try {
+    await axios.delete(`${API_BASE}/rules/${id}`);
+  } catch (error) {
+    console.error('Delete rule error:', error);
+    throw error;
+  }
+};
+
+export const testRules = async (sample: {
+  subject?: string;
+  body?: string;
+  from?: string;
+  emailId?: string;
+}): Promise<RuleTestResult> => {
+  try {
+    const response = await axios.post(`${API_BASE}/rules/test`, sample);
+    return response.data;
+  } catch (error) {
+    console.error('Test rules error:', error);
+    throw error;
+  }
+};
+
+export const fetchCategories = async (): Promise<Category[]> => {
+  try {
+    const response = await axios.get(`${API_BASE}/categories`);
+    return response.data;
+  } catch (error) {
+    console.error('Fetch categories error:', error);
+    throw error;
+  }
+};
+
+export const createCategory = async (data: Partial<Category>): Promise<Category> => {
+  try {
+    const response = await axios.post(`${API_BASE}/categories`, data);
+    return response.data;
+  } catch (error) {
+    console.error('Create category error:', error);
+    throw error;
+  }
+};
+
+export const deleteCategory = async (id: string): Promise<void> => {
+  try {
+    await axios.delete(`${API_BASE}/categories/${id}`);
+  } catch (error) {
+    console.error('Delete category error:', error);
+    throw error;
+  }
+};
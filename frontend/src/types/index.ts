@@ -1,3 +1,12 @@
+export interface Categorization {
+  source: 'label' | 'llm' | 'rule' | 'manual';
+  model?: string;
+  confidence?: number;
+  rationale?: string;
+  rule?: string;
+  categorizedAt: Date;
+}
+
 export interface Email {
   _id: string;
   messageId: string;
@@ -9,10 +18,186 @@ export interface Email {
   body: string;
   html?: string;
   date: Date;
-  category?: 'Interested' | 'Meeting Booked' | 'Not Interested' | 'Spam' | 'Out of Office';
+  category?: string;
+  categorization?: Categorization;
   isRead: boolean;
   isFlagged: boolean;
   attachments: Array<{ filename: string; size: number }>;
+  inReplyTo?: string;
+  references?: string[];
+  threadId?: string;
+  // Present on search results: fragments with matched terms wrapped in <mark></mark>
+  highlights?: { subject?: string[]; body?: string[] };
+  // Present on semantic and hybrid search results: relevance, higher is better
+  score?: number;
   createdAt: Date;
   updatedAt: Date;
-}
\ No newline at end of file
+}
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+// Counts per value for the current listing; a facet's own filter is not applied to its counts
+export interface Facets {
+  category: FacetBucket[];
+  account: FacetBucket[];
+  folder: FacetBucket[];
+  senderDomain: FacetBucket[];
+  date: FacetBucket[];
+}
+
+// Keyword uses the search syntax; semantic matches by meaning; hybrid combines both
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+// One page of a newest-first listing; pass nextCursor back as `cursor` for the next page
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
+  facets?: Facets;
+}
+
+export interface BackfillState {
+  status: 'running' | 'completed' | 'cancelled' | 'failed';
+  since: Date;
+  processed: number;
+  total: number;
+  failed?: number;
+  error?: string;
+}
+
+export interface Account {
+  _id: string;
+  email: string;
+  host: string;
+  port: number;
+  tls: boolean;
+  smtpHost?: string;
+  smtpPort?: number;
+  folders?: string[];
+  backfillDays?: number;
+  backfill?: BackfillState;
+  isConnected: boolean;
+  lastSyncDate?: Date;
+  createdAt?: Date;
+}
+
+// How suggested replies for an account present the sender; empty fields fall back to the defaults
+export interface ReplyProfile {
+  productName: string;
+  productDescription: string;
+  tone: string;
+  signature: string;
+  meetingLink: string;
+  forbiddenPhrases: string[];
+}
+
+export interface ReplyProfileSettings {
+  profile: Partial<ReplyProfile>;
+  effective: ReplyProfile;
+  defaults: ReplyProfile;
+}
+
+export interface Mailbox {
+  path: string;
+  name: string;
+  specialUse?: string;
+  selectable: boolean;
+  synced: boolean;
+}
+
+export interface Thread {
+  threadId: string;
+  emails: Email[];
+}
+
+export interface Category {
+  _id: string;
+  name: string;
+  description: string;
+  color: string;
+  icon: string;
+  labels: string[];
+  order: number;
+}
+
+export interface Rule {
+  _id: string;
+  name: string;
+  field: 'subject' | 'body' | 'from' | 'to' | 'any';
+  matchType: 'contains' | 'regex' | 'senderDomain' | 'header';
+  header?: string;
+  value: string;
+  category: string;
+  priority: number;
+  stage: 'before' | 'fallback';
+  enabled: boolean;
+}
+
+export interface RuleTestResult {
+  matched: boolean;
+  category?: string;
+  rule?: Rule;
+}
+
+export type KnowledgeType = 'product' | 'pricing' | 'faq' | 'reply' | 'other';
+
+// A knowledge base excerpt given to the model for a suggested reply; the reply cites it as [n]
+export interface Citation {
+  n: number;
+  documentId: string;
+  title: string;
+  type: KnowledgeType;
+  source?: string;
+  position: number;
+  text: string;
+  score: number;
+  cited: boolean;
+}
+
+export type ReplyTone = 'formal' | 'casual' | 'short';
+export type ReplyIntent = 'book_meeting' | 'answer_question' | 'decline';
+
+export interface ReplyOptions {
+  tone?: ReplyTone;
+  intent?: ReplyIntent;
+  language?: string;
+  variants?: number;
+}
+
+export interface ReplyVariant {
+  reply: string;
+  warnings: string[];
+  // Numbers of the sources this draft cites
+  cited: number[];
+}
+
+export interface SuggestedReply {
+  // The first variant
+  reply: string;
+  warnings: string[];
+  variants: ReplyVariant[];
+  sources: Citation[];
+  options: ReplyOptions;
+  // Set when the suggestion was generated earlier and served from the cache
+  cachedAt?: string;
+}
+
+export type DraftStatus = 'draft' | 'sent' | 'discarded';
+
+// A saved or sent reply to an email
+export interface Draft {
+  _id: string;
+  email: string;
+  account?: string;
+  // Text as the model wrote it; empty for replies written from scratch
+  generated: string;
+  body: string;
+  author: string;
+  status: DraftStatus;
+  options?: { tone?: string; intent?: string; language?: string };
+  sentAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}